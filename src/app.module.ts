@@ -2,6 +2,9 @@ import { Module } from '@nestjs/common'
 import { ConfigModule } from '@nestjs/config'
 import { SharedModule } from './common/shared.module'
 import { DanbooruModule } from './danbooru/danbooru.module'
+import { GelbooruModule } from './gelbooru/gelbooru.module'
+import { MoebooruModule } from './moebooru/moebooru.module'
+import { E621Module } from './e621/e621.module'
 
 @Module({
   imports: [
@@ -10,6 +13,9 @@ import { DanbooruModule } from './danbooru/danbooru.module'
     }),
     SharedModule,
     DanbooruModule,
+    GelbooruModule,
+    MoebooruModule.register(),
+    E621Module.register(),
   ],
 })
 export class AppModule {}
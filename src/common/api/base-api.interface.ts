@@ -1,3 +1,5 @@
+import type { PostResponseField, PostVariant } from '../constants'
+
 export interface ApiConfig {
   baseUrl: string
   apiKey?: string
@@ -5,6 +7,7 @@ export interface ApiConfig {
   rateLimit?: number
   cacheTtl?: number
   retryAttempts?: number
+  headers?: Record<string, string> // e.g. a descriptive User-Agent
   auth?: {
     username: string
     password: string
@@ -25,10 +28,136 @@ export interface ApiResponse<T = unknown> {
   timestamp: string
 }
 
-export interface IApiProvider {
-  getApiService(): unknown
+/**
+ * A booru provider as seen by the ProviderRegistryService.
+ * @typeParam TApiService - HTTP client type returned by getApiService()
+ */
+export interface IApiProvider<TApiService = unknown> {
+  getApiService(): TApiService
   getName(): string
   getConfig(): ApiConfig
   getStreamNames(): string[]
   sanitizeResponse(response: ApiResponse<unknown>): ApiResponse<unknown>
 }
+
+export interface BooruRequestOptions {
+  limit?: number
+  page?: number
+  cursor?: string // Opaque cursor from a previous response (b<id>/a<id>)
+  expand?: boolean // Include full posts where a job returns post ids (pool.get)
+  fields?: PostResponseField[] // Post fields to return, id is always kept
+  variant?: PostVariant // Preferred image served as imageUrl
+  imageUrl?: string // Image to look up (iqdb.search)
+  imageData?: string // Base64 image payload, alternative to imageUrl (iqdb.search)
+  responseStream?: string // Resolved response stream, default {apiPrefix}:responses
+  callbackUrl?: string // Allowlisted webhook that also receives the response
+}
+
+// Where a job's responses are published
+export type ResponseTarget = Pick<
+  BooruRequestOptions,
+  'responseStream' | 'callbackUrl'
+>
+
+/**
+ * Normalized post shape returned to clients, regardless of the source booru.
+ */
+export interface BooruPostResponse {
+  id: number
+  imageUrl: string
+  author: string | null
+  tags: string
+  rating: string
+  source: string | null
+  copyright: string
+  characters?: string | null
+  md5?: string | null // File hash, used to de-duplicate federated results
+  provider?: string // apiPrefix that served the post (federated responses only)
+  // Media metadata, filled by providers that expose it (null when unknown)
+  width?: number | null
+  height?: number | null
+  fileSize?: number | null // Bytes of the original file (imageUrl)
+  fileExt?: string | null // e.g. 'jpg', 'png', 'mp4'
+  largeImageUrl?: string | null // Large JPEG (Danbooru: sample, or the original for small files)
+  sampleImageUrl?: string | null // Downscaled sample, null when the post has none
+  previewImageUrl?: string | null // Thumbnail
+  imageVariant?: PostVariant // Variant served as imageUrl, set when the request asked for one
+  score?: number | null
+  favCount?: number | null
+  createdAt?: string | null // ISO 8601
+  metaTags?: string | null
+}
+
+export interface BooruSuccessResponse {
+  [key: string]: unknown
+  type: 'success'
+  jobId: string
+  posts: BooruPostResponse[]
+  nextCursor?: string | null
+  prevCursor?: string | null
+  servedBy?: string // apiPrefix that answered, differs from the requested one after failover
+}
+
+/**
+ * Kind of failure, for transports that map errors onto their own status codes
+ * (HTTP: 429, 409, 404, 502) without parsing the message.
+ */
+export type BooruErrorCode =
+  | 'rate_limited'
+  | 'in_progress'
+  | 'not_found'
+  | 'upstream'
+
+export interface BooruErrorResponse {
+  type: 'error'
+  jobId: string
+  error: string
+  code?: BooruErrorCode
+}
+
+export type BooruResponse = BooruSuccessResponse | BooruErrorResponse
+
+/**
+ * Success response of a job type other than `posts` (autocomplete, ...).
+ * The payload fields depend on jobType.
+ */
+export interface BooruJobSuccessResponse {
+  [key: string]: unknown
+  type: 'success'
+  jobId: string
+  jobType: string
+}
+
+export type BooruJobResponse = BooruJobSuccessResponse | BooruErrorResponse
+
+/**
+ * Handles one non-search job type for a provider, see BaseBooruService.getJobHandlers
+ * @param jobId - Job ID
+ * @param query - Validated query (a tag prefix for autocomplete)
+ * @param options - Per-request overrides (limit, ...)
+ */
+export type BooruJobHandler = (
+  jobId: string,
+  query: string,
+  options: BooruRequestOptions,
+) => Promise<BooruJobSuccessResponse>
+
+/**
+ * Outcome of a federated search: which providers answered and which failed (with reason).
+ */
+export interface FederatedProvidersSummary {
+  answered: string[]
+  failed: { provider: string; error: string }[]
+}
+
+export interface FederatedSuccessResponse extends BooruSuccessResponse {
+  providers: FederatedProvidersSummary
+}
+
+export interface FederatedErrorResponse extends BooruErrorResponse {
+  providers: FederatedProvidersSummary
+}
+
+export type FederatedResponse =
+  | FederatedSuccessResponse
+  | FederatedErrorResponse
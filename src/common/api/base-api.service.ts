@@ -6,24 +6,44 @@ import * as crypto from 'crypto'
 import Redis from 'ioredis'
 import { ApiResponse, ApiConfig } from './base-api.interface'
 import { CacheService, CacheableResponse } from '../cache/cache.service'
+import { UpstreamUnavailableError } from './upstream-unavailable.error'
+import { canonicalizeQuery } from '../query/utils/query-canonicalizer.util'
 
 export type { ApiConfig, ApiResponse } from './base-api.interface'
 
 @Injectable()
 export abstract class BaseApiService {
   protected readonly logger = new Logger(this.constructor.name)
-  protected readonly httpClient: AxiosInstance
+  private client?: AxiosInstance
 
   constructor(
     protected configService: ConfigService,
     @Inject('REDIS_CLIENT') protected redis?: Redis,
     @Inject(CacheService) protected cacheService?: CacheService, // Optional cache injection
-  ) {
-    this.httpClient = axios.create(this.getApiConfig())
+  ) {}
+
+  /**
+   * HTTP client built on first use, so subclasses can rely on their own
+   * constructor-initialized fields (credentials, host) inside getApiConfig().
+   */
+  protected get httpClient(): AxiosInstance {
+    if (!this.client) {
+      this.client = this.createHttpClient(this.getApiConfig())
+    }
+    return this.client
+  }
+
+  private createHttpClient(config: ApiConfig): AxiosInstance {
+    const client = axios.create({
+      baseURL: config.baseUrl,
+      timeout: config.timeout,
+      auth: config.auth,
+      headers: config.headers,
+    })
 
     // Configure axios-retry with exponential backoff and custom conditions
-    axiosRetry(this.httpClient, {
-      retries: this.getApiConfig().retryAttempts || 3,
+    axiosRetry(client, {
+      retries: config.retryAttempts || 3,
       retryDelay: (retryCount, error) => {
         // Check for 429 retry-after header
         if (
@@ -53,24 +73,48 @@ export abstract class BaseApiService {
         )
       },
     })
+
+    return client
   }
 
   protected abstract getApiConfig(): ApiConfig
   protected abstract getBaseEndpoint(): string
 
+  getConfig(): ApiConfig {
+    return this.getApiConfig()
+  }
+
+  /**
+   * Sanitizes every post of an already fetched response with this API's field list.
+   * @param response - Response whose data is a post or a list of posts
+   * @returns Copy of the response with sanitized data
+   */
+  sanitizeApiResponse(response: ApiResponse<unknown>): ApiResponse<unknown> {
+    const data = Array.isArray(response.data)
+      ? response.data.map((post: unknown) => this.sanitizeResponse(post))
+      : this.sanitizeResponse(response.data)
+    return { ...response, data }
+  }
+
+  /**
+   * Fetches a page of posts and wraps them in an ApiResponse envelope.
+   * metadata.next/prev carry opaque cursors for the neighbouring pages.
+   * @param page - Page number or cursor (e.g. 'b1234') forwarded to the API
+   * @returns null when nothing was found or the request was rejected
+   * @throws UpstreamUnavailableError on 5xx/429/timeouts once retries are exhausted
+   */
   async fetchPosts(
     query: string,
     limit = 1,
     random = true,
-  ): Promise<Record<string, unknown> | null> {
+    page?: string,
+  ): Promise<ApiResponse<Record<string, unknown>[]> | null> {
     const apiPrefix = this.getName()
 
     if (this.cacheService && !random) {
-      const cached = await this.cacheService.getCachedResponse(
-        apiPrefix,
-        query,
-        random,
-      )
+      const cached = await this.cacheService.getCachedResponse<
+        ApiResponse<Record<string, unknown>[]> & CacheableResponse
+      >(apiPrefix, query, random, limit, undefined, page)
       if (cached) {
         this.logger.debug(
           `${this.constructor.name}: Cache hit for query: ${query}`,
@@ -83,9 +127,9 @@ export abstract class BaseApiService {
       this.logger.log(
         `${this.constructor.name}: Fetching posts for query: ${query}`,
       )
-      const endpoint = this.buildEndpoint(query, limit, random)
-      const response = await this.httpClient.get<ApiResponse>(endpoint)
-      const rawPosts = response.data?.data
+      const endpoint = this.buildEndpoint(query, limit, random, page)
+      const response = await this.httpClient.get<unknown>(endpoint)
+      const rawPosts = this.extractPosts(response.data)
       this.logger.log(
         `${this.constructor.name}: Response data type: ${typeof response.data}`,
       )
@@ -95,57 +139,189 @@ export abstract class BaseApiService {
         )
       }
 
-      if (!rawPosts || !Array.isArray(rawPosts) || rawPosts.length === 0) {
+      if (!rawPosts || rawPosts.length === 0) {
         this.logger.warn(
           `${this.constructor.name}: No posts found for query: ${query}`,
         )
         return null
       }
 
-      const post = rawPosts[0] as Record<string, unknown>
+      const sanitizedPosts = rawPosts
+        .slice(0, limit)
+        .map(post => this.sanitizeResponse(post))
       this.logger.log(
-        `${this.constructor.name}: Post data type before sanitize: ${typeof post}`,
+        `${this.constructor.name}: Sanitized ${sanitizedPosts.length} posts for query: ${query}`,
       )
-      const sanitizedPost = this.sanitizeResponse(post)
+
+      const result: ApiResponse<Record<string, unknown>[]> = {
+        data: sanitizedPosts,
+        metadata: {
+          limit,
+          ...(random ? {} : this.buildCursors(sanitizedPosts, limit, page)),
+        },
+        status: response.status,
+        timestamp: new Date().toISOString(),
+      }
 
       if (!random && this.cacheService) {
         await this.cacheService.setCache(
           apiPrefix,
           query,
-          sanitizedPost as CacheableResponse,
+          result as unknown as CacheableResponse,
           random,
+          limit,
+          undefined,
+          undefined,
+          page,
         )
       }
 
-      return sanitizedPost
+      return result
     } catch (error) {
       const err = error as Error
       this.logger.error(
         `${this.constructor.name}: API error for query ${query}: ${err.message}`,
         err.stack,
       )
+      if (this.isUpstreamUnavailable(error)) {
+        throw new UpstreamUnavailableError(
+          apiPrefix,
+          err.message,
+          axios.isAxiosError(error) ? error.response?.status : undefined,
+        )
+      }
       return null
     }
   }
 
+  /**
+   * GET for lookups outside the search path (single post, tags, pools, ...).
+   * Responses are not sanitized here, callers sanitize the fields they return.
+   * @param endpoint - Path + query string relative to the API base URL
+   * @returns Response body, or null on 404
+   * @throws UpstreamUnavailableError on 5xx/429/timeouts once retries are exhausted
+   * @throws The axios error for other failures (4xx)
+   */
+  protected async fetchResource<T = unknown>(
+    endpoint: string,
+  ): Promise<T | null> {
+    return this.requestResource<T>('get', endpoint)
+  }
+
+  /**
+   * POST counterpart of fetchResource, for endpoints that take uploads (e.g. IQDB).
+   * @param endpoint - Path + query string relative to the API base URL
+   * @param body - Request body (FormData for file uploads)
+   * @returns Response body, or null on 404
+   * @throws Same errors as fetchResource
+   */
+  protected async postResource<T = unknown>(
+    endpoint: string,
+    body: unknown,
+  ): Promise<T | null> {
+    return this.requestResource<T>('post', endpoint, body)
+  }
+
+  private async requestResource<T>(
+    method: 'get' | 'post',
+    endpoint: string,
+    body?: unknown,
+  ): Promise<T | null> {
+    try {
+      const response = await this.httpClient.request<T>({
+        method,
+        url: endpoint,
+        data: body,
+      })
+      return response.data ?? null
+    } catch (error) {
+      if (axios.isAxiosError(error) && error.response?.status === 404) {
+        return null
+      }
+      const err = error as Error
+      this.logger.error(
+        `${this.constructor.name}: API error for ${endpoint.split('?')[0]}: ${err.message}`,
+        err.stack,
+      )
+      if (this.isUpstreamUnavailable(error)) {
+        throw new UpstreamUnavailableError(
+          this.getName(),
+          err.message,
+          axios.isAxiosError(error) ? error.response?.status : undefined,
+        )
+      }
+      throw error
+    }
+  }
+
+  // Same conditions axios-retry retries on: no response (timeout/network), 429 or 5xx
+  private isUpstreamUnavailable(error: unknown): boolean {
+    if (!axios.isAxiosError(error)) {
+      return false
+    }
+    const status = error.response?.status
+    return status === undefined || status === 429 || status >= 500
+  }
+
+  /**
+   * Pulls the list of raw posts out of the API response body.
+   * Handles a bare array (Danbooru) and a `{ data: [] }` envelope,
+   * override in subclasses whose API wraps posts differently.
+   */
+  protected extractPosts(body: unknown): unknown[] | undefined {
+    if (Array.isArray(body)) {
+      return body as unknown[]
+    }
+    const data = (body as { data?: unknown } | null)?.data
+    return Array.isArray(data) ? data : undefined
+  }
+
   protected buildEndpoint(
     query: string,
     limit: number,
     random: boolean,
+    page?: string,
   ): string {
     let endpoint = `${this.getBaseEndpoint()}?tags=${encodeURIComponent(query)}&limit=${limit}`
     if (random) {
       endpoint += '&random=true'
     }
+    if (page) {
+      endpoint += `&page=${encodeURIComponent(page)}`
+    }
     return endpoint
   }
 
+  /**
+   * Builds Danbooru-style id cursors for the neighbouring pages.
+   * `b<id>` pages before the lowest id (older posts), `a<id>` after the highest id.
+   * next is omitted on a short page, prev is omitted on the first page.
+   * Override in subclasses whose API paginates differently.
+   */
+  protected buildCursors(
+    posts: Record<string, unknown>[],
+    limit: number,
+    page?: string,
+  ): { next?: string; prev?: string } {
+    const ids = posts
+      .map(post => post.id)
+      .filter((id): id is number => typeof id === 'number')
+    if (ids.length === 0) {
+      return {}
+    }
+
+    return {
+      next: posts.length >= limit ? `b${Math.min(...ids)}` : undefined,
+      prev: page && page !== '1' ? `a${Math.max(...ids)}` : undefined,
+    }
+  }
+
   protected getCacheKey(
     apiPrefix: string,
     query: string,
     random: boolean,
   ): string {
-    const normalized = query.trim().toLowerCase().replace(/\s+/g, ' ')
+    const normalized = canonicalizeQuery(query)
     const key = `${apiPrefix}:${normalized}|random=${random ? 1 : 0}`
     return key
   }
@@ -205,7 +381,7 @@ export abstract class BaseApiService {
     }
 
     // 2. Query-specific invalidation with optional random filtering
-    const normalizedQuery = query.trim().toLowerCase().replace(/\s+/g, ' ')
+    const normalizedQuery = canonicalizeQuery(query)
     const queryHash = crypto
       .createHash('md5')
       .update(normalizedQuery)
@@ -0,0 +1,606 @@
+import { Logger } from '@nestjs/common'
+import { ConfigService } from '@nestjs/config'
+import Redis from 'ioredis'
+import {
+  ApiConfig,
+  ApiResponse,
+  BooruResponse,
+  BooruSuccessResponse,
+  BooruErrorResponse,
+  BooruRequestOptions,
+  BooruJobHandler,
+  BooruJobResponse,
+  IApiProvider,
+  ResponseTarget,
+} from './base-api.interface'
+import type { BaseApiService } from './base-api.service'
+import { UpstreamUnavailableError } from './upstream-unavailable.error'
+import { NotFoundError } from './not-found.error'
+import { projectResponse } from './utils/post-projection.util'
+import { hashQueryLock, resolvePaging } from './utils/request-params.util'
+import type { ProviderRegistryService } from './provider-registry.service'
+import { CacheService, CacheableResponse } from '../cache/cache.service'
+import { RateLimitManagerService } from '../rate-limit/rate-limit-manager.service'
+import { LockUtil } from '../redis/utils/lock.util'
+import { addToDLQ } from '../queues/utils/dlq.util'
+import { recordJobResponse } from '../queues/utils/job-status.util'
+import { addResponse } from '../queues/utils/response-stream.util'
+import {
+  QUERY_LOCK_TIMEOUT_SECONDS,
+  CACHE_PREFIX,
+  POSTS_RESOURCE,
+  TAG_SUFFIX,
+  RANDOM_SUFFIX,
+  POSTS_JOB_TYPE,
+  getStreamName,
+} from '../constants'
+import { extractQueryTags } from '../query/utils/query-parser.util'
+
+/**
+ * Shared request orchestration for booru providers.
+ * Subclasses supply the apiPrefix and the provider-specific fetch + response mapping,
+ * everything else (locking, rate limit, cache, invalidation, publish, DLQ) is common.
+ * Each orchestrator is the IApiProvider registered in the ProviderRegistryService.
+ */
+export abstract class BaseBooruService implements IApiProvider<BaseApiService> {
+  protected readonly logger = new Logger(this.constructor.name)
+  protected abstract readonly apiPrefix: string
+
+  constructor(
+    protected configService: ConfigService,
+    protected readonly redis: Redis,
+    protected readonly lockUtil: LockUtil,
+    protected readonly cacheService: CacheService,
+    protected readonly rateLimitManagerService: RateLimitManagerService,
+    protected readonly providerRegistry: ProviderRegistryService,
+  ) {}
+
+  /**
+   * HTTP client used by this provider
+   */
+  abstract getApiService(): BaseApiService
+
+  getName(): string {
+    return this.apiPrefix
+  }
+
+  getConfig(): ApiConfig {
+    return this.getApiService().getConfig()
+  }
+
+  getStreamNames(): string[] {
+    return ['requests', 'responses', 'dlq'].map(type =>
+      getStreamName(this.apiPrefix, type),
+    )
+  }
+
+  sanitizeResponse(response: ApiResponse<unknown>): ApiResponse<unknown> {
+    return this.getApiService().sanitizeApiResponse(response)
+  }
+
+  /**
+   * Fetches posts from the provider API and maps them to the normalized response.
+   * Must throw if nothing was found so the error is published and sent to the DLQ.
+   * @param query - Query string
+   * @param random - Random flag
+   * @param limit - Limit
+   * @param jobId - Job ID
+   * @param page - Page number or cursor
+   * @returns Success response
+   */
+  protected abstract fetchAndBuildResponse(
+    query: string,
+    random: boolean,
+    limit: number,
+    jobId: string,
+    page?: string,
+  ): Promise<BooruSuccessResponse>
+
+  /**
+   * Request handler with query-level locking for deduplication.
+   * Broken into sub-methods for SRP: locking, params, rate/cache, fetch, invalidation, errors.
+   * Preserves behavior: acquire/release lock, cache hit/miss, publish, DLQ.
+   * @param options - Per-request overrides (e.g. limit, capped by {PREFIX}_MAX_LIMIT)
+   */
+  async processRequest(
+    jobId: string,
+    query: string,
+    clientId?: string,
+    options: BooruRequestOptions = {},
+  ): Promise<BooruResponse> {
+    this.logger.log(
+      `Processing job ${jobId} for query: ${query.replace(/./g, '*')}`,
+      jobId,
+    )
+
+    const lockContext = await this.acquireQueryLock(query, jobId, options)
+    if (!lockContext) {
+      return this.handleDuplicateProcessing(
+        jobId,
+        'Query is currently being processed',
+        options,
+      )
+    }
+
+    try {
+      const response = await this.searchWithFailover(
+        jobId,
+        query,
+        clientId,
+        options,
+      )
+      if (response.type === 'error') {
+        return response
+      }
+
+      const projected = projectResponse(response, options)
+      await this.publishResponse(jobId, projected, options)
+
+      return projected
+    } catch (error) {
+      return this.handleErrorAndPublish(jobId, query, error, options)
+    } finally {
+      await this.releaseQueryLock(lockContext, jobId)
+    }
+  }
+
+  /**
+   * Handlers for the job types this provider answers besides `posts`.
+   * Override in subclasses, e.g. `{ autocomplete: (jobId, query, options) => ... }`.
+   */
+  protected getJobHandlers(): Record<string, BooruJobHandler> {
+    return {}
+  }
+
+  supportsJobType(jobType: string): boolean {
+    return jobType === POSTS_JOB_TYPE || jobType in this.getJobHandlers()
+  }
+
+  /**
+   * Entry point for every job type: `posts` goes through processRequest, other types
+   * through their handler, under the same rate limit, publish and DLQ handling.
+   * The consumer already holds the query lock for non-search jobs.
+   * @param jobType - Job type from the request, e.g. 'posts' or 'autocomplete'
+   * @throws Error if this provider does not support the job type
+   */
+  async processJob(
+    jobType: string,
+    jobId: string,
+    query: string,
+    clientId?: string,
+    options: BooruRequestOptions = {},
+  ): Promise<BooruResponse | BooruJobResponse> {
+    if (jobType === POSTS_JOB_TYPE) {
+      return this.processRequest(jobId, query, clientId, options)
+    }
+
+    const handler = this.getJobHandlers()[jobType]
+    if (!handler) {
+      throw new Error(`Unsupported job type for ${this.apiPrefix}: ${jobType}`)
+    }
+
+    const rateCheck = await this.rateLimitManagerService.checkRateLimit(
+      this.apiPrefix,
+      jobId,
+      clientId,
+    )
+    if (!rateCheck.allowed) {
+      await this.publishResponse(jobId, rateCheck.error, options)
+      return rateCheck.error
+    }
+
+    try {
+      const response = projectResponse(
+        await handler(jobId, query, options),
+        options,
+      )
+      await this.publishResponse(jobId, response, options)
+      return response
+    } catch (error) {
+      return this.handleErrorAndPublish(jobId, query, error, options)
+    }
+  }
+
+  /**
+   * Rate limit, cache lookup, fetch and cache invalidation for one request.
+   * Does not lock, publish or touch the DLQ, so federated search can fan out to it;
+   * fetch errors are thrown to the caller.
+   * @param options - Per-request overrides (limit, page, cursor)
+   * @returns Success response, or the rate limit error
+   */
+  async searchPosts(
+    jobId: string,
+    query: string,
+    clientId?: string,
+    options: BooruRequestOptions = {},
+  ): Promise<BooruResponse> {
+    const { random, limit, tags, page } = this.prepareRequestParams(
+      query,
+      options,
+    )
+
+    const rateCheck = await this.rateLimitManagerService.checkRateLimit(
+      this.apiPrefix,
+      jobId,
+      clientId,
+    )
+    if (!rateCheck.allowed) {
+      return rateCheck.error
+    }
+
+    let response = await this.getOrFetchFromCache(
+      query,
+      random,
+      limit,
+      tags,
+      jobId,
+      page,
+    )
+    if (!response) {
+      response = await this.fetchAndBuildResponse(
+        query,
+        random,
+        limit,
+        jobId,
+        page,
+      )
+      await this.cacheService.setCache(
+        this.apiPrefix,
+        query,
+        response as CacheableResponse,
+        random,
+        limit,
+        tags,
+        undefined,
+        page,
+      )
+    }
+
+    await this.performCacheInvalidation(tags, random, jobId)
+
+    return response
+  }
+
+  /**
+   * searchPosts on this provider; when the upstream is unavailable (5xx/429/timeout after
+   * retries) the same query is retried on each {PREFIX}_FAILOVER provider in order,
+   * which translates the Danbooru-style tags for its own API.
+   * Cursor requests do not fail over: cursors are post ids of this provider.
+   * @returns Response with servedBy set to the provider that answered
+   * @throws The last error if no provider in the chain answered
+   */
+  protected async searchWithFailover(
+    jobId: string,
+    query: string,
+    clientId?: string,
+    options: BooruRequestOptions = {},
+  ): Promise<BooruResponse> {
+    try {
+      const response = await this.searchPosts(jobId, query, clientId, options)
+      return response.type === 'success'
+        ? { ...response, servedBy: this.apiPrefix }
+        : response
+    } catch (error) {
+      if (!(error instanceof UpstreamUnavailableError) || options.cursor) {
+        throw error
+      }
+
+      let lastError: unknown = error
+      for (const fallback of this.providerRegistry.getFailoverChain(
+        this.apiPrefix,
+      )) {
+        const fallbackName = fallback.getName()
+        this.logger.warn(
+          `Failing over job ${jobId} from ${this.apiPrefix} to ${fallbackName}: ${lastError instanceof Error ? lastError.message : String(lastError)}`,
+          jobId,
+        )
+        try {
+          const response = await fallback.searchPosts(
+            jobId,
+            query,
+            clientId,
+            options,
+          )
+          if (response.type === 'success') {
+            return { ...response, servedBy: fallbackName }
+          }
+          lastError = new Error(response.error)
+        } catch (fallbackError) {
+          lastError = fallbackError
+        }
+      }
+      throw lastError
+    }
+  }
+
+  /**
+   * Acquires query lock using LockUtil.
+   * The apiPrefix is part of the hash so the same query on two providers does not contend;
+   * the query is canonicalized so equivalent spellings share one lock. Like the cache
+   * key, the lock covers the effective limit and page/cursor, so page 2 does not wait for page 1.
+   * @param query - Query string to hash for lock key
+   * @param jobId - Job ID for logging
+   * @param options - Per-request limit, page and cursor
+   * @returns Lock context or null if not acquired
+   */
+  protected async acquireQueryLock(
+    query: string,
+    jobId: string,
+    options: BooruRequestOptions = {},
+  ): Promise<{ lockKey: string; lockValue: string } | null> {
+    const queryHash = hashQueryLock(
+      this.apiPrefix,
+      query,
+      resolvePaging(this.configService, this.apiPrefix, options),
+    )
+    const lockKey = `lock:query:${queryHash}`
+
+    const lockValue = await this.lockUtil.acquireLock(
+      lockKey,
+      QUERY_LOCK_TIMEOUT_SECONDS,
+    )
+    if (!lockValue) {
+      this.logger.warn(
+        `Query lock not acquired for job ${jobId} (already processing)`,
+        jobId,
+      )
+      return null
+    }
+
+    return { lockKey, lockValue }
+  }
+
+  /**
+   * Early return for duplicate requests: publish error and return.
+   * @param jobId - Job ID
+   * @param errorMsg - Error message for response
+   * @param target - Response stream (default {apiPrefix}:responses) and callbackUrl
+   * @returns Error response
+   */
+  protected async handleDuplicateProcessing(
+    jobId: string,
+    errorMsg: string,
+    target: ResponseTarget = {},
+  ): Promise<BooruErrorResponse> {
+    const error: BooruErrorResponse = {
+      type: 'error',
+      jobId,
+      error: errorMsg,
+      code: 'in_progress',
+    }
+    await this.publishResponse(jobId, error, target)
+    return error
+  }
+
+  /**
+   * Prepares request parameters: config + extract tags.
+   * Requested limit falls back to {PREFIX}_LIMIT and is capped by {PREFIX}_MAX_LIMIT.
+   * A cursor takes precedence over a page number; paging disables random ordering.
+   * @param query - Query string
+   * @param options - Per-request overrides
+   * @returns Params object with random, limit, tags, page
+   */
+  protected prepareRequestParams(
+    query: string,
+    options: BooruRequestOptions,
+  ): {
+    random: boolean
+    limit: number
+    tags: string[]
+    page?: string
+  } {
+    const configPrefix = this.apiPrefix.toUpperCase()
+    const { limit, page } = resolvePaging(
+      this.configService,
+      this.apiPrefix,
+      options,
+    )
+
+    return {
+      random:
+        !page &&
+        (this.configService.get<boolean>(`${configPrefix}_RANDOM`) || true),
+      limit,
+      tags: extractQueryTags(query),
+      page,
+    }
+  }
+
+  /**
+   * Gets from cache or returns null to trigger fetch + build response.
+   * Returns null if cache miss (for throw in orchestrator).
+   * @param query - Query string
+   * @param random - Random flag
+   * @param limit - Limit
+   * @param tags - Extracted tags
+   * @param jobId - Job ID for logging
+   * @param page - Page number or cursor
+   * @returns Cached response or null
+   */
+  protected async getOrFetchFromCache(
+    query: string,
+    random: boolean,
+    limit: number,
+    tags: string[],
+    jobId: string,
+    page?: string,
+  ): Promise<BooruSuccessResponse | null> {
+    const cached =
+      await this.cacheService.getCachedResponse<BooruSuccessResponse>(
+        this.apiPrefix,
+        query,
+        random,
+        limit,
+        tags,
+        page,
+      )
+    if (cached) {
+      this.logger.log(`Cache hit for ${this.apiPrefix} job ${jobId}`)
+      return cached
+    }
+
+    return null // Trigger fetch in caller
+  }
+
+  /**
+   * Cache invalidation for tags and random (proactive freshness).
+   * @param tags - Extracted tags
+   * @param random - Random flag
+   * @param jobId - Job ID for logging
+   */
+  protected async performCacheInvalidation(
+    tags: string[],
+    random: boolean,
+    jobId: string,
+  ): Promise<void> {
+    const postsPattern = `${CACHE_PREFIX}:${this.apiPrefix}:${POSTS_RESOURCE}:*`
+
+    if (tags.length > 0) {
+      for (const tag of tags) {
+        const escapedTag = tag.replace(/[[\]*?^$.\\]/g, '\\$&')
+        const tagPattern = `${postsPattern}:${TAG_SUFFIX}:*`.replace(
+          '*',
+          escapedTag,
+        )
+        const deleted = await this.cacheService.invalidateCache(tagPattern)
+        if (deleted > 0) {
+          this.logger.debug(
+            `Invalidated ${deleted} tag-specific caches for tag: ${tag}`,
+            jobId,
+          )
+        }
+      }
+    }
+
+    if (random) {
+      const randomDeleted = await this.cacheService.invalidateCache(
+        `${postsPattern}:${RANDOM_SUFFIX}:*`,
+      )
+      if (randomDeleted > 0) {
+        this.logger.debug(
+          `Invalidated ${randomDeleted} random query caches for freshness`,
+          jobId,
+        )
+      }
+    }
+  }
+
+  /**
+   * Unified error handling: log + publish + DLQ (DRY, replaces handleApiError/handleProcessingError).
+   * @param jobId - Job ID
+   * @param query - Query string
+   * @param error - Error object
+   * @param target - Response stream (default {apiPrefix}:responses) and callbackUrl
+   * @returns Error response
+   */
+  protected async handleErrorAndPublish(
+    jobId: string,
+    query: string,
+    error: unknown,
+    target: ResponseTarget = {},
+  ): Promise<BooruErrorResponse> {
+    const errorMsg = error instanceof Error ? error.message : String(error)
+    this.logger.error(`Error processing job ${jobId}: ${errorMsg}`, jobId)
+
+    const response: BooruErrorResponse = {
+      type: 'error',
+      jobId,
+      error: errorMsg,
+      code: error instanceof NotFoundError ? 'not_found' : 'upstream',
+    }
+    await this.publishResponse(jobId, response, target)
+    await addToDLQ(this.redis, this.apiPrefix, jobId, errorMsg, query, 0)
+
+    return response
+  }
+
+  /**
+   * Releases query lock.
+   * @param lockContext - Lock key/value
+   * @param jobId - Job ID for logging
+   */
+  protected async releaseQueryLock(
+    lockContext: { lockKey: string; lockValue: string },
+    jobId: string,
+  ): Promise<void> {
+    const released = await this.lockUtil.releaseLock(
+      lockContext.lockKey,
+      lockContext.lockValue,
+    )
+    if (released) {
+      this.logger.debug(
+        `Query lock released for ${lockContext.lockKey} by job ${jobId}`,
+      )
+    }
+  }
+
+  async publishResponse(
+    jobId: string,
+    data: BooruResponse | BooruJobResponse,
+    target: ResponseTarget = {},
+  ) {
+    const responseKey =
+      target.responseStream ?? getStreamName(this.apiPrefix, 'responses')
+    await addResponse(
+      this.redis,
+      this.configService,
+      responseKey,
+      jobId,
+      data,
+      target.callbackUrl,
+    )
+    await recordJobResponse(this.redis, this.apiPrefix, jobId, data)
+
+    this.logger.log(`Published response for job ${jobId} to ${responseKey}`)
+  }
+
+  /**
+   * Cache Invalidation Strategy:
+   *
+   * 1. TAG-SPECIFIC INVALIDATION: After successful API call with tags,
+   *    invalidate all cache entries matching the pattern:
+   *    `cache:{apiPrefix}:posts:*:tag:{tag-hash}` for each tag in query
+   *
+   * 2. RANDOM QUERY FRESHNESS: For random queries, proactively invalidate
+   *    all random cache entries periodically to ensure fresh random results.
+   *    Pattern: `cache:{apiPrefix}:posts:*:random:*`
+   *
+   * 3. BULK INVALIDATION: When major content updates occur (future enhancement),
+   *    use `cache:{apiPrefix}:posts:*` to clear all post-related caches.
+   *
+   * 4. DETERMINISTIC RANDOM SEEDING: Random queries now use deterministic
+   *    seeding based on (query + limit + tags) ensuring consistent "random"
+   *    results across cache layers while maintaining freshness through
+   *    proactive invalidation.
+   *
+   * This strategy balances performance (caching) with data freshness
+   * (proactive invalidation) while maintaining semantic cache key structure
+   * for targeted operations.
+   *
+   * DEDUPLICATION STRATEGY DOCUMENTATION:
+   *
+   * This service implements a multi-layered deduplication approach:
+   *
+   * 1. CONSUMER LEVEL (redis-stream.consumer.ts):
+   *    - DLQ Duplicate Check: Scans recent DLQ entries for identical queries within 1 hour
+   *    - Query Hash Locking: Uses Redis SET NX with 5-minute TTL to prevent concurrent processing
+   *    - Server-side Job ID: Generates UUID to prevent client-side ID collisions
+   *    - Job-level Deduplication: Final SET NX check as safety net
+   *
+   * 2. SERVICE LEVEL (this file):
+   *    - Additional Query Locking: Double-checks lock acquisition for safety against direct calls
+   *    - Graceful Lock Release: Ensures locks are released even on errors via try/finally
+   *
+   * 3. DLQ PREVENTION (dlq.util.ts):
+   *    - dedupCheck(): Scans DLQ stream for recent failures before adding new entries
+   *    - Time Window: Configurable 1-hour deduplication window via DLQ_DEDUP_WINDOW_SECONDS
+   *
+   * LOCK KEYS: `lock:query:{sha256(apiPrefix:canonicalQuery:limit:page)}` - 30 seconds TTL (QUERY_LOCK_TIMEOUT_SECONDS)
+   * PROCESSED KEYS: `processed:{jobId}` - 24 hours TTL (DEDUP_TTL_SECONDS)
+   * DLQ DEDUP WINDOW: 1 hour (DLQ_DEDUP_WINDOW_SECONDS)
+   *
+   * This comprehensive strategy prevents duplicate API calls to the upstream boorus while handling
+   * race conditions, ensuring failed requests don't spam the DLQ with identical queries,
+   * and providing robust protection against concurrent processing.
+   */
+}
@@ -0,0 +1,208 @@
+import { ConfigService } from '@nestjs/config'
+import Redis from 'ioredis'
+import { FederatedSearchService } from './federated-search.service'
+import { ProviderRegistryService } from './provider-registry.service'
+import type { BooruPostResponse } from './base-api.interface'
+import * as dlqUtil from '../queues/utils/dlq.util'
+import { RESPONSE_STREAM_MAXLEN } from '../constants'
+import * as jobStatusUtil from '../queues/utils/job-status.util'
+
+jest.mock('../queues/utils/dlq.util')
+jest.mock('../queues/utils/job-status.util')
+
+const mockAddToDLQ = jest.mocked(dlqUtil.addToDLQ)
+const mockRecordJobResponse = jest.mocked(jobStatusUtil.recordJobResponse)
+
+describe('FederatedSearchService', () => {
+  let service: FederatedSearchService
+  let mockRedis: { xadd: jest.Mock }
+  let config: Record<string, string>
+  let providers: Record<
+    string,
+    { getName: () => string; searchPosts: jest.Mock }
+  >
+
+  const post = (id: number, md5: string | null): BooruPostResponse => ({
+    id,
+    imageUrl: `https://example.com/${id}.jpg`,
+    author: null,
+    tags: 'cat',
+    rating: 's',
+    source: null,
+    copyright: '',
+    characters: null,
+    md5,
+  })
+
+  const createProvider = (name: string) => ({
+    getName: () => name,
+    searchPosts: jest.fn(),
+  })
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockRedis = { xadd: jest.fn().mockResolvedValue('1-0') }
+    config = {}
+    providers = {
+      danbooru: createProvider('danbooru'),
+      gelbooru: createProvider('gelbooru'),
+    }
+    const registry = {
+      getEnabledProvider: jest.fn((name: string) => {
+        if (!providers[name]) {
+          throw new Error(`Unsupported API provider: ${name}`)
+        }
+        return providers[name]
+      }),
+      getEnabledProviders: jest.fn(() => Object.values(providers)),
+    }
+
+    service = new FederatedSearchService(
+      mockRedis as unknown as Redis,
+      {
+        get: jest.fn((key: string) => config[key]),
+      } as unknown as ConfigService,
+      registry as unknown as ProviderRegistryService,
+    )
+  })
+
+  it('should resolve * to every enabled provider', () => {
+    expect(service.resolveProviderNames('*')).toEqual(['danbooru', 'gelbooru'])
+    expect(service.resolveProviderNames(' Gelbooru,danbooru,gelbooru')).toEqual(
+      ['gelbooru', 'danbooru'],
+    )
+  })
+
+  it('should interleave results and de-duplicate by md5', async () => {
+    providers.danbooru.searchPosts.mockResolvedValue({
+      type: 'success',
+      jobId: 'job-1',
+      posts: [post(1, 'aaa'), post(2, 'bbb')],
+    })
+    providers.gelbooru.searchPosts.mockResolvedValue({
+      type: 'success',
+      jobId: 'job-1',
+      posts: [post(10, 'AAA'), post(11, null)],
+    })
+
+    const response = await service.search(
+      'job-1',
+      'danbooru,gelbooru',
+      'cat',
+      'client',
+      { limit: 2, cursor: 'b5' },
+    )
+
+    expect(providers.danbooru.searchPosts).toHaveBeenCalledWith(
+      'job-1',
+      'cat',
+      'client',
+      { limit: 2, page: undefined },
+    )
+    expect(response).toMatchObject({
+      type: 'success',
+      nextCursor: null,
+      prevCursor: null,
+      providers: { answered: ['danbooru', 'gelbooru'], failed: [] },
+    })
+    const posts = (response as { posts: BooruPostResponse[] }).posts
+    expect(posts.map(p => [p.id, p.provider])).toEqual([
+      [1, 'danbooru'],
+      [2, 'danbooru'],
+      [11, 'gelbooru'],
+    ])
+    expect(mockRedis.xadd).toHaveBeenCalledWith(
+      'federated:responses',
+      'MAXLEN',
+      '~',
+      RESPONSE_STREAM_MAXLEN,
+      '*',
+      'jobId',
+      'job-1',
+      'data',
+      expect.any(String),
+    )
+    expect(mockRecordJobResponse).toHaveBeenCalledWith(
+      mockRedis,
+      'federated',
+      'job-1',
+      response,
+    )
+  })
+
+  it('should report failed, rate limited and unknown providers', async () => {
+    providers.danbooru.searchPosts.mockRejectedValue(
+      new Error('Request failed with status code 503'),
+    )
+    providers.gelbooru.searchPosts.mockResolvedValue({
+      type: 'error',
+      jobId: 'job-2',
+      error: 'Rate limit exceeded',
+    })
+    providers.e621 = createProvider('e621')
+    providers.e621.searchPosts.mockResolvedValue({
+      type: 'success',
+      jobId: 'job-2',
+      posts: [post(7, 'ccc')],
+    })
+
+    const response = await service.search(
+      'job-2',
+      'danbooru,gelbooru,e621,unknown',
+      'cat',
+    )
+
+    expect(response.type).toBe('success')
+    expect(response.providers).toEqual({
+      answered: ['e621'],
+      failed: [
+        { provider: 'danbooru', error: 'Request failed with status code 503' },
+        { provider: 'gelbooru', error: 'Rate limit exceeded' },
+        { provider: 'unknown', error: 'Unsupported API provider: unknown' },
+      ],
+    })
+    expect(mockAddToDLQ).not.toHaveBeenCalled()
+  })
+
+  it('should time out slow providers individually', async () => {
+    jest.useFakeTimers()
+    config.GELBOORU_FEDERATED_TIMEOUT_MS = '50'
+    providers.danbooru.searchPosts.mockResolvedValue({
+      type: 'success',
+      jobId: 'job-3',
+      posts: [post(1, 'aaa')],
+    })
+    providers.gelbooru.searchPosts.mockReturnValue(new Promise(() => {}))
+
+    const pending = service.search('job-3', '*', 'cat')
+    await jest.advanceTimersByTimeAsync(50)
+    const response = await pending
+    jest.useRealTimers()
+
+    expect(response.providers).toEqual({
+      answered: ['danbooru'],
+      failed: [{ provider: 'gelbooru', error: 'Timed out after 50ms' }],
+    })
+  })
+
+  it('should publish an error and add to DLQ when no provider answered', async () => {
+    providers.danbooru.searchPosts.mockRejectedValue(new Error('boom'))
+    providers.gelbooru.searchPosts.mockRejectedValue(new Error('down'))
+
+    const response = await service.search('job-4', '*', 'cat')
+
+    expect(response).toMatchObject({
+      type: 'error',
+      error: 'No provider answered: danbooru (boom), gelbooru (down)',
+    })
+    expect(mockAddToDLQ).toHaveBeenCalledWith(
+      mockRedis,
+      'federated',
+      'job-4',
+      'No provider answered: danbooru (boom), gelbooru (down)',
+      'cat',
+      0,
+    )
+    expect(mockRedis.xadd).toHaveBeenCalledTimes(1)
+  })
+})
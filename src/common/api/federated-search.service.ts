@@ -0,0 +1,242 @@
+import { Inject, Injectable, Logger } from '@nestjs/common'
+import { ConfigService } from '@nestjs/config'
+import Redis from 'ioredis'
+import {
+  BooruPostResponse,
+  BooruRequestOptions,
+  BooruSuccessResponse,
+  FederatedProvidersSummary,
+  FederatedResponse,
+  ResponseTarget,
+} from './base-api.interface'
+import { ProviderRegistryService } from './provider-registry.service'
+import { addToDLQ } from '../queues/utils/dlq.util'
+import { recordJobResponse } from '../queues/utils/job-status.util'
+import { addResponse } from '../queues/utils/response-stream.util'
+import { projectResponse } from './utils/post-projection.util'
+import {
+  FEDERATED_API_PREFIX,
+  FEDERATED_PROVIDER_TIMEOUT_MS,
+  FEDERATED_WILDCARD,
+  getStreamName,
+} from '../constants'
+
+/**
+ * Fans one query out to several providers and publishes a single combined response.
+ * Each provider runs its own rate limit + cache path (BaseBooruService.searchPosts)
+ * under a per-provider timeout; a slow or failing provider is reported, not fatal.
+ * Combined responses go to `federated:responses`.
+ */
+@Injectable()
+export class FederatedSearchService {
+  private readonly logger = new Logger(FederatedSearchService.name)
+
+  constructor(
+    @Inject('REDIS_CLIENT') private readonly redis: Redis,
+    private configService: ConfigService,
+    private readonly providerRegistry: ProviderRegistryService,
+  ) {}
+
+  /**
+   * Provider names targeted by a federated apiPrefix
+   * @param apiPrefix - Comma-separated provider list, or '*' for every enabled provider
+   * @returns Lowercase, de-duplicated provider names in request order
+   */
+  resolveProviderNames(apiPrefix: string): string[] {
+    if (apiPrefix.trim() === FEDERATED_WILDCARD) {
+      return this.providerRegistry
+        .getEnabledProviders()
+        .map(provider => provider.getName())
+    }
+    return [
+      ...new Set(
+        apiPrefix
+          .split(',')
+          .map(name => name.trim().toLowerCase())
+          .filter(Boolean),
+      ),
+    ]
+  }
+
+  /**
+   * Runs the federated search and publishes the combined response.
+   * Cursors are provider-specific post ids, so only `page` is forwarded.
+   * @param jobId - Job ID
+   * @param apiPrefix - Federated apiPrefix from the job
+   * @param query - Query string
+   * @param clientId - Optional client identifier for per-provider rate limits
+   * @param options - Per-request overrides (limit, page, fields, variant)
+   * @returns Combined success response, or an error if no provider answered
+   */
+  async search(
+    jobId: string,
+    apiPrefix: string,
+    query: string,
+    clientId?: string,
+    options: BooruRequestOptions = {},
+  ): Promise<FederatedResponse> {
+    const names = this.resolveProviderNames(apiPrefix)
+    const providerOptions: BooruRequestOptions = {
+      limit: options.limit,
+      page: options.page,
+    }
+    if (options.cursor) {
+      this.logger.warn(
+        `Ignoring cursor for federated job ${jobId}, use page instead`,
+      )
+    }
+
+    const results = await Promise.allSettled(
+      names.map(name =>
+        this.searchProvider(name, jobId, query, clientId, providerOptions),
+      ),
+    )
+
+    const providers: FederatedProvidersSummary = { answered: [], failed: [] }
+    const postsByProvider: BooruPostResponse[][] = []
+    results.forEach((result, index) => {
+      const name = names[index]
+      if (result.status === 'fulfilled') {
+        providers.answered.push(name)
+        postsByProvider.push(
+          result.value.posts.map(post => ({ ...post, provider: name })),
+        )
+      } else {
+        providers.failed.push({
+          provider: name,
+          error:
+            result.reason instanceof Error
+              ? result.reason.message
+              : String(result.reason),
+        })
+      }
+    })
+
+    this.logger.log(
+      `Federated job ${jobId}: answered [${providers.answered.join(', ')}], failed [${providers.failed.map(failure => failure.provider).join(', ')}]`,
+    )
+
+    let response: FederatedResponse
+    if (providers.answered.length === 0) {
+      const error = `No provider answered: ${providers.failed.map(failure => `${failure.provider} (${failure.error})`).join(', ')}`
+      response = { type: 'error', jobId, error, providers }
+      await addToDLQ(this.redis, FEDERATED_API_PREFIX, jobId, error, query, 0)
+    } else {
+      // Projection runs after the merge, which needs md5
+      response = projectResponse(
+        {
+          type: 'success',
+          jobId,
+          posts: this.mergePosts(postsByProvider),
+          nextCursor: null,
+          prevCursor: null,
+          providers,
+        },
+        options,
+      )
+    }
+
+    await this.publishResponse(jobId, response, options)
+    return response
+  }
+
+  /**
+   * Searches one provider, bounded by its federated timeout
+   * @throws Error if the provider is unknown/disabled, rate limited, failed or timed out
+   */
+  private async searchProvider(
+    name: string,
+    jobId: string,
+    query: string,
+    clientId: string | undefined,
+    options: BooruRequestOptions,
+  ): Promise<BooruSuccessResponse> {
+    const provider = this.providerRegistry.getEnabledProvider(name)
+    const timeoutMs = this.getProviderTimeout(name)
+
+    let timer: NodeJS.Timeout | undefined
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(
+        () => reject(new Error(`Timed out after ${timeoutMs}ms`)),
+        timeoutMs,
+      )
+    })
+
+    try {
+      const response = await Promise.race([
+        provider.searchPosts(jobId, query, clientId, options),
+        timeout,
+      ])
+      if (response.type === 'error') {
+        throw new Error(response.error)
+      }
+      return response
+    } finally {
+      clearTimeout(timer)
+    }
+  }
+
+  // {PREFIX}_FEDERATED_TIMEOUT_MS, then FEDERATED_TIMEOUT_MS, then the default
+  private getProviderTimeout(name: string): number {
+    return (
+      Number(
+        this.configService.get<number>(
+          `${name.toUpperCase()}_FEDERATED_TIMEOUT_MS`,
+        ),
+      ) ||
+      Number(this.configService.get<number>('FEDERATED_TIMEOUT_MS')) ||
+      FEDERATED_PROVIDER_TIMEOUT_MS
+    )
+  }
+
+  /**
+   * Interleaves provider results (first post of each provider, then the second, ...)
+   * and drops posts whose md5 was already seen. Posts without md5 are always kept.
+   */
+  private mergePosts(
+    postsByProvider: BooruPostResponse[][],
+  ): BooruPostResponse[] {
+    const merged: BooruPostResponse[] = []
+    const seenMd5 = new Set<string>()
+    const longest = Math.max(0, ...postsByProvider.map(posts => posts.length))
+
+    for (let index = 0; index < longest; index++) {
+      for (const posts of postsByProvider) {
+        const post = posts[index]
+        if (!post) {
+          continue
+        }
+        const md5 = post.md5?.toLowerCase()
+        if (md5) {
+          if (seenMd5.has(md5)) {
+            continue
+          }
+          seenMd5.add(md5)
+        }
+        merged.push(post)
+      }
+    }
+
+    return merged
+  }
+
+  private async publishResponse(
+    jobId: string,
+    data: FederatedResponse,
+    target: ResponseTarget = {},
+  ) {
+    const responseKey =
+      target.responseStream ?? getStreamName(FEDERATED_API_PREFIX, 'responses')
+    await addResponse(
+      this.redis,
+      this.configService,
+      responseKey,
+      jobId,
+      data,
+      target.callbackUrl,
+    )
+    await recordJobResponse(this.redis, FEDERATED_API_PREFIX, jobId, data)
+
+    this.logger.log(`Published response for job ${jobId} to ${responseKey}`)
+  }
+}
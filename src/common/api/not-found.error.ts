@@ -0,0 +1,11 @@
+/**
+ * Thrown by orchestrators when the requested posts or record (post, pool,
+ * artist, wiki page) do not exist upstream.
+ * BaseBooruService answers it with an error response of code `not_found`.
+ */
+export class NotFoundError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = NotFoundError.name
+  }
+}
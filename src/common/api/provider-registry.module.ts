@@ -0,0 +1,12 @@
+import { Global, Module } from '@nestjs/common'
+import { ConfigModule } from '@nestjs/config'
+import { ProviderRegistryService } from './provider-registry.service'
+import { FederatedSearchService } from './federated-search.service'
+
+@Global()
+@Module({
+  imports: [ConfigModule],
+  providers: [ProviderRegistryService, FederatedSearchService],
+  exports: [ProviderRegistryService, FederatedSearchService],
+})
+export class ProviderRegistryModule {}
@@ -0,0 +1,80 @@
+import { ConfigService } from '@nestjs/config'
+import { ProviderRegistryService } from './provider-registry.service'
+import type { BaseBooruService } from './base-booru.service'
+
+describe('ProviderRegistryService', () => {
+  const createRegistry = (
+    enabledProviders?: string,
+    config: Record<string, string> = {},
+  ) =>
+    new ProviderRegistryService({
+      get: jest.fn((key: string) =>
+        key === 'ENABLED_PROVIDERS' ? enabledProviders : config[key],
+      ),
+    } as unknown as ConfigService)
+
+  const createProvider = (name: string) =>
+    ({
+      getName: () => name,
+      getStreamNames: () => [`${name}:requests`, `${name}:responses`],
+    }) as unknown as BaseBooruService
+
+  it('should enable only danbooru by default', () => {
+    const registry = createRegistry()
+
+    expect(registry.getEnabledNames()).toEqual(['danbooru'])
+  })
+
+  it('should parse ENABLED_PROVIDERS into trimmed, lowercase, unique names', () => {
+    const registry = createRegistry(' Danbooru, gelbooru,,danbooru ')
+
+    expect(registry.getEnabledNames()).toEqual(['danbooru', 'gelbooru'])
+    expect(registry.isEnabled('GELBOORU')).toBe(true)
+    expect(registry.isEnabled('e621')).toBe(false)
+  })
+
+  it('should resolve registered and enabled providers', () => {
+    const registry = createRegistry('danbooru,gelbooru')
+    const danbooru = createProvider('danbooru')
+    const gelbooru = createProvider('gelbooru')
+    registry.register(gelbooru)
+    registry.register(danbooru)
+    registry.register(createProvider('e621'))
+
+    expect(registry.getEnabledProvider('danbooru')).toBe(danbooru)
+    expect(registry.getEnabledProviders()).toEqual([danbooru, gelbooru])
+  })
+
+  it('should throw for unknown providers', () => {
+    const registry = createRegistry('danbooru')
+
+    expect(() => registry.getEnabledProvider('unknown')).toThrow(
+      'Unsupported API provider: unknown',
+    )
+  })
+
+  it('should throw for registered providers missing from ENABLED_PROVIDERS', () => {
+    const registry = createRegistry('danbooru')
+    registry.register(createProvider('gelbooru'))
+
+    expect(registry.get('gelbooru')).toBeDefined()
+    expect(() => registry.getEnabledProvider('gelbooru')).toThrow(
+      'API provider disabled: gelbooru',
+    )
+  })
+
+  it('should build the failover chain from enabled, registered providers', () => {
+    const registry = createRegistry('danbooru,gelbooru,konachan', {
+      DANBOORU_FAILOVER: 'safebooru, gelbooru,danbooru,e621,konachan',
+    })
+    const gelbooru = createProvider('gelbooru')
+    const konachan = createProvider('konachan')
+    registry.register(createProvider('danbooru'))
+    registry.register(gelbooru)
+    registry.register(konachan)
+    registry.register(createProvider('e621'))
+
+    expect(registry.getFailoverChain('danbooru')).toEqual([gelbooru, konachan])
+    expect(registry.getFailoverChain('gelbooru')).toEqual([])
+  })
+})
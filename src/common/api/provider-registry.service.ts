@@ -0,0 +1,121 @@
+import { Injectable, Logger } from '@nestjs/common'
+import { ConfigService } from '@nestjs/config'
+import type { BaseBooruService } from './base-booru.service'
+import { DEFAULT_ENABLED_PROVIDERS } from '../constants'
+
+/**
+ * Registry of booru providers, keyed by apiPrefix.
+ * Provider modules register their orchestrators on startup; ENABLED_PROVIDERS
+ * (comma-separated, e.g. `danbooru,gelbooru`) decides which of them are served.
+ * Consumers, the DLQ loop, cache invalidation and rate limiting enumerate providers from here.
+ */
+@Injectable()
+export class ProviderRegistryService {
+  private readonly logger = new Logger(ProviderRegistryService.name)
+  private readonly providers = new Map<string, BaseBooruService>()
+  private readonly enabledNames: string[]
+
+  constructor(private configService: ConfigService) {
+    const configured =
+      this.configService.get<string>('ENABLED_PROVIDERS') ||
+      DEFAULT_ENABLED_PROVIDERS
+    this.enabledNames = [
+      ...new Set(
+        configured
+          .split(',')
+          .map(name => name.trim().toLowerCase())
+          .filter(Boolean),
+      ),
+    ]
+  }
+
+  /**
+   * Registers a provider under its name; re-registering replaces the previous one
+   * @param provider - Provider orchestrator
+   */
+  register(provider: BaseBooruService): void {
+    const name = provider.getName().toLowerCase()
+    if (this.providers.has(name)) {
+      this.logger.warn(`Provider ${name} registered twice, replacing`)
+    }
+    this.providers.set(name, provider)
+    this.logger.log(
+      `Registered provider ${name} (${this.isEnabled(name) ? 'enabled' : 'disabled'}, streams: ${provider.getStreamNames().join(', ')})`,
+    )
+  }
+
+  /**
+   * Looks up a registered provider, enabled or not
+   * @param name - Provider apiPrefix
+   */
+  get(name: string): BaseBooruService | undefined {
+    return this.providers.get(name.toLowerCase())
+  }
+
+  /**
+   * Resolves the provider that should serve a job
+   * @param name - Provider apiPrefix from the job data
+   * @returns Registered and enabled provider
+   * @throws Error if the provider is unknown or disabled via ENABLED_PROVIDERS
+   */
+  getEnabledProvider(name: string): BaseBooruService {
+    const provider = this.get(name)
+    if (!provider) {
+      throw new Error(`Unsupported API provider: ${name}`)
+    }
+    if (!this.isEnabled(name)) {
+      throw new Error(`API provider disabled: ${name}`)
+    }
+    return provider
+  }
+
+  isEnabled(name: string): boolean {
+    return this.enabledNames.includes(name.toLowerCase())
+  }
+
+  /**
+   * Provider names enabled in config, in ENABLED_PROVIDERS order.
+   * Available before provider modules finish registering.
+   */
+  getEnabledNames(): string[] {
+    return [...this.enabledNames]
+  }
+
+  /**
+   * Fallback providers for `name`, in order, from {PREFIX}_FAILOVER
+   * (e.g. DANBOORU_FAILOVER=gelbooru,konachan). Unknown, disabled and self entries are skipped.
+   * @param name - apiPrefix of the failing provider
+   */
+  getFailoverChain(name: string): BaseBooruService[] {
+    const configured =
+      this.configService.get<string>(`${name.toUpperCase()}_FAILOVER`) || ''
+    const fallbackNames = new Set(
+      configured
+        .split(',')
+        .map(entry => entry.trim().toLowerCase())
+        .filter(entry => entry && entry !== name.toLowerCase()),
+    )
+
+    const chain: BaseBooruService[] = []
+    for (const fallbackName of fallbackNames) {
+      const provider = this.get(fallbackName)
+      if (!provider || !this.isEnabled(fallbackName)) {
+        this.logger.warn(
+          `Skipping failover ${name} -> ${fallbackName}: provider not registered or disabled`,
+        )
+        continue
+      }
+      chain.push(provider)
+    }
+    return chain
+  }
+
+  /**
+   * Registered providers that are enabled in config
+   */
+  getEnabledProviders(): BaseBooruService[] {
+    return this.enabledNames
+      .map(name => this.providers.get(name))
+      .filter((provider): provider is BaseBooruService => !!provider)
+  }
+}
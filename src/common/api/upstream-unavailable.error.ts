@@ -0,0 +1,15 @@
+/**
+ * Thrown by BaseApiService.fetchPosts when the upstream is down or rate limiting us
+ * (5xx, 429, timeout or no response) after axios-retry gave up.
+ * Unlike an empty result, this makes BaseBooruService try its failover chain.
+ */
+export class UpstreamUnavailableError extends Error {
+  constructor(
+    readonly apiName: string,
+    message: string,
+    readonly status?: number,
+  ) {
+    super(`${apiName} unavailable: ${message}`)
+    this.name = UpstreamUnavailableError.name
+  }
+}
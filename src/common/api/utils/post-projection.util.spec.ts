@@ -0,0 +1,64 @@
+import { projectPost, projectResponse } from './post-projection.util'
+import type { BooruPostResponse } from '../base-api.interface'
+
+describe('post-projection.util', () => {
+  const post: BooruPostResponse & { similarity: number } = {
+    id: 1,
+    imageUrl: 'https://example.com/original.png',
+    author: 'artist',
+    tags: 'cat_ears',
+    rating: 'g',
+    source: null,
+    copyright: 'original',
+    md5: 'd34e4cf0a437a5d65f8e82b7bcd02606',
+    largeImageUrl: 'https://example.com/large.jpg',
+    sampleImageUrl: null,
+    previewImageUrl: 'https://example.com/preview.jpg',
+    fileSize: 12582912,
+    similarity: 91,
+  }
+
+  it('should serve the preferred variant, falling back to larger ones', () => {
+    expect(projectPost(post, { variant: 'preview' })).toMatchObject({
+      imageUrl: 'https://example.com/preview.jpg',
+      imageVariant: 'preview',
+    })
+    expect(projectPost(post, { variant: 'sample' })).toMatchObject({
+      imageUrl: 'https://example.com/large.jpg',
+      imageVariant: 'large',
+    })
+    expect(
+      projectPost({ ...post, largeImageUrl: null }, { variant: 'large' }),
+    ).toMatchObject({
+      imageUrl: 'https://example.com/original.png',
+      imageVariant: 'original',
+    })
+  })
+
+  it('should keep only the requested fields, id and non-post keys', () => {
+    expect(
+      projectPost(post, { fields: ['imageUrl', 'tags'], variant: 'large' }),
+    ).toEqual({
+      id: 1,
+      imageUrl: 'https://example.com/large.jpg',
+      imageVariant: 'large',
+      tags: 'cat_ears',
+      similarity: 91,
+    })
+  })
+
+  it('should project posts arrays and leave other responses untouched', () => {
+    const response = { type: 'success', jobId: 'job', posts: [post] }
+    const autocomplete = { type: 'success', jobId: 'job', tags: [] }
+
+    expect(projectResponse(response, { fields: ['rating'] })).toEqual({
+      ...response,
+      posts: [{ id: 1, rating: 'g', similarity: 91 }],
+    })
+    expect(response.posts[0]).toBe(post)
+    expect(projectResponse(autocomplete, { fields: ['rating'] })).toBe(
+      autocomplete,
+    )
+    expect(projectResponse(response, {})).toBe(response)
+  })
+})
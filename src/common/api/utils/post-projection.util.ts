@@ -0,0 +1,95 @@
+import type {
+  BooruPostResponse,
+  BooruRequestOptions,
+} from '../base-api.interface'
+import { POST_RESPONSE_FIELDS } from '../../constants'
+import type { PostVariant } from '../../constants'
+
+// Where each variant is read from, first available wins (smaller variants fall back upwards)
+const VARIANT_FALLBACKS: Record<
+  PostVariant,
+  [PostVariant, keyof BooruPostResponse][]
+> = {
+  original: [['original', 'imageUrl']],
+  large: [
+    ['large', 'largeImageUrl'],
+    ['sample', 'sampleImageUrl'],
+    ['original', 'imageUrl'],
+  ],
+  sample: [
+    ['sample', 'sampleImageUrl'],
+    ['large', 'largeImageUrl'],
+    ['original', 'imageUrl'],
+  ],
+  preview: [
+    ['preview', 'previewImageUrl'],
+    ['sample', 'sampleImageUrl'],
+    ['large', 'largeImageUrl'],
+    ['original', 'imageUrl'],
+  ],
+}
+
+const PROJECTABLE_FIELDS: ReadonlySet<string> = new Set(POST_RESPONSE_FIELDS)
+
+/**
+ * Applies a request's `variant` and `fields` to one post.
+ * The variant's URL replaces imageUrl (reported as imageVariant); fields keeps only the
+ * listed post fields plus id. Keys outside POST_RESPONSE_FIELDS (provider, similarity, ...)
+ * are always kept.
+ * @param post - Full normalized post, as cached
+ * @param options - Request options carrying fields/variant
+ * @returns Projected copy of the post
+ */
+export function projectPost<T extends BooruPostResponse>(
+  post: T,
+  options: Pick<BooruRequestOptions, 'fields' | 'variant'>,
+): Partial<T> {
+  let projected: Partial<T> = { ...post }
+  if (options.variant) {
+    const [variant, key] = VARIANT_FALLBACKS[options.variant].find(
+      ([, candidate]) => !!post[candidate],
+    ) ?? ['original', 'imageUrl']
+    projected = {
+      ...projected,
+      imageUrl: post[key] as string,
+      imageVariant: variant,
+    }
+  }
+
+  if (options.fields?.length) {
+    const keep = new Set<string>(['id', ...options.fields])
+    if (keep.has('imageUrl')) {
+      keep.add('imageVariant')
+    }
+    projected = Object.fromEntries(
+      Object.entries(projected).filter(
+        ([key]) => keep.has(key) || !PROJECTABLE_FIELDS.has(key),
+      ),
+    ) as Partial<T>
+  }
+  return projected
+}
+
+/**
+ * Projects every post of a response that has a `posts` array; other responses
+ * (errors, autocomplete, pools without expand, ...) are returned unchanged.
+ * Applied when publishing, after caching, so the cache always holds full posts.
+ * @param response - Response as built or read from cache
+ * @param options - Request options carrying fields/variant
+ * @returns The response, with projected posts when fields or variant is set
+ */
+export function projectResponse<T extends object>(
+  response: T,
+  options: Pick<BooruRequestOptions, 'fields' | 'variant'>,
+): T {
+  const posts = (response as { posts?: unknown }).posts
+  if ((!options.fields?.length && !options.variant) || !Array.isArray(posts)) {
+    return response
+  }
+  return {
+    ...response,
+    posts: (posts as BooruPostResponse[]).map(post =>
+      projectPost(post, options),
+    ),
+  }
+}
@@ -0,0 +1,34 @@
+import { Logger } from '@nestjs/common'
+import { plainToClass } from 'class-transformer'
+import { validate, ValidationError } from 'class-validator'
+
+/**
+ * Validates sanitized upstream posts against their DTO class.
+ * Invalid posts are dropped individually (and logged), so one bad post does not
+ * fail the whole page.
+ * @param cls - Post DTO class, e.g. GelbooruPost
+ * @param records - Sanitized posts from BaseApiService.fetchPosts
+ * @param logger - Logger of the calling API service
+ * @param source - Name used in the log message, e.g. the apiPrefix
+ * @returns The valid posts as DTO instances, in order
+ */
+export async function validatePosts<T extends object>(
+  cls: new () => T,
+  records: unknown[],
+  logger: Logger,
+  source: string,
+): Promise<T[]> {
+  const posts: T[] = []
+  for (const record of records) {
+    const post = plainToClass(cls, record)
+    const errors: ValidationError[] = await validate(post)
+    if (errors.length > 0) {
+      logger.warn(
+        `Validation errors in ${source} response: ${JSON.stringify(errors)}`,
+      )
+      continue
+    }
+    posts.push(post)
+  }
+  return posts
+}
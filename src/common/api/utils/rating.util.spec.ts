@@ -0,0 +1,26 @@
+import { translateRatingTags } from './rating.util'
+
+describe('rating.util', () => {
+  describe('translateRatingTags', () => {
+    it('should fold Danbooru ratings into s/q/e by default', () => {
+      expect(
+        translateRatingTags('cat rating:g -rating:Explicit rating:q'),
+      ).toBe('cat rating:s -rating:e rating:q')
+      expect(translateRatingTags('rating:sensitive rating:safe')).toBe(
+        'rating:s rating:s',
+      )
+    })
+
+    it('should map ratings through the given aliases', () => {
+      expect(translateRatingTags('cat -rating:s', { s: 'sensitive' })).toBe(
+        'cat -rating:sensitive',
+      )
+    })
+
+    it('should leave unknown ratings and other tags untouched', () => {
+      expect(translateRatingTags('rating:xyz score:>10')).toBe(
+        'rating:xyz score:>10',
+      )
+    })
+  })
+})
@@ -0,0 +1,32 @@
+/**
+ * Danbooru rating spellings folded into s/q/e, for boorus (Moebooru, e621) that
+ * have no general/sensitive split: both are part of "safe".
+ */
+export const SQE_RATING_ALIASES: Readonly<Record<string, string>> = {
+  g: 's',
+  general: 's',
+  sensitive: 's',
+  safe: 's',
+  questionable: 'q',
+  explicit: 'e',
+}
+
+/**
+ * Rewrites Danbooru-style rating tags into a provider's ratings.
+ * "cat rating:general -rating:explicit" -> "cat rating:s -rating:e".
+ * @param query - Danbooru-style query string
+ * @param aliases - Rating spelling -> provider rating, unknown ratings are kept as is
+ * @returns Query with the provider's ratings
+ */
+export function translateRatingTags(
+  query: string,
+  aliases: Readonly<Record<string, string>> = SQE_RATING_ALIASES,
+): string {
+  return query.replace(
+    /(^|\s)(-?rating:)([a-z]+)(?=\s|$)/gi,
+    (match: string, lead: string, prefix: string, value: string) => {
+      const rating = aliases[value.toLowerCase()]
+      return rating ? `${lead}${prefix.toLowerCase()}${rating}` : match
+    },
+  )
+}
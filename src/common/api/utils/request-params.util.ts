@@ -0,0 +1,53 @@
+import * as crypto from 'crypto'
+import { ConfigService } from '@nestjs/config'
+import { DEFAULT_MAX_POSTS_LIMIT } from '../../constants'
+import { canonicalizeQuery } from '../../query/utils/query-canonicalizer.util'
+
+export interface RequestPaging {
+  limit: number
+  page?: string // Page number or cursor
+}
+
+/**
+ * Effective limit and page of a request, as sent upstream.
+ * Limit falls back to {PREFIX}_LIMIT and is capped by {PREFIX}_MAX_LIMIT; a cursor
+ * takes precedence over a page number. Raw stream fields ('05') and validated DTO
+ * values (5) resolve alike.
+ * @param apiPrefix - Provider name, selects the {PREFIX}_LIMIT settings
+ * @param options - Requested limit, page and cursor
+ */
+export function resolvePaging(
+  configService: ConfigService,
+  apiPrefix: string,
+  options: { limit?: number | string; page?: number | string; cursor?: string },
+): RequestPaging {
+  const configPrefix = apiPrefix.toUpperCase()
+  const defaultLimit = configService.get<number>(`${configPrefix}_LIMIT`) || 1
+  const maxLimit =
+    Number(configService.get<number>(`${configPrefix}_MAX_LIMIT`)) ||
+    DEFAULT_MAX_POSTS_LIMIT
+  const requestedLimit = Number(options.limit ?? defaultLimit) || 1
+
+  return {
+    limit: Math.min(Math.max(requestedLimit, 1), maxLimit),
+    page:
+      options.cursor ??
+      (options.page ? String(Number(options.page) || options.page) : undefined),
+  }
+}
+
+/**
+ * Identity of a query lock: SHA-256 of the apiPrefix, canonical query and effective
+ * paging. Equivalent spellings share one lock, other pages and limits do not.
+ * Used by the stream consumer and BaseBooruService so both lock the same requests.
+ */
+export function hashQueryLock(
+  apiPrefix: string,
+  query: string,
+  { limit, page }: RequestPaging,
+): string {
+  return crypto
+    .createHash('sha256')
+    .update(`${apiPrefix}:${canonicalizeQuery(query)}:${limit}:${page ?? ''}`)
+    .digest('hex')
+}
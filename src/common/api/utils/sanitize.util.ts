@@ -0,0 +1,59 @@
+import xss, { escapeHtml } from 'xss'
+
+/**
+ * Strips all markup from an upstream string field.
+ * Empty whitelist strips all tags, escapeHtml prevents attribute injection.
+ * @param str - Raw string value from a booru API response
+ * @returns Sanitized string ('' for empty input)
+ */
+export function sanitizeStringField(str: string): string {
+  if (!str) return ''
+
+  return xss(str, {
+    whiteList: {}, // No allowed tags - complete stripping
+    escapeHtml, // Escape HTML entities
+    stripIgnoreTag: true,
+    stripIgnoreTagBody: [
+      'script',
+      'style',
+      'iframe',
+      'object',
+      'embed',
+      'svg',
+      'img',
+    ],
+  })
+}
+
+/**
+ * Sanitizes the listed string fields of a post in place.
+ * Dotted paths (e.g. 'file.url', 'tags.general') reach into nested objects,
+ * which are copied before being modified; string arrays are sanitized element-wise.
+ * @param post - Post record (already shallow-copied by the caller)
+ * @param fields - Provider-specific list of fields to sanitize
+ * @returns The same post record
+ */
+export function sanitizeStringFields(
+  post: Record<string, unknown>,
+  fields: readonly string[],
+): Record<string, unknown> {
+  for (const field of fields) {
+    const [key, ...rest] = field.split('.')
+    const value = post[key]
+    if (rest.length > 0) {
+      if (value && typeof value === 'object' && !Array.isArray(value)) {
+        post[key] = sanitizeStringFields(
+          { ...(value as Record<string, unknown>) },
+          [rest.join('.')],
+        )
+      }
+    } else if (value && typeof value === 'string') {
+      post[key] = sanitizeStringField(value)
+    } else if (Array.isArray(value)) {
+      post[key] = value.map((item: unknown) =>
+        typeof item === 'string' ? sanitizeStringField(item) : item,
+      )
+    }
+  }
+  return post
+}
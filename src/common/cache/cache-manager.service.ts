@@ -1,11 +1,15 @@
 import { Injectable, Logger } from '@nestjs/common'
 import { CacheService, CacheableResponse } from './cache.service'
+import { ProviderRegistryService } from '../api/provider-registry.service'
 
 @Injectable()
 export class CacheManagerService {
   private readonly logger = new Logger(CacheManagerService.name)
 
-  constructor(private cacheService: CacheService) {}
+  constructor(
+    private cacheService: CacheService,
+    private readonly providerRegistry: ProviderRegistryService,
+  ) {}
 
   // Legacy Danbooru methods - exact original signatures for compatibility
   async getCachedOrFetch<T extends CacheableResponse>(
@@ -125,6 +129,18 @@ export class CacheManagerService {
     }
   }
 
+  // Multi-API support: bulk invalidation for every provider enabled via ENABLED_PROVIDERS
+  async invalidateEnabledProviders(): Promise<number> {
+    let deletedCount = 0
+    for (const apiPrefix of this.providerRegistry.getEnabledNames()) {
+      deletedCount += await this.cacheService.invalidateByPrefix(apiPrefix)
+    }
+    this.logger.log(
+      `Bulk invalidated ${deletedCount} cache entries for enabled providers`,
+    )
+    return deletedCount
+  }
+
   // Multi-API support: get cache stats (for monitoring)
   getCacheStats(): { hits: number; misses: number; size: number } {
     // Implementation for cache metrics - can use Redis INFO or custom counters
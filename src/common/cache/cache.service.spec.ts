@@ -142,6 +142,23 @@ describe('CacheService', () => {
       expect(mockGet).toHaveBeenCalledWith(keyWithLimit)
     })
 
+    it('should include page cursor in key', async () => {
+      const keyWithPage = `${defaultCacheKey}:limit:20:page:b1234`
+
+      mockGet.mockResolvedValueOnce(mockData)
+
+      await service.getCachedResponse<CacheableResponse>(
+        defaultApiPrefix,
+        defaultQuery,
+        false,
+        20,
+        undefined,
+        'b1234',
+      )
+
+      expect(mockGet).toHaveBeenCalledWith(keyWithPage)
+    })
+
     it('should include tags hash in key', async () => {
       const tags = ['cat', 'dog']
       const sortedTags = tags.sort().join(',')
@@ -163,10 +180,11 @@ describe('CacheService', () => {
 
     it('should include random seed in key', async () => {
       const query = 'random query'
+      const canonicalQuery = 'query random'
       const limit = 10
       const tags = ['tag1']
       const seedParts = [
-        query.trim(),
+        canonicalQuery,
         limit?.toString() || 'default',
         tags.sort().join(',') || 'no-tags',
       ]
@@ -176,14 +194,9 @@ describe('CacheService', () => {
         .update(seedString)
         .digest('hex')
         .slice(0, 16)
-      const normalizedQuery = query
-        .trim()
-        .toLowerCase()
-        .replace(/\s+/g, ' ')
-        .trim()
       const queryHash = crypto
         .createHash('md5')
-        .update(normalizedQuery)
+        .update(canonicalQuery)
         .digest('hex')
       const baseKey = `cache:${defaultApiPrefix}:posts:${queryHash}`
       const tagHash = crypto.createHash('md5').update('tag1').digest('hex')
@@ -221,6 +234,24 @@ describe('CacheService', () => {
 
       expect(mockGet).toHaveBeenCalledWith(expectedKey)
     })
+
+    it('should share one key between equivalent queries', async () => {
+      mockGet.mockResolvedValue(mockData)
+
+      await service.getCachedResponse<CacheableResponse>(
+        defaultApiPrefix,
+        'cat_ears 1girl rating:safe',
+        false,
+      )
+      await service.getCachedResponse<CacheableResponse>(
+        defaultApiPrefix,
+        '1girl rating:s Cat_Ears cat_ears',
+        false,
+      )
+
+      const [[firstKey], [secondKey]] = mockGet.mock.calls as [string][]
+      expect(firstKey).toBe(secondKey)
+    })
   })
 
   describe('setCache', () => {
@@ -515,6 +546,17 @@ describe('CacheService', () => {
       expect(fetchFn).not.toHaveBeenCalled()
     })
 
+    it('should return cached falsy values without refetching', async () => {
+      const fetchFn = jest.fn()
+      mockGet.mockResolvedValueOnce(0)
+
+      const result = await service.getOrFetch('test:count', fetchFn)
+
+      expect(result).toBe(0)
+      expect(fetchFn).not.toHaveBeenCalled()
+      expect(mockSetex).not.toHaveBeenCalled()
+    })
+
     it('should fetch and cache on miss', async () => {
       const fetchFn = jest.fn()
       const key = 'test:miss'
@@ -6,9 +6,11 @@ import {
   POSTS_RESOURCE,
   TAG_SUFFIX,
   LIMIT_SUFFIX,
+  PAGE_SUFFIX,
   RANDOM_SEED_SUFFIX,
 } from '../constants'
 import type { ICacheBackend } from './interfaces/icache-backend.interface'
+import { canonicalizeQuery } from '../query/utils/query-canonicalizer.util'
 
 export interface CacheableResponse {
   [key: string]: unknown
@@ -32,8 +34,9 @@ export class CacheService {
     random: boolean,
     limit?: number,
     tags?: string[],
+    page?: string,
   ): Promise<T | null> {
-    const key = this.getCacheKey(apiPrefix, query, random, limit, tags)
+    const key = this.getCacheKey(apiPrefix, query, random, limit, tags, page)
     const cached = await this.get(key)
     if (cached) {
       try {
@@ -60,8 +63,9 @@ export class CacheService {
     limit?: number,
     tags?: string[],
     customTtl?: number,
+    page?: string,
   ): Promise<void> {
-    const key = this.getCacheKey(apiPrefix, query, random, limit, tags)
+    const key = this.getCacheKey(apiPrefix, query, random, limit, tags, page)
     const expiresIn = customTtl || this.ttl
     await this.setex(key, expiresIn, JSON.stringify(response))
     this.logger.debug(
@@ -75,8 +79,9 @@ export class CacheService {
     random: boolean,
     limit?: number,
     tags?: string[],
+    page?: string,
   ): Promise<void> {
-    const key = this.getCacheKey(apiPrefix, query, random, limit, tags)
+    const key = this.getCacheKey(apiPrefix, query, random, limit, tags, page)
     await this.del(key)
     this.logger.debug(
       `Deleted cache for ${apiPrefix} query: ${query} (random: ${random})`,
@@ -91,6 +96,7 @@ export class CacheService {
     limit?: number,
     tags?: string[],
     customTtl?: number,
+    page?: string,
   ): Promise<T | null> {
     const cached = await this.getCachedResponse<T>(
       apiPrefix,
@@ -98,6 +104,7 @@ export class CacheService {
       random,
       limit,
       tags,
+      page,
     )
     if (cached) {
       return cached
@@ -113,26 +120,45 @@ export class CacheService {
         limit,
         tags,
         customTtl,
+        page,
       )
     }
     return freshData
   }
 
+  /**
+   * Cache key for resources other than post searches (autocomplete, tag aliases, ...),
+   * for use with getOrFetch
+   * @param apiPrefix - API name (e.g., 'danbooru')
+   * @param resource - Resource type (e.g., 'autocomplete')
+   * @param parts - Identifying parts, already normalized by the caller
+   * @returns Key in format `cache:{api}:{resource}:{...parts}`
+   */
+  getResourceKey(
+    apiPrefix: string,
+    resource: string,
+    ...parts: (string | number)[]
+  ): string {
+    return [CACHE_PREFIX, apiPrefix, resource, ...parts].join(':')
+  }
+
   private getCacheKey(
     apiPrefix: string,
     query: string,
     random: boolean,
     limit?: number,
     tags?: string[],
+    page?: string,
   ): string {
     /**
      * Unified cache key generation strategy:
-     * Format: cache:{api}:{resource}:{query-hash}:{limit}:{random-seed}:{tag-hash}
+     * Format: cache:{api}:{resource}:{query-hash}:{limit}:{page}:{random-seed}:{tag-hash}
      *
      * - api: API name (e.g., 'danbooru')
      * - resource: Resource type (e.g., 'posts')
-     * - query-hash: MD5 hash of normalized query string
+     * - query-hash: MD5 hash of the canonical query string
      * - limit: Query limit (deterministic, no hashing needed)
+     * - page: Page number or cursor (e.g. b1234), omitted for the first page
      * - random-seed: Deterministic seed from limit + tags for consistent random results
      * - tag-hash: MD5 hash of sorted tags for tag-specific invalidation
      *
@@ -143,12 +169,8 @@ export class CacheService {
      * 4. Backward compatibility with existing hash-based keys
      */
 
-    // Normalize query: trim, lowercase, normalize spaces
-    const normalizedQuery = query
-      .trim()
-      .toLowerCase()
-      .replace(/\s+/g, ' ')
-      .trim()
+    // Canonical query: sorted, de-duplicated terms with rating aliases resolved
+    const normalizedQuery = canonicalizeQuery(query)
 
     // Generate query hash
     const queryHash = crypto
@@ -164,6 +186,11 @@ export class CacheService {
       keyParts.push(`${LIMIT_SUFFIX}:${limit}`)
     }
 
+    // Add page/cursor so each page is cached separately
+    if (page) {
+      keyParts.push(`${PAGE_SUFFIX}:${page}`)
+    }
+
     // Generate deterministic random seed if random is true
     if (random) {
       const seed = this.generateRandomSeed(query, limit, tags)
@@ -190,7 +217,7 @@ export class CacheService {
      * Ensures same inputs produce same "random" results across cache layers
      */
     const seedParts = [
-      query.trim(),
+      canonicalizeQuery(query),
       limit?.toString() || 'default',
       (tags || []).sort().join(',') || 'no-tags',
     ]
@@ -236,7 +263,8 @@ export class CacheService {
   private async get(key: string): Promise<string | null> {
     try {
       const data = await this.backend.get(key)
-      return data ? JSON.stringify(data) : null
+      // 0, false and '' are cached values too (e.g. an empty query's post count)
+      return data !== null && data !== undefined ? JSON.stringify(data) : null
     } catch (error: unknown) {
       this.logger.debug(
         `Error validation - type: ${typeof error}, isError: ${error instanceof Error}`,
@@ -12,6 +12,163 @@ export const DLQ_STREAM = 'danbooru-dlq'
 export const DEAD_QUEUE_STREAM = 'danbooru-dead'
 export const MAX_DLQ_RETRIES = 5
 
+// Request/DLQ streams are read through consumer groups (XREADGROUP + XACK)
+export const REQUESTS_CONSUMER_GROUP = 'booru-proxy'
+export const DLQ_CONSUMER_GROUP = 'booru-proxy-dlq'
+export const STREAM_READ_COUNT = 5 // Messages per read, processed concurrently
+export const PENDING_IDLE_MS = 60000 // Unacked this long = held by a crashed worker, reclaimed
+export const PENDING_CLAIM_INTERVAL_MS = 30000 // How often XPENDING/XAUTOCLAIM run
+export const MAX_STREAM_DELIVERIES = 5 // Deliveries before a pending message goes to the DLQ
+
+// Response routing: shared {apiPrefix}:responses, per client when enabled, or an allowlisted replyTo stream
+export const RESPONSE_STREAM_MAXLEN = 1000 // Approximate (MAXLEN ~) cap per response stream
+
+// Webhook delivery to a callbackUrl allowlisted per client (CALLBACK_ALLOWLIST_{CLIENTID})
+export const CALLBACK_DLQ_PREFIX = 'callbacks' // Undeliverable callbacks go to callbacks-dlq
+export const CALLBACK_MAX_ATTEMPTS = 5
+export const CALLBACK_BACKOFF_MS = 1000 // Doubles per attempt, capped at MAX_BACKOFF_MS
+export const CALLBACK_TIMEOUT_MS = 10000
+export const CALLBACK_SIGNATURE_HEADER = 'X-Booru-Proxy-Signature' // sha256=<HMAC of the body>
+
+// HTTP gateway (/api/{apiPrefix}/...) in front of the stream protocol
+export const HTTP_PORT = 3000
+export const HTTP_SYNC_TIMEOUT_MS = 25000 // Sync requests still running then get 202 + jobId
+
+// Post list limits
+export const MAX_POSTS_LIMIT = 200 // Danbooru hard cap per page
+export const DEFAULT_MAX_POSTS_LIMIT = 20 // Fallback for DANBOORU_MAX_LIMIT
+
+// Providers processed when ENABLED_PROVIDERS is not set
+export const DEFAULT_ENABLED_PROVIDERS = 'danbooru'
+
+// Federated search: apiPrefix lists several providers (or '*' for all enabled)
+export const FEDERATED_API_PREFIX = 'federated' // Streams/locks/DLQ of combined jobs
+export const FEDERATED_WILDCARD = '*'
+export const FEDERATED_PROVIDER_TIMEOUT_MS = 15000 // Per provider, covers axios retries
+
+// Danbooru tag alias/implication lookups, cached per tag
+export const TAG_RELATIONS_CACHE_TTL_SECONDS = 86400 // Aliases change rarely
+export const TAG_ALIASES_RESOURCE = 'tag_aliases'
+export const TAG_IMPLICATIONS_RESOURCE = 'tag_implications'
+
+// Job types accepted on {apiPrefix}:requests (`type` field, default posts)
+export const POSTS_JOB_TYPE = 'posts'
+export const AUTOCOMPLETE_JOB_TYPE = 'autocomplete'
+export const POST_BY_ID_JOB_TYPE = 'post.byId'
+export const POST_BY_MD5_JOB_TYPE = 'post.byMd5'
+export const POOL_GET_JOB_TYPE = 'pool.get'
+export const POOL_SEARCH_JOB_TYPE = 'pool.search'
+export const ARTIST_GET_JOB_TYPE = 'artist.get'
+export const WIKI_GET_JOB_TYPE = 'wiki.get'
+export const EXPLORE_POPULAR_JOB_TYPE = 'explore.popular'
+export const EXPLORE_CURATED_JOB_TYPE = 'explore.curated'
+export const EXPLORE_VIEWED_JOB_TYPE = 'explore.viewed'
+export const TAGS_RELATED_JOB_TYPE = 'tags.related'
+export const TAGS_COUNT_JOB_TYPE = 'tags.count'
+export const IQDB_SEARCH_JOB_TYPE = 'iqdb.search'
+export const JOB_STATUS_JOB_TYPE = 'job.status' // query = jobId to look up, any apiPrefix
+export const JOB_TYPES = [
+  POSTS_JOB_TYPE,
+  AUTOCOMPLETE_JOB_TYPE,
+  POST_BY_ID_JOB_TYPE,
+  POST_BY_MD5_JOB_TYPE,
+  POOL_GET_JOB_TYPE,
+  POOL_SEARCH_JOB_TYPE,
+  ARTIST_GET_JOB_TYPE,
+  WIKI_GET_JOB_TYPE,
+  EXPLORE_POPULAR_JOB_TYPE,
+  EXPLORE_CURATED_JOB_TYPE,
+  EXPLORE_VIEWED_JOB_TYPE,
+  TAGS_RELATED_JOB_TYPE,
+  TAGS_COUNT_JOB_TYPE,
+  IQDB_SEARCH_JOB_TYPE,
+  JOB_STATUS_JOB_TYPE,
+] as const
+export type JobType = (typeof JOB_TYPES)[number]
+
+// Job lifecycle, stored per jobId in the job:{jobId} hash
+export const JOB_STATUS_PREFIX = 'job'
+export const JOB_STATUS_TTL_SECONDS = 86400 // Same window as job-level dedup
+export const JOB_STATES = [
+  'queued',
+  'processing',
+  'succeeded',
+  'failed',
+  'dead-lettered',
+] as const
+export type JobState = (typeof JOB_STATES)[number]
+
+// Post projection: fields a request may keep and image variants it may prefer
+export const POST_RESPONSE_FIELDS = [
+  'id',
+  'imageUrl',
+  'author',
+  'tags',
+  'rating',
+  'source',
+  'copyright',
+  'characters',
+  'md5',
+  'width',
+  'height',
+  'fileSize',
+  'fileExt',
+  'largeImageUrl',
+  'sampleImageUrl',
+  'previewImageUrl',
+  'score',
+  'favCount',
+  'createdAt',
+  'metaTags',
+] as const
+export type PostResponseField = (typeof POST_RESPONSE_FIELDS)[number]
+export const POST_VARIANTS = ['original', 'large', 'sample', 'preview'] as const
+export type PostVariant = (typeof POST_VARIANTS)[number]
+
+// Tag autocomplete, keyed by prefix + limit
+export const AUTOCOMPLETE_RESOURCE = 'autocomplete'
+export const AUTOCOMPLETE_CACHE_TTL_SECONDS = 300 // Short, post counts move
+export const DEFAULT_AUTOCOMPLETE_LIMIT = 10
+export const MAX_AUTOCOMPLETE_LIMIT = 25
+
+// Single post lookups (post.byId / post.byMd5), keyed by id or md5
+export const POST_RESOURCE = 'post'
+export const POST_CACHE_TTL_SECONDS = 604800 // 7 days, post content rarely changes
+
+// Pools (pool.get / pool.search), pages of pool posts or search results
+export const POOL_RESOURCE = 'pool'
+export const DEFAULT_POOL_PAGE_SIZE = 20
+export const MAX_POOL_PAGE_SIZE = 100 // Ids per `id:` lookup when expanding posts
+
+// Artist and wiki lookups (artist.get / wiki.get), keyed by normalized name
+export const ARTIST_RESOURCE = 'artist'
+export const WIKI_RESOURCE = 'wiki'
+export const ARTIST_WIKI_CACHE_TTL_SECONDS = 86400
+
+// Explore feeds (explore.popular / curated / viewed), keyed by feed + scale + date + page
+export const EXPLORE_RESOURCE = 'explore'
+export const EXPLORE_CACHE_TTL_SECONDS = 600 // Today's feed keeps moving
+export const EXPLORE_SCALES = ['day', 'week', 'month'] as const
+export const DEFAULT_EXPLORE_LIMIT = 20
+
+// Related tags and post counts (tags.related / tags.count), keyed by canonical query
+export const RELATED_TAGS_RESOURCE = 'related_tags'
+export const RELATED_TAGS_CACHE_TTL_SECONDS = 3600
+export const DEFAULT_RELATED_TAGS_LIMIT = 25
+export const MAX_RELATED_TAGS_LIMIT = 100
+export const POST_COUNT_RESOURCE = 'post_count'
+export const POST_COUNT_CACHE_TTL_SECONDS = 300 // Same as the search zero-result check
+
+// Reverse image search (iqdb.search), keyed by a hash of the image URL or payload
+export const IQDB_RESOURCE = 'iqdb'
+export const IQDB_CACHE_TTL_SECONDS = 86400
+export const IQDB_MAX_IMAGE_BYTES = 5 * 1024 * 1024 // Decoded size of imageData
+export const IQDB_MAX_IMAGE_BASE64_LENGTH =
+  Math.ceil(IQDB_MAX_IMAGE_BYTES / 3) * 4
+export const IQDB_MIN_SIMILARITY = 60 // Danbooru scores below this are rarely the same image
+export const DEFAULT_IQDB_LIMIT = 5
+export const MAX_IQDB_LIMIT = 20
+
 // Deduplication and locking constants
 export const QUERY_LOCK_TIMEOUT_SECONDS = 30 // Reduced from 300s to 30s for faster lock release
 export const DLQ_DEDUP_WINDOW_SECONDS = 3600 // 1 hour
@@ -19,10 +176,12 @@ export const DLQ_DEDUP_WINDOW_SECONDS = 3600 // 1 hour
 // Cache key prefixes and patterns
 export const CACHE_PREFIX = 'cache'
 export const DANBOORU_API_PREFIX = 'danbooru'
+export const GELBOORU_API_PREFIX = 'gelbooru'
 export const POSTS_RESOURCE = 'posts'
 export const RANDOM_SUFFIX = 'random'
 export const TAG_SUFFIX = 'tag'
 export const LIMIT_SUFFIX = 'limit'
+export const PAGE_SUFFIX = 'page'
 export const RANDOM_SEED_SUFFIX = 'seed'
 
 // Cache invalidation patterns
@@ -40,3 +199,15 @@ export const DANBOORU_ALL_PATTERN = `${CACHE_PREFIX}:${DANBOORU_API_PREFIX}:*`
 export function getStreamName(apiPrefix: string, type: string): string {
   return `${apiPrefix}:${type}`
 }
+
+/**
+ * Whether a job's apiPrefix asks for federated search
+ * @param apiPrefix - Job apiPrefix, e.g. 'danbooru,gelbooru' or '*'
+ * @returns True for '*' or a comma-separated provider list
+ */
+export function isFederatedApiPrefix(apiPrefix?: string): boolean {
+  if (!apiPrefix) {
+    return false
+  }
+  return apiPrefix.trim() === FEDERATED_WILDCARD || apiPrefix.includes(',')
+}
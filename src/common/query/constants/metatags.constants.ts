@@ -0,0 +1,73 @@
+/**
+ * How a metatag value is checked. Range types also accept comparisons
+ * (`>100`, `<=5`) and ranges (`10..20`, `..5`, `2024-01-01..`).
+ */
+export type MetatagValueType =
+  | 'integer'
+  | 'decimal'
+  | 'date'
+  | 'age'
+  | 'filesize'
+  | 'rating'
+  | 'text'
+
+export const RANGE_VALUE_TYPES: ReadonlySet<MetatagValueType> = new Set([
+  'integer',
+  'decimal',
+  'date',
+  'age',
+  'filesize',
+])
+
+// Danbooru metatags understood by the parser; other `name:value` tokens are plain tags
+export const METATAGS: Readonly<Record<string, MetatagValueType>> = {
+  id: 'integer',
+  score: 'integer',
+  favcount: 'integer',
+  width: 'integer',
+  height: 'integer',
+  tagcount: 'integer',
+  gentags: 'integer',
+  arttags: 'integer',
+  chartags: 'integer',
+  copytags: 'integer',
+  limit: 'integer',
+  mpixels: 'decimal',
+  date: 'date',
+  age: 'age',
+  filesize: 'filesize',
+  rating: 'rating',
+  order: 'text',
+  user: 'text',
+  approver: 'text',
+  fav: 'text',
+  ordfav: 'text',
+  pool: 'text',
+  ordpool: 'text',
+  favgroup: 'text',
+  status: 'text',
+  source: 'text',
+  md5: 'text',
+  parent: 'text',
+  child: 'text',
+  is: 'text',
+  has: 'text',
+  filetype: 'text',
+}
+
+// Danbooru rating spellings and their single-letter canonical form ("safe" is legacy for s)
+export const RATING_ALIASES: Readonly<Record<string, string>> = {
+  g: 'g',
+  s: 's',
+  q: 'q',
+  e: 'e',
+  general: 'g',
+  sensitive: 's',
+  safe: 's',
+  questionable: 'q',
+  explicit: 'e',
+}
+
+export const RATING_VALUES: ReadonlySet<string> = new Set(
+  Object.keys(RATING_ALIASES),
+)
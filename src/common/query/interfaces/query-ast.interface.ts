@@ -0,0 +1,40 @@
+/**
+ * How a term combines with the rest of the query:
+ * `tag` (and), `-tag` (not), `~tag` (or, any of the `~` terms must match).
+ */
+export type QueryOperator = 'and' | 'not' | 'or'
+
+export type RangeComparator = '>' | '>=' | '<' | '<='
+
+/**
+ * Value of a metatag, e.g. `score:>100` -> compare, `date:2024-01-01..2024-02-01` -> range.
+ * Open ranges (`..5`, `5..`) leave one bound out.
+ */
+export type MetatagValue =
+  | { kind: 'exact'; value: string }
+  | { kind: 'list'; values: string[] }
+  | { kind: 'compare'; comparator: RangeComparator; value: string }
+  | { kind: 'range'; min?: string; max?: string }
+
+export interface TagTerm {
+  type: 'tag'
+  operator: QueryOperator
+  name: string // Lowercase, without the operator prefix
+  wildcard: boolean // Contains `*`
+}
+
+export interface MetatagTerm {
+  type: 'metatag'
+  operator: QueryOperator
+  name: string // Known metatag, e.g. 'score', 'rating'
+  value: MetatagValue
+}
+
+export type QueryTerm = TagTerm | MetatagTerm
+
+/**
+ * Parsed Danbooru-style query: terms in the order they were written.
+ */
+export interface QueryAst {
+  terms: QueryTerm[]
+}
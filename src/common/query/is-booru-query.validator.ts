@@ -0,0 +1,50 @@
+import {
+  registerDecorator,
+  ValidationArguments,
+  ValidationOptions,
+  ValidatorConstraint,
+  ValidatorConstraintInterface,
+} from 'class-validator'
+import { parseQuery } from './utils/query-parser.util'
+import { QueryParseError } from './query-parse.error'
+
+@ValidatorConstraint({ name: 'isBooruQuery', async: false })
+export class IsBooruQueryConstraint implements ValidatorConstraintInterface {
+  validate(value: unknown): boolean {
+    return this.getParseError(value) === null
+  }
+
+  defaultMessage(args: ValidationArguments): string {
+    return `${args.property}: ${this.getParseError(args.value) ?? 'invalid query'}`
+  }
+
+  private getParseError(value: unknown): string | null {
+    if (typeof value !== 'string') {
+      return 'must be a string'
+    }
+    try {
+      parseQuery(value)
+      return null
+    } catch (error) {
+      if (error instanceof QueryParseError) {
+        return error.message
+      }
+      throw error
+    }
+  }
+}
+
+/**
+ * Validates a Danbooru-style query by parsing it into an AST (see parseQuery)
+ * @param validationOptions - class-validator options
+ */
+export function IsBooruQuery(validationOptions?: ValidationOptions) {
+  return (object: object, propertyName: string) => {
+    registerDecorator({
+      target: object.constructor,
+      propertyName,
+      options: validationOptions,
+      validator: IsBooruQueryConstraint,
+    })
+  }
+}
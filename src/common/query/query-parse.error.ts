@@ -0,0 +1,10 @@
+/**
+ * Thrown by parseQuery for queries that are not valid Danbooru syntax.
+ * The message is safe to return to clients (no query echo beyond the bad term).
+ */
+export class QueryParseError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = QueryParseError.name
+  }
+}
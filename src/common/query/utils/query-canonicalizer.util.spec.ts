@@ -0,0 +1,39 @@
+import { canonicalizeQuery } from './query-canonicalizer.util'
+
+describe('query-canonicalizer.util', () => {
+  it('should sort and de-duplicate tags regardless of order and case', () => {
+    expect(canonicalizeQuery('cat_ears 1girl')).toBe('1girl cat_ears')
+    expect(canonicalizeQuery('  1Girl CAT_EARS  cat_ears ')).toBe(
+      '1girl cat_ears',
+    )
+  })
+
+  it('should keep operators and order and/not/or for the same tag', () => {
+    expect(canonicalizeQuery('~fox -dog cat ~dog')).toBe('cat -dog ~dog ~fox')
+  })
+
+  it('should put metatags after tags in a fixed order', () => {
+    expect(
+      canonicalizeQuery('order:score rating:s cat score:>10 id:..500'),
+    ).toBe('cat id:..500 score:>10 rating:s order:score')
+  })
+
+  it('should resolve rating aliases and sort rating lists', () => {
+    expect(canonicalizeQuery('rating:safe cat')).toBe('cat rating:s')
+    expect(canonicalizeQuery('-rating:Explicit,questionable,e')).toBe(
+      '-rating:e,q',
+    )
+    expect(canonicalizeQuery('rating:general,g')).toBe('rating:g')
+  })
+
+  it('should write inclusive comparisons as ranges', () => {
+    expect(canonicalizeQuery('score:>=10')).toBe(
+      canonicalizeQuery('score:10..'),
+    )
+    expect(canonicalizeQuery('id:<=5 score:>5')).toBe('id:..5 score:>5')
+  })
+
+  it('should fall back to whitespace and case normalization for invalid queries', () => {
+    expect(canonicalizeQuery('not <valid>  QUERY')).toBe('not <valid> query')
+  })
+})
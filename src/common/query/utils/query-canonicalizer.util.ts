@@ -0,0 +1,98 @@
+import type {
+  MetatagTerm,
+  MetatagValue,
+  QueryAst,
+  QueryOperator,
+  QueryTerm,
+} from '../interfaces/query-ast.interface'
+import { METATAGS, RATING_ALIASES } from '../constants/metatags.constants'
+import { parseQuery, serializeQuery, serializeTerm } from './query-parser.util'
+
+const OPERATOR_ORDER: Record<QueryOperator, number> = { and: 0, not: 1, or: 2 }
+
+// Metatags are emitted in METATAGS declaration order
+const METATAG_ORDER = Object.keys(METATAGS)
+
+/**
+ * Rewrites a parsed query into its canonical form, so equivalent queries share
+ * cache entries, locks and DLQ hashes:
+ * - tags first, sorted by name (then and/not/or), duplicates dropped
+ * - metatags after tags in a fixed order, duplicates dropped
+ * - rating aliases resolved (`rating:safe` -> `rating:s`), list values sorted
+ * - `>=x` / `<=x` written as the ranges `x..` / `..x`
+ * @param ast - Parsed query
+ * @returns Canonical query AST
+ */
+export function canonicalizeAst(ast: QueryAst): QueryAst {
+  const unique = new Map<string, QueryTerm>()
+  for (const term of ast.terms) {
+    const canonical =
+      term.type === 'metatag' ? canonicalizeMetatag(term) : { ...term }
+    unique.set(serializeTerm(canonical), canonical)
+  }
+
+  return { terms: [...unique.values()].sort(compareTerms) }
+}
+
+/**
+ * Canonical query text for cache keys, lock keys and DLQ hashes.
+ * Falls back to whitespace/case normalization for queries that do not parse,
+ * so key building never throws.
+ * @param query - Raw query string
+ * @returns Canonical query, e.g. "1girl cat_ears rating:s" for "Cat_Ears rating:safe 1girl"
+ */
+export function canonicalizeQuery(query: string): string {
+  try {
+    return serializeQuery(canonicalizeAst(parseQuery(query)))
+  } catch {
+    return (query ?? '').trim().toLowerCase().replace(/\s+/g, ' ')
+  }
+}
+
+function canonicalizeMetatag(term: MetatagTerm): MetatagTerm {
+  return { ...term, value: canonicalizeValue(term.name, term.value) }
+}
+
+function canonicalizeValue(name: string, value: MetatagValue): MetatagValue {
+  const resolve = (raw: string) =>
+    name === 'rating' ? (RATING_ALIASES[raw] ?? raw) : raw
+
+  switch (value.kind) {
+    case 'exact':
+      return { kind: 'exact', value: resolve(value.value) }
+    case 'list': {
+      const values = [...new Set(value.values.map(resolve))].sort()
+      return values.length === 1
+        ? { kind: 'exact', value: values[0] }
+        : { kind: 'list', values }
+    }
+    case 'compare':
+      if (value.comparator === '>=') {
+        return { kind: 'range', min: value.value }
+      }
+      if (value.comparator === '<=') {
+        return { kind: 'range', max: value.value }
+      }
+      return { ...value }
+    case 'range':
+      return { ...value }
+  }
+}
+
+function compareTerms(a: QueryTerm, b: QueryTerm): number {
+  if (a.type !== b.type) {
+    return a.type === 'tag' ? -1 : 1
+  }
+  if (a.type === 'metatag' && b.type === 'metatag' && a.name !== b.name) {
+    return METATAG_ORDER.indexOf(a.name) - METATAG_ORDER.indexOf(b.name)
+  }
+  if (a.name !== b.name) {
+    return a.name < b.name ? -1 : 1
+  }
+  if (a.operator !== b.operator) {
+    return OPERATOR_ORDER[a.operator] - OPERATOR_ORDER[b.operator]
+  }
+  const serializedA = serializeTerm(a)
+  const serializedB = serializeTerm(b)
+  return serializedA < serializedB ? -1 : serializedA > serializedB ? 1 : 0
+}
@@ -0,0 +1,111 @@
+import 'reflect-metadata'
+import { plainToClass } from 'class-transformer'
+import { validate } from 'class-validator'
+import {
+  extractQueryTags,
+  parseQuery,
+  serializeQuery,
+} from './query-parser.util'
+import { QueryParseError } from '../query-parse.error'
+import { CreateRequestDto } from '../../../danbooru/dto/create-request.dto'
+
+describe('query-parser.util', () => {
+  describe('parseQuery', () => {
+    it('should parse negation, OR and wildcard tags', () => {
+      expect(parseQuery('Cat -dog ~fox ~wolf *_ears').terms).toEqual([
+        { type: 'tag', operator: 'and', name: 'cat', wildcard: false },
+        { type: 'tag', operator: 'not', name: 'dog', wildcard: false },
+        { type: 'tag', operator: 'or', name: 'fox', wildcard: false },
+        { type: 'tag', operator: 'or', name: 'wolf', wildcard: false },
+        { type: 'tag', operator: 'and', name: '*_ears', wildcard: true },
+      ])
+    })
+
+    it('should parse metatag comparisons, ranges and lists', () => {
+      expect(
+        parseQuery(
+          'score:>100 date:2024-01-01..2024-02-01 id:..500 rating:g,s -rating:e',
+        ).terms,
+      ).toEqual([
+        {
+          type: 'metatag',
+          operator: 'and',
+          name: 'score',
+          value: { kind: 'compare', comparator: '>', value: '100' },
+        },
+        {
+          type: 'metatag',
+          operator: 'and',
+          name: 'date',
+          value: { kind: 'range', min: '2024-01-01', max: '2024-02-01' },
+        },
+        {
+          type: 'metatag',
+          operator: 'and',
+          name: 'id',
+          value: { kind: 'range', max: '500' },
+        },
+        {
+          type: 'metatag',
+          operator: 'and',
+          name: 'rating',
+          value: { kind: 'list', values: ['g', 's'] },
+        },
+        {
+          type: 'metatag',
+          operator: 'not',
+          name: 'rating',
+          value: { kind: 'exact', value: 'e' },
+        },
+      ])
+    })
+
+    it('should keep unknown name:value tokens as plain tags', () => {
+      expect(parseQuery('re:zero').terms).toEqual([
+        { type: 'tag', operator: 'and', name: 're:zero', wildcard: false },
+      ])
+    })
+
+    it.each([
+      ['', 'Query is empty'],
+      ['cat -', 'Operator without a tag: "-"'],
+      ['-~cat', 'Only one of - or ~ is allowed: "-~cat"'],
+      ['*', 'Wildcard without a tag: "*"'],
+      ['<script>', 'Invalid characters in tag: "<script>"'],
+      ['score:>abc', 'Metatag score: invalid integer "abc"'],
+      ['score:1..2..3', 'Metatag score: invalid range "1..2..3"'],
+      ['date:2024-13-45', 'Metatag date: invalid date "2024-13-45"'],
+      ['rating:x', 'Metatag rating: invalid rating "x"'],
+      ['order:', 'Metatag order: needs a value'],
+    ])('should reject %p', (query, message) => {
+      expect(() => parseQuery(query)).toThrow(new QueryParseError(message))
+    })
+  })
+
+  it('should serialize the AST back to normalized query text', () => {
+    expect(
+      serializeQuery(parseQuery('  Cat   ~Fox score:>=10  date:2024-01-01.. ')),
+    ).toBe('cat ~fox score:>=10 date:2024-01-01..')
+  })
+
+  it('should extract plain tags for invalidation', () => {
+    expect(
+      extractQueryTags('dog cat -bird ~fox *_ears rating:s order:score'),
+    ).toEqual(['bird', 'cat', 'dog', 'fox'])
+    expect(extractQueryTags('-')).toEqual([])
+  })
+
+  it('should validate CreateRequestDto queries through the parser', async () => {
+    const dto = (query: string) =>
+      plainToClass(CreateRequestDto, {
+        jobId: '123e4567-e89b-12d3-a456-426614174000',
+        query,
+      })
+
+    await expect(validate(dto('cat ~fox score:>100'))).resolves.toHaveLength(0)
+    const errors = await validate(dto('cat score:>lots'))
+    expect(errors[0].constraints).toEqual({
+      isBooruQuery: 'query: Metatag score: invalid integer "lots"',
+    })
+  })
+})
@@ -0,0 +1,223 @@
+import type {
+  MetatagValue,
+  QueryAst,
+  QueryOperator,
+  QueryTerm,
+  RangeComparator,
+} from '../interfaces/query-ast.interface'
+import { QueryParseError } from '../query-parse.error'
+import {
+  METATAGS,
+  MetatagValueType,
+  RANGE_VALUE_TYPES,
+  RATING_VALUES,
+} from '../constants/metatags.constants'
+
+// Anything printable except whitespace and characters that have no place in a tag
+const TAG_NAME_PATTERN = /^[^\s<>"`\\\p{Cc}]+$/u
+
+const VALUE_PATTERNS: Record<
+  Exclude<MetatagValueType, 'rating' | 'text'>,
+  RegExp
+> = {
+  integer: /^-?\d+$/,
+  decimal: /^\d+(\.\d+)?$/,
+  date: /^\d{4}-\d{2}-\d{2}$/,
+  age: /^\d+(s|mi|h|d|w|mo|y)$/,
+  filesize: /^\d+(\.\d+)?(b|kb|mb)?$/,
+}
+
+const OPERATOR_PREFIXES: Record<QueryOperator, string> = {
+  and: '',
+  not: '-',
+  or: '~',
+}
+
+/**
+ * Parses a Danbooru-style query into an AST.
+ * Supports `-tag` (not), `~tag` (or), `*` wildcards and metatags with
+ * comparisons and ranges: "cat -dog ~fox* score:>100 date:2024-01-01..2024-02-01".
+ * Names and values are lowercased.
+ * @param query - Raw query string
+ * @returns Parsed query
+ * @throws QueryParseError if the query is empty or a term is malformed
+ */
+export function parseQuery(query: string): QueryAst {
+  const tokens = (query ?? '').trim().split(/\s+/).filter(Boolean)
+  if (tokens.length === 0) {
+    throw new QueryParseError('Query is empty')
+  }
+  return { terms: tokens.map(parseTerm) }
+}
+
+function parseTerm(token: string): QueryTerm {
+  let operator: QueryOperator = 'and'
+  let body = token.toLowerCase()
+  if (body.startsWith('-')) {
+    operator = 'not'
+    body = body.slice(1)
+  } else if (body.startsWith('~')) {
+    operator = 'or'
+    body = body.slice(1)
+  }
+
+  if (!body) {
+    throw new QueryParseError(`Operator without a tag: "${token}"`)
+  }
+  if (body.startsWith('-') || body.startsWith('~')) {
+    throw new QueryParseError(`Only one of - or ~ is allowed: "${token}"`)
+  }
+
+  const separator = body.indexOf(':')
+  const metatagName = separator > 0 ? body.slice(0, separator) : undefined
+  const valueType = metatagName ? METATAGS[metatagName] : undefined
+  if (metatagName && valueType) {
+    return {
+      type: 'metatag',
+      operator,
+      name: metatagName,
+      value: parseMetatagValue(
+        metatagName,
+        body.slice(separator + 1),
+        valueType,
+      ),
+    }
+  }
+
+  if (!TAG_NAME_PATTERN.test(body)) {
+    throw new QueryParseError(`Invalid characters in tag: "${token}"`)
+  }
+  const wildcard = body.includes('*')
+  if (wildcard && body.replace(/\*/g, '') === '') {
+    throw new QueryParseError(`Wildcard without a tag: "${token}"`)
+  }
+  return { type: 'tag', operator, name: body, wildcard }
+}
+
+function parseMetatagValue(
+  name: string,
+  raw: string,
+  type: MetatagValueType,
+): MetatagValue {
+  if (!raw) {
+    throw new QueryParseError(`Metatag ${name}: needs a value`)
+  }
+
+  if (RANGE_VALUE_TYPES.has(type)) {
+    const compare = raw.match(/^(>=|<=|>|<)(.*)$/)
+    if (compare) {
+      assertValue(name, compare[2], type)
+      return {
+        kind: 'compare',
+        comparator: compare[1] as RangeComparator,
+        value: compare[2],
+      }
+    }
+
+    if (raw.includes('..')) {
+      const bounds = raw.split('..')
+      const [min, max] = bounds
+      if (bounds.length !== 2 || (!min && !max)) {
+        throw new QueryParseError(`Metatag ${name}: invalid range "${raw}"`)
+      }
+      if (min) {
+        assertValue(name, min, type)
+      }
+      if (max) {
+        assertValue(name, max, type)
+      }
+      return {
+        kind: 'range',
+        ...(min ? { min } : {}),
+        ...(max ? { max } : {}),
+      }
+    }
+  }
+
+  if (raw.includes(',') && (type === 'integer' || type === 'rating')) {
+    const values = raw.split(',')
+    values.forEach(value => assertValue(name, value, type))
+    return { kind: 'list', values }
+  }
+
+  assertValue(name, raw, type)
+  return { kind: 'exact', value: raw }
+}
+
+function assertValue(name: string, value: string, type: MetatagValueType) {
+  let valid: boolean
+  if (type === 'rating') {
+    valid = RATING_VALUES.has(value)
+  } else if (type === 'text') {
+    valid = TAG_NAME_PATTERN.test(value)
+  } else {
+    valid =
+      VALUE_PATTERNS[type].test(value) &&
+      (type !== 'date' || !isNaN(Date.parse(value)))
+  }
+
+  if (!valid) {
+    throw new QueryParseError(`Metatag ${name}: invalid ${type} "${value}"`)
+  }
+}
+
+/**
+ * Turns an AST back into query text (lowercase, single spaces, original term order).
+ * @param ast - Parsed query
+ * @returns Query string
+ */
+export function serializeQuery(ast: QueryAst): string {
+  return ast.terms.map(serializeTerm).join(' ')
+}
+
+/**
+ * Query text of a single term, e.g. `-rating:e` or `~fox`.
+ * @param term - Parsed term
+ * @returns Term string
+ */
+export function serializeTerm(term: QueryTerm): string {
+  const prefix = OPERATOR_PREFIXES[term.operator]
+  if (term.type === 'tag') {
+    return `${prefix}${term.name}`
+  }
+  return `${prefix}${term.name}:${serializeMetatagValue(term.value)}`
+}
+
+function serializeMetatagValue(value: MetatagValue): string {
+  switch (value.kind) {
+    case 'exact':
+      return value.value
+    case 'list':
+      return value.values.join(',')
+    case 'compare':
+      return `${value.comparator}${value.value}`
+    case 'range':
+      return `${value.min ?? ''}..${value.max ?? ''}`
+  }
+}
+
+/**
+ * Plain tags a query depends on, for tag-specific cache invalidation.
+ * Negated and OR tags count (they change the result set), wildcards and metatags do not.
+ * @param ast - Parsed query
+ * @returns Sorted unique tag names
+ */
+export function getQueryTags(ast: QueryAst): string[] {
+  const tags = ast.terms
+    .filter(term => term.type === 'tag' && !term.wildcard)
+    .map(term => term.name)
+  return [...new Set(tags)].sort()
+}
+
+/**
+ * Tags of a raw query for cache invalidation ([] if the query does not parse).
+ * @param query - Raw query string
+ * @returns Sorted unique tag names
+ */
+export function extractQueryTags(query: string): string[] {
+  try {
+    return getQueryTags(parseQuery(query))
+  } catch {
+    return []
+  }
+}
@@ -1,38 +1,74 @@
 import { Test, TestingModule } from '@nestjs/testing'
+import { ConfigService } from '@nestjs/config'
 import { DlqConsumer } from './dlq.consumer'
 import { Redis } from 'ioredis'
 import * as dlqUtil from './utils/dlq.util'
-import { getStreamName, MAX_DLQ_RETRIES, DEDUP_TTL_SECONDS } from '../constants'
+import * as cryptoUtil from '../crypto/crypto.util'
+import {
+  MAX_DLQ_RETRIES,
+  DLQ_CONSUMER_GROUP,
+  PENDING_IDLE_MS,
+} from '../constants'
 import { Logger } from '@nestjs/common'
-import * as crypto from 'crypto'
+import { ProviderRegistryService } from '../api/provider-registry.service'
+import { UpstreamUnavailableError } from '../api/upstream-unavailable.error'
+import { StreamEntry, StreamReadResult } from './utils/stream-group.util'
 
-jest.mock('./utils/dlq.util')
+jest.mock('./utils/dlq.util', () => ({
+  ...jest.requireActual<typeof dlqUtil>('./utils/dlq.util'),
+  retryFromDLQ: jest.fn(),
+  moveToDeadQueue: jest.fn(),
+}))
+jest.mock('../crypto/crypto.util')
 
 const mockRetryFromDLQ = dlqUtil.retryFromDLQ as jest.Mock
 const mockMoveToDeadQueue = dlqUtil.moveToDeadQueue as jest.Mock
-const mockDedupCheck = dlqUtil.dedupCheck as jest.Mock
-
-type XRangeEntry = [string, string[]]
-type XRangeResult = XRangeEntry[]
-type XReadResult = [string, XRangeResult][] | null
+const mockDecrypt = cryptoUtil.decrypt as jest.Mock
+
+// Flat field list as written by addToDLQ
+function dlqEntry(
+  streamId: string,
+  jobId: string,
+  error: string,
+  retryCount = 0,
+): StreamEntry {
+  return [
+    streamId,
+    [
+      'jobId',
+      jobId,
+      'error',
+      error,
+      'encryptedQuery',
+      `enc:query-${jobId}`,
+      'queryHash',
+      `hash-${jobId}`,
+      'retryCount',
+      `${retryCount}`,
+      'apiName',
+      'danbooru',
+    ],
+  ]
+}
 
 describe('DlqConsumer', () => {
   let consumer: DlqConsumer
   let mockRedis: jest.Mocked<Redis>
+  let mockXReadGroup: jest.Mock
   let mockLogger: Partial<jest.Mocked<Logger>>
+  let getEnabledNames: jest.Mock
 
   beforeEach(async () => {
-    jest.resetModules()
+    mockXReadGroup = jest.fn().mockResolvedValue(null)
 
     mockRedis = {
-      xadd: jest.fn(),
-      xrange: jest.fn(),
-      set: jest.fn(),
-      del: jest.fn(),
-      xread: jest.fn(),
-      xdel: jest.fn(),
-      flushall: jest.fn(),
+      xgroup: jest.fn().mockResolvedValue('OK'),
+      xreadgroup: mockXReadGroup,
+      xautoclaim: jest.fn().mockResolvedValue(['0-0', []]),
+      xack: jest.fn().mockResolvedValue(1),
+      xdel: jest.fn().mockResolvedValue(1),
     } as unknown as jest.Mocked<Redis>
+    mockRedis.duplicate = jest.fn().mockReturnValue(mockRedis)
 
     mockLogger = {
       log: jest.fn(),
@@ -42,71 +78,22 @@ describe('DlqConsumer', () => {
       verbose: jest.fn(),
     }
 
-    // Configure utility mocks
-    mockRetryFromDLQ.mockImplementation(async redis => {
-      await Promise.resolve() // to satisfy require-await
-      if (redis === mockRedis) {
-        return { success: true }
-      }
-      return { success: false }
-    })
-
-    mockMoveToDeadQueue.mockImplementation(async () => {
-      await Promise.resolve() // to satisfy require-await
-      return
-    })
-
-    mockDedupCheck.mockImplementation(async (redis, query) => {
-      await Promise.resolve() // to satisfy require-await
-      if (redis === mockRedis) {
-        const queryHash = crypto
-          .createHash('md5')
-          .update(query as string)
-          .digest('hex')
-        const dedupKey = `dedup:danbooru:${queryHash}`
-
-        const recentDuplicates = (await mockRedis.xrange(
-          `danbooru:requests`,
-          '-',
-          '+',
-          'COUNT',
-          100,
-        )) as XRangeResult
-        const hasRecentDuplicate = recentDuplicates.some(entry => {
-          const fields = entry[1]
-          const queryIndex = fields.indexOf('query')
-          return (
-            queryIndex !== -1 &&
-            queryIndex + 1 < fields.length &&
-            fields[queryIndex + 1] === query
-          )
-        })
-
-        if (hasRecentDuplicate) {
-          return true
-        }
-
-        const lockResult: string | null = await mockRedis.set(
-          dedupKey,
-          'jobId',
-          'EX',
-          DEDUP_TTL_SECONDS,
-          'NX',
-        )
-        if (lockResult === 'OK') {
-          await mockRedis.del(dedupKey)
-          return false
-        }
-
-        return true
-      }
-      return false
-    })
+    mockRetryFromDLQ.mockResolvedValue({ success: true })
+    mockMoveToDeadQueue.mockResolvedValue(undefined)
+    mockDecrypt.mockImplementation((value: string) =>
+      value.replace(/^enc:/, ''),
+    )
+    getEnabledNames = jest.fn().mockReturnValue(['danbooru'])
 
     const module: TestingModule = await Test.createTestingModule({
       providers: [
         DlqConsumer,
         { provide: 'REDIS_CLIENT', useValue: mockRedis },
+        {
+          provide: ProviderRegistryService,
+          useValue: { getEnabledNames },
+        },
+        { provide: ConfigService, useValue: { get: jest.fn() } },
         { provide: Logger, useValue: mockLogger },
       ],
     }).compile()
@@ -116,13 +103,12 @@ describe('DlqConsumer', () => {
     ;(consumer as any).logger = mockLogger
   })
 
-  afterEach(async () => {
+  afterEach(() => {
     jest.clearAllMocks()
-    await mockRedis.flushall()
   })
 
   describe('onModuleInit', () => {
-    it('should start DLQ processing on module init', async () => {
+    it('should start DLQ processing on module init', () => {
       const startProcessingSpy = jest
         .spyOn(
           consumer as unknown as { startProcessing: jest.Mock },
@@ -131,7 +117,7 @@ describe('DlqConsumer', () => {
         .mockResolvedValue(undefined)
       const loggerSpy = jest.spyOn(mockLogger, 'log')
 
-      await consumer.onModuleInit()
+      consumer.onModuleInit()
 
       expect(loggerSpy).toHaveBeenCalledWith(
         'Starting DLQ stream processor for all APIs',
@@ -140,359 +126,232 @@ describe('DlqConsumer', () => {
     })
   })
 
+  describe('startProcessing', () => {
+    it('should process the DLQ of every enabled provider and of federated jobs', async () => {
+      getEnabledNames.mockReturnValue(['danbooru', 'gelbooru'])
+      const processed: string[] = []
+      jest.spyOn(consumer, 'processDLQ').mockImplementation(async apiPrefix => {
+        processed.push(apiPrefix)
+        if (apiPrefix === 'federated') {
+          // eslint-disable-next-line @typescript-eslint/no-explicit-any, @typescript-eslint/no-unsafe-member-access
+          ;(consumer as any).running = false
+        }
+        await Promise.resolve()
+      })
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any, @typescript-eslint/no-unsafe-member-access
+      ;(consumer as any).running = true
+      jest.useFakeTimers()
+
+      const loop = consumer.startProcessing()
+      await jest.runAllTimersAsync()
+      await loop
+      jest.useRealTimers()
+
+      expect(processed).toEqual(['danbooru', 'gelbooru', 'federated'])
+    })
+  })
+
   describe('processDLQ', () => {
     const apiName = 'danbooru'
-    const dlqStream = getStreamName(apiName, 'dlq')
-
-    beforeEach(() => {
-      mockRetryFromDLQ.mockResolvedValue({ success: true })
-      mockMoveToDeadQueue.mockResolvedValue(undefined)
-    })
+    const dlqStream = 'danbooru-dlq'
 
-    it('should return when no entries in stream', async () => {
-      mockRedis.xread.mockResolvedValue(null)
+    function readResult(...entries: StreamEntry[]): StreamReadResult {
+      return [[dlqStream, entries]]
+    }
 
-      await consumer['processDLQ'](apiName)
+    it('should read the stream addToDLQ writes through the DLQ group', async () => {
+      await consumer.processDLQ(apiName)
 
-      expect(mockRedis.xread).toHaveBeenCalledWith(
+      expect(mockRedis.xgroup).toHaveBeenCalledWith(
+        'CREATE',
+        dlqStream,
+        DLQ_CONSUMER_GROUP,
+        '$',
+        'MKSTREAM',
+      )
+      expect(mockXReadGroup).toHaveBeenCalledWith(
+        'GROUP',
+        DLQ_CONSUMER_GROUP,
+        expect.any(String),
+        'COUNT',
+        10,
         'BLOCK',
         5000,
         'STREAMS',
         dlqStream,
         '>',
-        'COUNT',
-        10,
       )
+      expect(mockRedis.xautoclaim).not.toHaveBeenCalled()
     })
 
-    it('should process valid retryable DLQ entry and move to dead queue due to privacy', async () => {
-      const streamId = '1640995200000-0'
-      const queryHash = 'hash:abc123'
-      const mockXReadResult = [
-        [
-          dlqStream,
-          [
-            [
-              streamId,
-              [
-                ['jobId', 'test-job-123'],
-                ['error', 'No posts found'],
-                ['query', queryHash],
-                ['retryCount', '0'],
-                ['originalError', 'API returned empty'],
-                ['queryLength', '15'],
-              ],
-            ],
-          ],
-        ],
-      ] as unknown as XReadResult
-
-      mockRedis.xread.mockResolvedValue(mockXReadResult)
-      mockRedis.xdel.mockResolvedValue(1)
-
-      await consumer['processDLQ'](apiName)
-
-      expect(mockLogger.error).toHaveBeenCalledWith(
-        expect.stringContaining(
-          `Processing DLQ entry test-job-123 (${apiName}): error = No posts found, query hash = ${queryHash}, length = 15 chars, retry = 0/${MAX_DLQ_RETRIES}`,
-        ),
-      )
-      expect(mockLogger.warn).toHaveBeenCalledWith(
-        expect.stringContaining(
-          'Skipping retry for job test-job-123 (danbooru) - original query not available due to privacy masking',
-        ),
-      )
-      expect(mockMoveToDeadQueue).toHaveBeenCalledWith(
-        mockRedis,
-        apiName,
-        'test-job-123',
-        'No posts found',
-        queryHash,
-        'API returned empty',
+    it('should leave new retryable entries pending until they are reclaimed', async () => {
+      mockXReadGroup.mockResolvedValue(
+        readResult(dlqEntry('1-0', 'job-1', 'Rate limit exceeded')),
       )
 
-      expect(mockRedis.xdel).toHaveBeenCalledWith(dlqStream, streamId)
+      await consumer.processDLQ(apiName)
+
+      expect(mockRetryFromDLQ).not.toHaveBeenCalled()
+      expect(mockMoveToDeadQueue).not.toHaveBeenCalled()
+      expect(mockRedis.xack).not.toHaveBeenCalled()
     })
 
-    it('should retry job by adding back to REQUESTS_STREAM when under max retries', async () => {
-      const queryHash = 'retry-hash'
-
-      const mockXReadResult = [
-        [
-          dlqStream,
-          [
-            [
-              '1640995200000-0',
-              [
-                ['jobId', 'retry-test-job'],
-                ['error', 'No posts found'],
-                ['query', queryHash],
-                ['retryCount', '0'],
-                ['queryLength', '25'],
-                ['originalError', 'Empty response'],
-              ],
-            ],
-          ],
-        ],
-      ] as unknown as XReadResult
-
-      mockRedis.xread.mockResolvedValue(mockXReadResult)
-      mockRedis.xdel.mockResolvedValue(1)
-
-      await consumer['processDLQ'](apiName)
-
-      expect(mockLogger.warn).toHaveBeenCalledWith(
-        expect.stringContaining(
-          'Skipping retry for job retry-test-job (danbooru) - original query not available due to privacy masking',
-        ),
+    it('should retry reclaimed retryable entries and ack them', async () => {
+      mockRedis.xautoclaim.mockResolvedValue([
+        '0-0',
+        [dlqEntry('1-0', 'job-1', 'Danbooru API error: 502', 2)],
+      ])
+
+      await consumer.processDLQ(apiName, true)
+
+      expect(mockRedis.xautoclaim).toHaveBeenCalledWith(
+        dlqStream,
+        DLQ_CONSUMER_GROUP,
+        expect.any(String),
+        PENDING_IDLE_MS,
+        '0-0',
+        'COUNT',
+        10,
       )
-      expect(mockRetryFromDLQ).not.toHaveBeenCalled()
-      expect(mockMoveToDeadQueue).toHaveBeenCalledWith(
+      expect(mockRetryFromDLQ).toHaveBeenCalledWith(
         mockRedis,
         apiName,
-        'retry-test-job',
-        'No posts found',
-        queryHash,
-        'Empty response',
+        'job-1',
+        2,
+        '1-0',
       )
-
-      expect(mockRedis.xdel).toHaveBeenCalledWith(dlqStream, '1640995200000-0')
+      expect(mockRedis.xack).toHaveBeenCalledWith(
+        dlqStream,
+        DLQ_CONSUMER_GROUP,
+        '1-0',
+      )
+      expect(mockMoveToDeadQueue).not.toHaveBeenCalled()
     })
 
-    it('should handle max retries and move to dead queue', async () => {
-      const queryHash = 'hash:ghi789'
-      const mockXReadResult = [
-        [
-          dlqStream,
-          [
-            [
-              '1640995200000-0',
-              [
-                ['jobId', 'max-retry-job'],
-                ['error', 'No posts found'],
-                ['query', queryHash],
-                ['retryCount', `${MAX_DLQ_RETRIES}`],
-                ['originalError', 'Max retries reached'],
-                ['queryLength', '25'],
-              ],
-            ],
-          ],
-        ],
-      ] as unknown as XReadResult
-
-      mockRedis.xread.mockResolvedValue(mockXReadResult)
-      mockRedis.xdel.mockResolvedValue(1)
-
-      await consumer['processDLQ'](apiName)
+    it('should retry upstream outages once reclaimed', async () => {
+      const error = new UpstreamUnavailableError(
+        'danbooru',
+        'Request failed with status code 503',
+        503,
+      ).message
+      mockXReadGroup.mockResolvedValue(
+        readResult(dlqEntry('1-0', 'job-1', error)),
+      )
+      mockRedis.xautoclaim.mockResolvedValue([
+        '0-0',
+        [dlqEntry('1-0', 'job-1', error)],
+      ])
 
-      expect(mockMoveToDeadQueue).toHaveBeenCalledWith(
+      await consumer.processDLQ(apiName, true)
+
+      expect(mockRetryFromDLQ).toHaveBeenCalledTimes(1)
+      expect(mockRetryFromDLQ).toHaveBeenCalledWith(
         mockRedis,
         apiName,
-        'max-retry-job',
-        'No posts found',
-        queryHash,
-        'Max retries reached',
-      )
-      expect(mockLogger.warn).toHaveBeenCalledWith(
-        expect.stringContaining(
-          'Job max-retry-job moved to dead queue (danbooru, max retries or permanent error)',
-        ),
+        'job-1',
+        0,
+        '1-0',
       )
-
-      expect(mockRedis.xdel).toHaveBeenCalledWith(dlqStream, '1640995200000-0')
+      expect(mockMoveToDeadQueue).not.toHaveBeenCalled()
     })
 
-    it('should handle non-retryable errors and move to dead queue', async () => {
-      const queryHash = 'hash:jkl012'
-      const mockXReadResult = [
-        [
-          dlqStream,
-          [
-            [
-              '1640995200000-0',
-              [
-                ['jobId', 'non-retry-job'],
-                ['error', 'Invalid authentication'],
-                ['query', queryHash],
-                ['retryCount', '0'],
-                ['originalError', 'Auth failed'],
-                ['queryLength', '18'],
-              ],
-            ],
-          ],
-        ],
-      ] as unknown as XReadResult
-
-      mockRedis.xread.mockResolvedValue(mockXReadResult)
-      mockRedis.xdel.mockResolvedValue(1)
-
-      await consumer['processDLQ'](apiName)
-
+    it('should dead-queue entries that cannot be retried with the decrypted query', async () => {
+      mockRetryFromDLQ.mockResolvedValue({
+        success: false,
+        error: 'Original request not found',
+      })
+      mockRedis.xautoclaim.mockResolvedValue([
+        '0-0',
+        [dlqEntry('1-0', 'job-1', 'No posts found')],
+      ])
+
+      await consumer.processDLQ(apiName, true)
+
+      expect(mockDecrypt).toHaveBeenCalledWith(
+        'enc:query-job-1',
+        process.env.ENCRYPTION_KEY ?? '',
+      )
       expect(mockMoveToDeadQueue).toHaveBeenCalledWith(
         mockRedis,
         apiName,
-        'non-retry-job',
-        'Invalid authentication',
-        queryHash,
-        'Auth failed',
+        'job-1',
+        'No posts found',
+        'query-job-1',
+        'Original request not found',
       )
-
-      expect(mockRedis.xdel).toHaveBeenCalledWith(dlqStream, '1640995200000-0')
+      expect(mockRedis.xdel).toHaveBeenCalledWith(dlqStream, '1-0')
     })
 
-    it('should handle invalid DLQ entries and delete them', async () => {
-      const mockXReadResult = [
-        [
-          dlqStream,
-          [
-            [
-              '1640995200000-0',
-              [
-                // Missing jobId field
-                ['error', 'Some error'],
-                ['query', 'hash:mno345'],
-              ],
-            ],
-          ],
-        ],
-      ] as unknown as XReadResult
-
-      mockRedis.xread.mockResolvedValue(mockXReadResult)
-      mockRedis.xdel.mockResolvedValue(1)
-
-      await consumer['processDLQ'](apiName)
-
-      expect(mockLogger.error).toHaveBeenCalledWith(
-        expect.stringContaining(
-          'Invalid DLQ entry 1640995200000-0 for danbooru, deleting',
+    it('should dead-queue entries out of retries and permanent errors', async () => {
+      mockXReadGroup.mockResolvedValue(
+        readResult(
+          dlqEntry('1-0', 'job-1', 'Rate limit exceeded', MAX_DLQ_RETRIES),
+          dlqEntry('2-0', 'job-2', 'Invalid API key - authentication failed'),
         ),
       )
 
-      expect(mockRedis.xdel).toHaveBeenCalledWith(dlqStream, '1640995200000-0')
-      expect(mockMoveToDeadQueue).not.toHaveBeenCalled()
-    })
+      await consumer.processDLQ(apiName)
 
-    it('should process multiple DLQ entries in single batch', async () => {
-      const queryHash1 = 'hash:job1'
-      const queryHash2 = 'hash:job2'
-      const mockXReadResult = [
-        [
-          dlqStream,
-          [
-            [
-              '1640995200000-0',
-              [
-                ['jobId', 'job1'],
-                ['error', 'No posts found'],
-                ['query', queryHash1],
-                ['retryCount', `${MAX_DLQ_RETRIES}`],
-                ['queryLength', '10'],
-              ],
-            ],
-            [
-              '1640995200001-0',
-              [
-                ['jobId', 'job2'],
-                ['error', 'Rate limit'],
-                ['query', queryHash2],
-                ['retryCount', `${MAX_DLQ_RETRIES}`],
-                ['queryLength', '12'],
-              ],
-            ],
-          ],
-        ],
-      ] as unknown as XReadResult
-
-      mockRedis.xread.mockResolvedValue(mockXReadResult)
-      mockRedis.xdel.mockResolvedValue(1)
-
-      await consumer['processDLQ'](apiName)
-
-      expect(mockMoveToDeadQueue).toHaveBeenCalledTimes(2)
-
-      expect(mockRedis.xdel).toHaveBeenCalledTimes(2)
-      expect(mockLogger.error).toHaveBeenCalledTimes(2)
-      expect(mockLogger.warn).toHaveBeenCalledTimes(2)
+      expect(mockRetryFromDLQ).not.toHaveBeenCalled()
       expect(mockMoveToDeadQueue).toHaveBeenCalledWith(
         mockRedis,
         apiName,
-        'job1',
-        'No posts found',
-        queryHash1,
+        'job-1',
+        'Rate limit exceeded',
+        'query-job-1',
         'Max retries exceeded',
       )
       expect(mockMoveToDeadQueue).toHaveBeenCalledWith(
         mockRedis,
         apiName,
-        'job2',
-        'Rate limit',
-        queryHash2,
-        'Max retries exceeded',
+        'job-2',
+        'Invalid API key - authentication failed',
+        'query-job-2',
+        'Invalid API key - authentication failed',
       )
+      expect(mockRedis.xack).toHaveBeenCalledTimes(2)
+      expect(mockRedis.xdel).toHaveBeenCalledWith(dlqStream, '1-0')
+      expect(mockRedis.xdel).toHaveBeenCalledWith(dlqStream, '2-0')
     })
 
-    it('should handle privacy masked entries without original query', async () => {
-      const queryHash = 'hash:privacy123'
-      const mockXReadResult = [
-        [
-          dlqStream,
-          [
-            [
-              '1640995200000-0',
-              [
-                ['jobId', 'privacy-job'],
-                ['error', 'No posts found'],
-                ['query', queryHash],
-                ['retryCount', '0'],
-                ['queryLength', '15'],
-                // Missing 'originalQuery' field due to privacy masking
-              ],
-            ],
-          ],
-        ],
-      ] as unknown as XReadResult
-
-      mockRedis.xread.mockResolvedValue(mockXReadResult)
-      mockRedis.xdel.mockResolvedValue(1)
-
-      await consumer['processDLQ'](apiName)
+    it('should delete invalid DLQ entries', async () => {
+      mockXReadGroup.mockResolvedValue(
+        readResult(['1-0', ['error', 'Some error', 'queryHash', 'abc']]),
+      )
+
+      await consumer.processDLQ(apiName)
 
       expect(mockLogger.error).toHaveBeenCalledWith(
-        expect.stringContaining(
-          `Processing DLQ entry privacy-job (${apiName}): error = No posts found, query hash = ${queryHash}, length = 15 chars, retry = 0/${MAX_DLQ_RETRIES}`,
-        ),
+        'Invalid DLQ entry 1-0 for danbooru, deleting',
       )
-      expect(mockLogger.warn).toHaveBeenCalledWith(
-        expect.stringContaining(
-          'Skipping retry for job privacy-job (danbooru) - original query not available due to privacy masking',
-        ),
-      )
-      expect(mockMoveToDeadQueue).toHaveBeenCalledWith(
-        mockRedis,
-        apiName,
-        'privacy-job',
-        'No posts found',
-        queryHash,
-        'Retry skipped due to privacy masking (attempt 1)',
+      expect(mockRedis.xdel).toHaveBeenCalledWith(dlqStream, '1-0')
+      expect(mockMoveToDeadQueue).not.toHaveBeenCalled()
+    })
+
+    it('should leave entries pending when dead-queueing fails', async () => {
+      mockMoveToDeadQueue.mockRejectedValue(new Error('Connection lost'))
+      mockXReadGroup.mockResolvedValue(
+        readResult(dlqEntry('1-0', 'job-1', 'Invalid request format')),
       )
 
-      expect(mockRedis.xdel).toHaveBeenCalledWith(dlqStream, '1640995200000-0')
-      expect(mockRetryFromDLQ).not.toHaveBeenCalled()
+      await consumer.processDLQ(apiName)
+
+      expect(mockLogger.error).toHaveBeenCalledWith(
+        'DLQ entry 1-0 for danbooru left pending: Connection lost',
+      )
+      expect(mockRedis.xack).not.toHaveBeenCalled()
     })
 
-    it('should handle Redis xread connection errors gracefully', async () => {
-      const redisError = new Error('Connection lost')
-      mockRedis.xread.mockRejectedValue(redisError)
+    it('should handle Redis xreadgroup connection errors gracefully', async () => {
+      mockXReadGroup.mockRejectedValue(new Error('Connection lost'))
 
-      await consumer['processDLQ'](apiName)
+      await consumer.processDLQ(apiName)
 
       expect(mockLogger.error).toHaveBeenCalledWith(
-        expect.stringContaining(
-          `DLQ processing error for ${apiName}: Connection lost`,
-        ),
+        `DLQ processing error for ${apiName}: Connection lost`,
       )
       expect(mockMoveToDeadQueue).not.toHaveBeenCalled()
-
+      expect(mockRedis.xack).not.toHaveBeenCalled()
       expect(mockRedis.xdel).not.toHaveBeenCalled()
     })
   })
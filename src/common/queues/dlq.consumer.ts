@@ -1,124 +1,231 @@
-import { Injectable, Logger, Inject, OnModuleInit } from '@nestjs/common'
+import {
+  Injectable,
+  Logger,
+  Inject,
+  OnModuleInit,
+  OnModuleDestroy,
+} from '@nestjs/common'
+import { ConfigService } from '@nestjs/config'
 import Redis from 'ioredis'
-import { getStreamName, MAX_DLQ_RETRIES } from '../constants'
-import { moveToDeadQueue } from './utils/dlq.util'
+import {
+  DLQ_CONSUMER_GROUP,
+  FEDERATED_API_PREFIX,
+  MAX_DLQ_RETRIES,
+  PENDING_CLAIM_INTERVAL_MS,
+  PENDING_IDLE_MS,
+  STREAM_BLOCK_MS,
+} from '../constants'
+import { decrypt } from '../crypto/crypto.util'
+import { getDLQStream, moveToDeadQueue, retryFromDLQ } from './utils/dlq.util'
+import {
+  StreamEntry,
+  StreamReadResult,
+  ensureConsumerGroup,
+  getConsumerName,
+  parseStreamFields,
+} from './utils/stream-group.util'
+import { ProviderRegistryService } from '../api/provider-registry.service'
 
+const DLQ_READ_COUNT = 10
+
+/**
+ * Reads the `{apiPrefix}-dlq` stream of every enabled provider and of
+ * federated jobs through the `booru-proxy-dlq` consumer group. A retryable
+ * failure is left pending when first read and retried with `retryFromDLQ`
+ * once reclaimed after `STREAM_PENDING_IDLE_MS`, which doubles as its backoff;
+ * everything else goes to `{apiPrefix}-dead`. `callbacks-dlq` is not read:
+ * undeliverable webhooks stay there for inspection.
+ */
 @Injectable()
-export class DlqConsumer implements OnModuleInit {
+export class DlqConsumer implements OnModuleInit, OnModuleDestroy {
   private readonly logger = new Logger(DlqConsumer.name)
+  private readonly consumerName = getConsumerName()
+  private readonly groupStreams = new Set<string>()
+  private reader?: Redis // Dedicated connection, XREADGROUP BLOCK holds it
+  private running = false
+  private loop?: Promise<void>
+  private lastClaimAt = 0
 
-  constructor(@Inject('REDIS_CLIENT') private readonly redis: Redis) {}
+  constructor(
+    @Inject('REDIS_CLIENT') private readonly redis: Redis,
+    private readonly providerRegistry: ProviderRegistryService,
+    private readonly configService: ConfigService,
+  ) {}
 
-  async onModuleInit() {
+  onModuleInit() {
     this.logger.log('Starting DLQ stream processor for all APIs')
-    await this.startProcessing()
+    this.running = true
+    // Not awaited: the loop runs until onModuleDestroy
+    this.loop = this.startProcessing()
+  }
+
+  async onModuleDestroy() {
+    this.running = false
+    this.reader?.disconnect()
+    await this.loop
   }
 
-  async processDLQ(apiPrefix: string) {
-    const dlqStream = getStreamName(apiPrefix, 'dlq')
+  /**
+   * Handles new entries of one DLQ, after reclaiming idle pending ones when due
+   * @param apiPrefix - Provider name or `federated`
+   * @param reclaim - Run XAUTOCLAIM first
+   */
+  async processDLQ(apiPrefix: string, reclaim = false) {
+    const dlqStream = getDLQStream(apiPrefix)
 
     try {
-      // Read pending entries from DLQ stream
-      const entries = await this.redis.xread(
+      if (!this.groupStreams.has(dlqStream)) {
+        await ensureConsumerGroup(this.redis, dlqStream, DLQ_CONSUMER_GROUP)
+        this.groupStreams.add(dlqStream)
+      }
+      this.reader ??= this.redis.duplicate()
+
+      if (reclaim) {
+        await this.reclaimPending(apiPrefix, dlqStream)
+      }
+
+      // Read new entries through the DLQ consumer group
+      const entries = (await this.reader.xreadgroup(
+        'GROUP',
+        DLQ_CONSUMER_GROUP,
+        this.consumerName,
+        'COUNT',
+        DLQ_READ_COUNT,
         'BLOCK',
-        5000, // Block for 5 seconds
+        STREAM_BLOCK_MS,
         'STREAMS',
         dlqStream,
         '>',
-        'COUNT',
-        10, // Process up to 10 entries
-      )
+      )) as StreamReadResult
 
-      if (!entries || !entries.length) {
-        return // No new entries
+      for (const entry of entries?.[0]?.[1] ?? []) {
+        await this.handleEntry(apiPrefix, dlqStream, entry, false)
       }
+    } catch (error) {
+      this.logger.error(
+        `DLQ processing error for ${apiPrefix}: ${error instanceof Error ? error.message : String(error)}`,
+      )
+      // NOGROUP after the stream was deleted: recreate the group next time
+      this.groupStreams.delete(dlqStream)
+    }
+  }
+
+  // Entries left pending (deferred retries, crashed workers) and idle long enough
+  private async reclaimPending(apiPrefix: string, dlqStream: string) {
+    const [, entries] = (await this.redis.xautoclaim(
+      dlqStream,
+      DLQ_CONSUMER_GROUP,
+      this.consumerName,
+      this.getPendingIdleMs(),
+      '0-0',
+      'COUNT',
+      DLQ_READ_COUNT,
+    )) as [string, StreamEntry[]]
+
+    for (const entry of entries) {
+      await this.handleEntry(apiPrefix, dlqStream, entry, true)
+    }
+  }
+
+  /**
+   * Retries or dead-queues one DLQ entry, then acks and deletes it.
+   * A retryable entry read for the first time stays pending until reclaimed.
+   */
+  private async handleEntry(
+    apiPrefix: string,
+    dlqStream: string,
+    [streamId, fields]: StreamEntry,
+    reclaimed: boolean,
+  ) {
+    const { jobId, error, encryptedQuery, queryHash, ...entry } =
+      parseStreamFields(fields)
+
+    if (!jobId || !error || !encryptedQuery) {
+      this.logger.error(
+        `Invalid DLQ entry ${streamId} for ${apiPrefix}, deleting`,
+      )
+      await this.redis.xack(dlqStream, DLQ_CONSUMER_GROUP, streamId)
+      await this.redis.xdel(dlqStream, streamId)
+      return
+    }
+
+    const retryCount = parseInt(entry.retryCount || '0', 10)
+    // 'unavailable': UpstreamUnavailableError, the whole failover chain was down
+    const isRetryableError =
+      error.includes('No posts found') ||
+      error.includes('Rate limit') ||
+      error.includes('API error') ||
+      error.includes('unavailable')
 
-      const streamEntries = entries[0][1]
-      for (const [streamId, fields] of streamEntries) {
-        const jobId = fields.find(f => f[0] === 'jobId')?.[1]
-        const error = fields.find(f => f[0] === 'error')?.[1]
-        const queryHash = fields.find(f => f[0] === 'query')?.[1] // Now stores hash
-        const retryCountStr = fields.find(f => f[0] === 'retryCount')?.[1]
-        const retryCount = parseInt(retryCountStr || '0', 10)
-        const originalError = fields.find(f => f[0] === 'originalError')?.[1]
-
-        if (!jobId || !error || !queryHash) {
-          this.logger.error(
-            `Invalid DLQ entry ${streamId} for ${apiPrefix}, deleting`,
-          )
-          await this.redis.xdel(dlqStream, streamId)
-          continue
+    try {
+      let finalError = isRetryableError ? 'Max retries exceeded' : error
+      if (isRetryableError && retryCount < MAX_DLQ_RETRIES) {
+        if (!reclaimed) {
+          return
         }
 
-        const queryLength = parseInt(
-          fields.find(f => f[0] === 'queryLength')?.[1] || '0',
+        this.logger.log(
+          `Retrying job ${jobId} from DLQ (${apiPrefix}, query hash ${queryHash?.slice(0, 16)}, attempt ${retryCount + 1}/${MAX_DLQ_RETRIES})`,
         )
-        this.logger.error(
-          `Processing DLQ entry ${jobId} (${apiPrefix}): error = ${error}, query hash = ${queryHash}, length = ${queryLength} chars, retry = ${retryCount}/${MAX_DLQ_RETRIES}`,
+        const result = await retryFromDLQ(
+          this.redis,
+          apiPrefix,
+          jobId,
+          retryCount,
+          streamId,
         )
-
-        const isRetryableError =
-          error.includes('No posts found') ||
-          error.includes('Rate limit') ||
-          error.includes('API error')
-
-        if (isRetryableError && retryCount < MAX_DLQ_RETRIES) {
-          // Retry by adding back to main stream
-          const newRetryCount = retryCount + 1
-          this.logger.log(
-            `Retrying job ${jobId} from DLQ to main stream (${apiPrefix}, attempt ${newRetryCount})`,
-          )
-
-          // Note: For retry, we need the original query. Since we only have hash,
-          // we'll need to reconstruct or store original query separately for retry cases
-          // For now, we'll skip retry for privacy-focused implementation
-          // In production, consider storing encrypted/original query for retry scenarios
-          this.logger.warn(
-            `Skipping retry for job ${jobId} (${apiPrefix}) - original query not available due to privacy masking`,
-          )
-
-          // Move to dead queue instead of retrying
-          await moveToDeadQueue(
-            this.redis,
-            apiPrefix,
-            jobId,
-            error,
-            queryHash,
-            originalError ||
-              `Retry skipped due to privacy masking (attempt ${newRetryCount})`,
-          )
-          await this.redis.xdel(dlqStream, streamId)
-          continue
-        } else {
-          await moveToDeadQueue(
-            this.redis,
-            apiPrefix,
-            jobId,
-            error,
-            queryHash,
-            originalError || 'Max retries exceeded',
-          )
-          await this.redis.xdel(dlqStream, streamId)
-          this.logger.warn(
-            `Job ${jobId} moved to dead queue (${apiPrefix}, max retries or permanent error)`,
-          )
+        if (result.success) {
+          await this.redis.xack(dlqStream, DLQ_CONSUMER_GROUP, streamId)
+          return
         }
+        finalError = result.error || finalError
       }
-    } catch (error) {
+
+      await moveToDeadQueue(
+        this.redis,
+        apiPrefix,
+        jobId,
+        error,
+        decrypt(encryptedQuery, process.env.ENCRYPTION_KEY ?? ''),
+        finalError,
+      )
+      await this.redis.xack(dlqStream, DLQ_CONSUMER_GROUP, streamId)
+      await this.redis.xdel(dlqStream, streamId)
+      this.logger.warn(
+        `Job ${jobId} moved to dead queue (${apiPrefix}): ${finalError}`,
+      )
+    } catch (handleError: unknown) {
+      // Left pending, reclaimed on a later pass
       this.logger.error(
-        `DLQ processing error for ${apiPrefix}: ${error instanceof Error ? error.message : String(error)}`,
+        `DLQ entry ${streamId} for ${apiPrefix} left pending: ${handleError instanceof Error ? handleError.message : String(handleError)}`,
       )
     }
   }
 
+  private getPendingIdleMs(): number {
+    return (
+      Number(this.configService.get<number>('STREAM_PENDING_IDLE_MS')) ||
+      PENDING_IDLE_MS
+    )
+  }
+
   // Method to be called periodically or via cron/interval
-  // Process DLQ for all enabled APIs
+  // Process the DLQ of every enabled API and of federated jobs
   async startProcessing() {
-    while (true) {
+    while (this.running) {
       try {
-        // Process DLQ for danbooru (and other APIs when added)
-        await this.processDLQ('danbooru')
-        // Add more API prefixes here as they are implemented
+        const reclaim =
+          Date.now() - this.lastClaimAt >= PENDING_CLAIM_INTERVAL_MS
+        if (reclaim) {
+          this.lastClaimAt = Date.now()
+        }
+        // Process DLQ for every provider enabled via ENABLED_PROVIDERS
+        for (const apiPrefix of [
+          ...this.providerRegistry.getEnabledNames(),
+          FEDERATED_API_PREFIX,
+        ]) {
+          await this.processDLQ(apiPrefix, reclaim)
+        }
 
         // Wait before next poll cycle
         await new Promise(resolve => setTimeout(resolve, 2000))
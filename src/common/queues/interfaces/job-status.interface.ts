@@ -0,0 +1,24 @@
+import type { JobState } from '../../constants'
+
+/**
+ * Lifecycle record of one job, read back from its `job:{jobId}` hash.
+ * `response` is the last published response (success or error).
+ */
+export interface JobStatus {
+  jobId: string
+  state: JobState
+  apiPrefix?: string
+  error?: string
+  response?: unknown
+  createdAt: number
+  updatedAt: number
+}
+
+export interface JobStatusDetails {
+  apiPrefix?: string
+  error?: string
+  response?: unknown
+  requestStream?: string // Stream and entry id of the request message, for DLQ retries
+  requestId?: string
+  retryCount?: number // DLQ retries so far
+}
@@ -1,30 +1,49 @@
 import { Test, TestingModule } from '@nestjs/testing'
 import { RedisStreamConsumer } from './redis-stream.consumer'
-import { Job } from 'bullmq'
 import Redis from 'ioredis'
 import { ModuleRef } from '@nestjs/core'
+import { ConfigService } from '@nestjs/config'
 import { DanbooruService } from '../../danbooru/danbooru.service'
 import { ValidationService } from '../../danbooru/validation.service'
+import { ProviderRegistryService } from '../api/provider-registry.service'
+import { FederatedSearchService } from '../api/federated-search.service'
 import { LockUtil } from '../redis/utils/lock.util'
 import * as dlqUtil from './utils/dlq.util'
+import * as jobStatusUtil from './utils/job-status.util'
 import {
   DEDUP_TTL_SECONDS,
   QUERY_LOCK_TIMEOUT_SECONDS,
+  REQUESTS_CONSUMER_GROUP,
+  RESPONSE_STREAM_MAXLEN,
+  STREAM_READ_COUNT,
 } from '../../common/constants'
 import * as crypto from 'crypto'
+import * as os from 'os'
 import { Logger } from '@nestjs/common'
 
 interface JobData {
-  query: string
+  jobId?: string
+  type?: string
+  query?: string
   clientId?: string
   apiPrefix?: string
+  imageUrl?: string
+  replyTo?: string
+  callbackUrl?: string
+}
+
+interface StreamMessage {
+  id: string
+  data: JobData
 }
 
 interface ValidationResult {
   valid: boolean
   dto?: {
     jobId: string
-    query: string
+    type?: string
+    query?: string
+    imageUrl?: string
   }
   error?: {
     type: 'error'
@@ -45,11 +64,15 @@ type TestConsumer = Omit<
   ): Promise<string | null>
   releaseLock(key: string, value: string): Promise<boolean>
   process(
-    job: Job<JobData, unknown, string>,
+    message: StreamMessage,
   ): Promise<{ success: boolean } | { skipped: boolean; reason: string }>
+  readNew(): Promise<void>
+  reclaimPending(): Promise<void>
   redis: Redis
+  reader?: Redis
+  running: boolean
   lockUtil: LockUtil
-  onModuleInit(): Promise<void>
+  onModuleInit(): void
   onModuleDestroy(): Promise<void>
   logger: Partial<jest.Mocked<Logger>>
 }
@@ -57,11 +80,15 @@ type TestConsumer = Omit<
 jest.mock('../../danbooru/danbooru.service')
 jest.mock('../../danbooru/validation.service')
 jest.mock('./utils/dlq.util')
+jest.mock('./utils/job-status.util')
 jest.mock('crypto')
 jest.mock('../redis/utils/lock.util')
 
 const mockDedupCheck = jest.mocked(dlqUtil.dedupCheck)
 const mockAddToDLQ = jest.mocked(dlqUtil.addToDLQ)
+const mockSetJobStatus = jest.mocked(jobStatusUtil.setJobStatus)
+const mockRecordJobResponse = jest.mocked(jobStatusUtil.recordJobResponse)
+const mockGetJobStatus = jest.mocked(jobStatusUtil.getJobStatus)
 const mockCryptoRandomUUID = jest.mocked(crypto.randomUUID)
 
 describe('RedisStreamConsumer', () => {
@@ -72,21 +99,33 @@ describe('RedisStreamConsumer', () => {
   let mockDanbooruServiceInstance: Partial<jest.Mocked<DanbooruService>>
   let mockValidationServiceInstance: Partial<jest.Mocked<ValidationService>>
   let mockLockUtilInstance: Partial<jest.Mocked<LockUtil>>
+  let mockProviderRegistry: Partial<jest.Mocked<ProviderRegistryService>>
+  let mockFederatedSearchService: Partial<jest.Mocked<FederatedSearchService>>
+  let mockConfigService: { get: jest.Mock }
   let module: TestingModule
 
   beforeEach(async () => {
     mockRedis = {
       set: jest.fn(),
+      get: jest.fn(),
       xadd: jest.fn(),
       exists: jest.fn(),
       setex: jest.fn(),
       xrange: jest.fn(),
+      xgroup: jest.fn().mockResolvedValue('OK'),
+      xreadgroup: jest.fn().mockResolvedValue(null),
+      xack: jest.fn().mockResolvedValue(1),
+      xpending: jest.fn().mockResolvedValue([]),
+      xautoclaim: jest.fn().mockResolvedValue(['0-0', [], []]),
+      disconnect: jest.fn(),
     } as Partial<jest.Mocked<Redis>> & {
       exists: jest.Mock
       setex: jest.Mock
       xrange: jest.Mock
     }
 
+    mockRedis.duplicate = jest.fn().mockReturnValue(mockRedis)
+
     mockModuleRef = {
       get: jest.fn(),
     }
@@ -102,7 +141,7 @@ describe('RedisStreamConsumer', () => {
     }
 
     mockDanbooruServiceInstance = {
-      processRequest: jest.fn().mockResolvedValue(undefined),
+      processJob: jest.fn().mockResolvedValue(undefined),
     }
 
     mockValidationServiceInstance = {
@@ -113,9 +152,22 @@ describe('RedisStreamConsumer', () => {
       acquireLock: jest.fn().mockResolvedValue('mock-lock-value'),
       releaseLock: jest.fn().mockResolvedValue(true),
     }
-    ;(mockModuleRef.get as jest.Mock)
-      .mockImplementationOnce(() => mockValidationServiceInstance)
-      .mockImplementationOnce(() => mockDanbooruServiceInstance)
+    ;(mockModuleRef.get as jest.Mock).mockImplementationOnce(
+      () => mockValidationServiceInstance,
+    )
+
+    mockProviderRegistry = {
+      getEnabledProvider: jest
+        .fn()
+        .mockReturnValue(mockDanbooruServiceInstance),
+      getEnabledNames: jest.fn().mockReturnValue(['danbooru']),
+    }
+
+    mockFederatedSearchService = {
+      search: jest.fn().mockResolvedValue(undefined),
+    }
+
+    mockConfigService = { get: jest.fn() }
 
     mockCryptoRandomUUID.mockReturnValue('123e4567-e89b-12d3-a456-426614174000')
     ;(
@@ -139,6 +191,12 @@ describe('RedisStreamConsumer', () => {
         { provide: 'REDIS_CLIENT', useValue: mockRedis },
         { provide: LockUtil, useValue: mockLockUtilInstance },
         { provide: ModuleRef, useValue: mockModuleRef },
+        { provide: ProviderRegistryService, useValue: mockProviderRegistry },
+        {
+          provide: FederatedSearchService,
+          useValue: mockFederatedSearchService,
+        },
+        { provide: ConfigService, useValue: mockConfigService },
         { provide: Logger, useValue: mockLogger },
       ],
     }).compile()
@@ -159,7 +217,7 @@ describe('RedisStreamConsumer', () => {
       query: 'cat rating:safe',
       clientId: 'user123',
     }
-    const mockJob = { data: mockJobData } as Job<JobData>
+    const mockJob = { id: '1-0', data: mockJobData } as StreamMessage
     const jobId = '123e4567-e89b-12d3-a456-426614174000'
     const queryHash = 'test-query-hash'
     const lockKey = `lock:query:danbooru:test-query-hash`
@@ -198,9 +256,9 @@ describe('RedisStreamConsumer', () => {
         valid: true,
         dto: { jobId, query: 'cat rating:safe' },
       } as ValidationResult)
-      ;(
-        mockDanbooruServiceInstance.processRequest as jest.Mock
-      ).mockResolvedValue({} as unknown)
+      ;(mockDanbooruServiceInstance.processJob as jest.Mock).mockResolvedValue(
+        {} as unknown,
+      )
 
       const result = await consumer.process(mockJob)
 
@@ -222,7 +280,7 @@ describe('RedisStreamConsumer', () => {
 
       expect(mockRedis.set).toHaveBeenCalledWith(
         `processed:${jobId}`,
-        '1',
+        '1-0',
         'EX',
         DEDUP_TTL_SECONDS,
         'NX',
@@ -237,18 +295,20 @@ describe('RedisStreamConsumer', () => {
         strict: false,
       })
 
-      expect(mockModuleRef.get).toHaveBeenCalledWith(DanbooruService, {
-        strict: false,
-      })
+      expect(mockProviderRegistry.getEnabledProvider).toHaveBeenCalledWith(
+        'danbooru',
+      )
 
       expect(
         mockValidationServiceInstance.validateRequest,
       ).toHaveBeenCalledWith({ ...mockJobData, apiPrefix: 'danbooru' })
 
-      expect(mockDanbooruServiceInstance.processRequest).toHaveBeenCalledWith(
+      expect(mockDanbooruServiceInstance.processJob).toHaveBeenCalledWith(
+        'posts',
         jobId,
         'cat rating:safe',
         'user123',
+        { limit: undefined, responseStream: 'danbooru:responses' },
       )
 
       expect(mockLockUtilInstance.releaseLock).toHaveBeenCalledWith(
@@ -261,6 +321,228 @@ describe('RedisStreamConsumer', () => {
       )
     })
 
+    it('should route multi-provider jobs to federated search', async () => {
+      const federatedJob = {
+        data: { ...mockJobData, apiPrefix: 'danbooru,gelbooru' },
+      } as StreamMessage
+
+      const result = await consumer.process(federatedJob)
+
+      expect(result).toEqual({ success: true })
+      expect(mockLockUtilInstance.acquireLock).toHaveBeenCalledWith(
+        'lock:query:federated:test-query-hash',
+        QUERY_LOCK_TIMEOUT_SECONDS,
+      )
+      expect(mockFederatedSearchService.search).toHaveBeenCalledWith(
+        jobId,
+        'danbooru,gelbooru',
+        'cat rating:safe',
+        'user123',
+        { limit: undefined, responseStream: 'federated:responses' },
+      )
+      expect(mockProviderRegistry.getEnabledProvider).not.toHaveBeenCalled()
+    })
+
+    it('should route gelbooru jobs to the Gelbooru orchestrator', async () => {
+      const mockGelbooruServiceInstance = {
+        processJob: jest.fn().mockResolvedValue(undefined),
+      }
+      ;(mockProviderRegistry.getEnabledProvider as jest.Mock).mockReturnValue(
+        mockGelbooruServiceInstance,
+      )
+      const gelbooruJob = {
+        data: { ...mockJobData, apiPrefix: 'gelbooru' },
+      } as StreamMessage
+
+      const result = await consumer.process(gelbooruJob)
+
+      expect(result).toEqual({ success: true })
+      expect(mockLockUtilInstance.acquireLock).toHaveBeenCalledWith(
+        'lock:query:gelbooru:test-query-hash',
+        QUERY_LOCK_TIMEOUT_SECONDS,
+      )
+      expect(mockProviderRegistry.getEnabledProvider).toHaveBeenCalledWith(
+        'gelbooru',
+      )
+      expect(mockGelbooruServiceInstance.processJob).toHaveBeenCalledWith(
+        'posts',
+        jobId,
+        'cat rating:safe',
+        'user123',
+        { limit: undefined, responseStream: 'gelbooru:responses' },
+      )
+      expect(mockDanbooruServiceInstance.processJob).not.toHaveBeenCalled()
+    })
+
+    it('should fail jobs for a disabled provider with an error response', async () => {
+      ;(
+        mockProviderRegistry.getEnabledProvider as jest.Mock
+      ).mockImplementation(() => {
+        throw new Error('Provider gelbooru is disabled')
+      })
+      const gelbooruJob = {
+        data: { ...mockJobData, apiPrefix: 'gelbooru' },
+      } as StreamMessage
+
+      const result = await consumer.process(gelbooruJob)
+
+      expect(result).toEqual({
+        success: false,
+        error: 'Provider gelbooru is disabled',
+      })
+      expect(mockDanbooruServiceInstance.processJob).not.toHaveBeenCalled()
+      expect(mockRedis.xadd).toHaveBeenCalledWith(
+        'gelbooru:responses',
+        'MAXLEN',
+        '~',
+        RESPONSE_STREAM_MAXLEN,
+        '*',
+        'jobId',
+        jobId,
+        'data',
+        expect.stringContaining('Provider gelbooru is disabled'),
+      )
+      expect(mockAddToDLQ).toHaveBeenCalledWith(
+        mockRedis as unknown as Redis,
+        'gelbooru',
+        jobId,
+        'Provider gelbooru is disabled',
+        'cat rating:safe',
+      )
+      expect(mockLockUtilInstance.releaseLock).toHaveBeenCalledWith(
+        'lock:query:gelbooru:test-query-hash',
+        jobId,
+      )
+    })
+
+    it('should lock each page and limit of a query separately', async () => {
+      // Readable digest: the hashed input itself
+      ;(
+        crypto.createHash as jest.MockedFunction<typeof crypto.createHash>
+      ).mockImplementation(() => {
+        let input = ''
+        const hash: { update: jest.Mock; digest: jest.Mock } = {
+          update: jest.fn((value: string) => {
+            input += value
+            return hash
+          }),
+          digest: jest.fn(() => input),
+        }
+        return hash as unknown as ReturnType<typeof crypto.createHash>
+      })
+
+      await consumer.process({
+        id: '1-0',
+        data: { ...mockJobData, limit: '5', page: '1' },
+      })
+      await consumer.process({
+        id: '2-0',
+        data: { ...mockJobData, limit: '5', page: '2' },
+      })
+      await consumer.process({
+        id: '3-0',
+        data: { ...mockJobData, cursor: 'b1234' },
+      })
+      // Same upstream request as the orchestrator sees it: default limit, padded numbers
+      await consumer.process({
+        id: '4-0',
+        data: { ...mockJobData, page: '3' },
+      })
+      await consumer.process({
+        id: '5-0',
+        data: { ...mockJobData, limit: '01', page: '03' },
+      })
+
+      const lockKeys = (
+        mockLockUtilInstance.acquireLock as jest.Mock
+      ).mock.calls.map(([key]) => key as string)
+      expect(lockKeys).toEqual([
+        'lock:query:danbooru:danbooru:cat rating:s:5:1',
+        'lock:query:danbooru:danbooru:cat rating:s:5:2',
+        'lock:query:danbooru:danbooru:cat rating:s:1:b1234',
+        'lock:query:danbooru:danbooru:cat rating:s:1:3',
+        'lock:query:danbooru:danbooru:cat rating:s:1:3',
+      ])
+    })
+
+    it('should route other job types to the provider under their own lock', async () => {
+      ;(
+        mockValidationServiceInstance.validateRequest as jest.Mock
+      ).mockResolvedValue({
+        valid: true,
+        dto: { jobId, type: 'autocomplete', query: 'cat_e' },
+      } as ValidationResult)
+
+      const result = await consumer.process({
+        data: { ...mockJobData, type: 'autocomplete', query: 'cat_e' },
+      } as StreamMessage)
+
+      expect(result).toEqual({ success: true })
+      expect(mockLockUtilInstance.acquireLock).toHaveBeenCalledWith(
+        'lock:query:danbooru:autocomplete:test-query-hash',
+        QUERY_LOCK_TIMEOUT_SECONDS,
+      )
+      expect(mockDanbooruServiceInstance.processJob).toHaveBeenCalledWith(
+        'autocomplete',
+        jobId,
+        'cat_e',
+        'user123',
+        { limit: undefined, responseStream: 'danbooru:responses' },
+      )
+    })
+
+    it('should key iqdb jobs by their image and pass it on', async () => {
+      const imageUrl = 'https://example.com/cat.jpg'
+      ;(
+        mockValidationServiceInstance.validateRequest as jest.Mock
+      ).mockResolvedValue({
+        valid: true,
+        dto: { jobId, type: 'iqdb.search', imageUrl },
+      } as ValidationResult)
+
+      const result = await consumer.process({
+        data: { clientId: 'user123', type: 'iqdb.search', imageUrl },
+      } as StreamMessage)
+
+      expect(result).toEqual({ success: true })
+      expect(mockDedupCheck).toHaveBeenCalledWith(
+        mockRedis,
+        'danbooru',
+        imageUrl,
+        jobId,
+      )
+      expect(mockLockUtilInstance.acquireLock).toHaveBeenCalledWith(
+        'lock:query:danbooru:iqdb.search:test-query-hash',
+        QUERY_LOCK_TIMEOUT_SECONDS,
+      )
+      expect(mockDanbooruServiceInstance.processJob).toHaveBeenCalledWith(
+        'iqdb.search',
+        jobId,
+        imageUrl,
+        'user123',
+        expect.objectContaining({ imageUrl }),
+      )
+    })
+
+    it('should reject non-search job types for federated jobs', async () => {
+      ;(
+        mockValidationServiceInstance.validateRequest as jest.Mock
+      ).mockResolvedValue({
+        valid: true,
+        dto: { jobId, type: 'autocomplete', query: 'cat_e' },
+      } as ValidationResult)
+
+      const result = await consumer.process({
+        data: { ...mockJobData, type: 'autocomplete', apiPrefix: '*' },
+      } as StreamMessage)
+
+      expect(result).toEqual({
+        success: false,
+        error: 'Federated search only supports posts jobs, got autocomplete',
+      })
+      expect(mockFederatedSearchService.search).not.toHaveBeenCalled()
+    })
+
     it('should skip processing on DLQ duplicate detection', async () => {
       mockDedupCheck.mockResolvedValueOnce(true)
 
@@ -275,6 +557,9 @@ describe('RedisStreamConsumer', () => {
 
       expect(mockRedis.xadd).toHaveBeenCalledWith(
         'danbooru:responses',
+        'MAXLEN',
+        '~',
+        RESPONSE_STREAM_MAXLEN,
         '*',
         'jobId',
         jobId,
@@ -315,6 +600,9 @@ describe('RedisStreamConsumer', () => {
 
       expect(mockRedis.xadd).toHaveBeenCalledWith(
         'danbooru:responses',
+        'MAXLEN',
+        '~',
+        RESPONSE_STREAM_MAXLEN,
         '*',
         'jobId',
         jobId,
@@ -332,12 +620,13 @@ describe('RedisStreamConsumer', () => {
 
       expect(mockLockUtilInstance.releaseLock).not.toHaveBeenCalled()
 
-      expect(mockDanbooruServiceInstance.processRequest).not.toHaveBeenCalled()
+      expect(mockDanbooruServiceInstance.processJob).not.toHaveBeenCalled()
     })
 
     it('should skip processing on job-level duplicate detection', async () => {
       mockDedupCheck.mockResolvedValueOnce(false)
       ;(mockRedis.set as jest.Mock).mockResolvedValueOnce(null) // for processed
+      ;(mockRedis.get as jest.Mock).mockResolvedValueOnce('0-1') // claimed by another message
 
       const result = await consumer.process(mockJob)
 
@@ -352,13 +641,219 @@ describe('RedisStreamConsumer', () => {
         mockValidationServiceInstance.validateRequest,
       ).not.toHaveBeenCalled()
 
-      expect(mockDanbooruServiceInstance.processRequest).not.toHaveBeenCalled()
+      expect(mockDanbooruServiceInstance.processJob).not.toHaveBeenCalled()
 
       expect(mockLockUtilInstance.acquireLock).not.toHaveBeenCalled()
 
       expect(mockModuleRef.get).not.toHaveBeenCalled()
     })
 
+    it('should continue a reclaimed message that holds its own jobId claim', async () => {
+      ;(mockRedis.set as jest.Mock).mockResolvedValueOnce(null)
+      ;(mockRedis.get as jest.Mock).mockResolvedValueOnce('1-0')
+
+      const result = await consumer.process(mockJob)
+
+      expect(result).toEqual({ success: true })
+      expect(mockDanbooruServiceInstance.processJob).toHaveBeenCalled()
+    })
+
+    it('should keep a client UUID as jobId and record its lifecycle', async () => {
+      const clientJobId = '9b2f7c1e-4d3a-4f5b-8c6d-7e8f9a0b1c2d'
+
+      const result = await consumer.process({
+        id: '1-0',
+        stream: 'danbooru:requests',
+        data: { ...mockJobData, jobId: clientJobId },
+      })
+
+      expect(result).toEqual({ success: true })
+      expect(mockCryptoRandomUUID).not.toHaveBeenCalled()
+      expect(mockRedis.set).toHaveBeenCalledWith(
+        `processed:${clientJobId}`,
+        '1-0',
+        'EX',
+        DEDUP_TTL_SECONDS,
+        'NX',
+      )
+      expect(mockSetJobStatus.mock.calls).toEqual([
+        [
+          mockRedis,
+          clientJobId,
+          'queued',
+          {
+            apiPrefix: 'danbooru',
+            requestStream: 'danbooru:requests',
+            requestId: '1-0',
+          },
+        ],
+        [mockRedis, clientJobId, 'processing', { apiPrefix: 'danbooru' }],
+      ])
+    })
+
+    it('should record the error responses it publishes itself', async () => {
+      ;(mockLockUtilInstance.acquireLock as jest.Mock).mockResolvedValue(null)
+
+      await consumer.process(mockJob)
+
+      expect(mockRecordJobResponse).toHaveBeenCalledWith(
+        mockRedis,
+        'danbooru',
+        jobId,
+        {
+          type: 'error',
+          jobId,
+          error: 'Query currently being processed by another worker',
+        },
+      )
+    })
+
+    it('should answer job.status commands with the stored status', async () => {
+      const targetJobId = '9b2f7c1e-4d3a-4f5b-8c6d-7e8f9a0b1c2d'
+      const status = {
+        jobId: targetJobId,
+        state: 'succeeded' as const,
+        createdAt: 1,
+        updatedAt: 2,
+      }
+      mockGetJobStatus.mockResolvedValueOnce(status)
+      ;(
+        mockValidationServiceInstance.validateRequest as jest.Mock
+      ).mockResolvedValue({
+        valid: true,
+        dto: { jobId, type: 'job.status', query: targetJobId },
+      } as ValidationResult)
+
+      const result = await consumer.process({
+        id: '1-0',
+        data: { ...mockJobData, type: 'job.status', query: targetJobId },
+      })
+
+      expect(result).toEqual({ success: true })
+      expect(mockGetJobStatus).toHaveBeenCalledWith(mockRedis, targetJobId)
+      const [data] = (
+        (mockRedis.xadd as jest.Mock).mock.calls[0] as string[]
+      ).slice(-1)
+      expect(JSON.parse(data)).toEqual(
+        expect.objectContaining({
+          type: 'success',
+          jobId,
+          jobType: 'job.status',
+          status,
+        }),
+      )
+      expect(mockDanbooruServiceInstance.processJob).not.toHaveBeenCalled()
+    })
+
+    it('should answer on an allowlisted replyTo stream', async () => {
+      mockConfigService.get.mockImplementation((key: string) =>
+        key === 'RESPONSE_STREAM_ALLOWLIST' ? 'bot1:*' : undefined,
+      )
+
+      await consumer.process({
+        id: '1-0',
+        data: { ...mockJobData, replyTo: 'bot1:inbox' },
+      })
+
+      expect(mockDanbooruServiceInstance.processJob).toHaveBeenCalledWith(
+        'posts',
+        jobId,
+        'cat rating:safe',
+        'user123',
+        expect.objectContaining({ responseStream: 'bot1:inbox' }),
+      )
+    })
+
+    it('should reject a replyTo outside the allowlist on the client stream', async () => {
+      const result = await consumer.process({
+        id: '1-0',
+        data: { ...mockJobData, replyTo: 'danbooru:requests' },
+      })
+
+      expect(result).toEqual({
+        success: false,
+        error: 'replyTo stream not allowed: danbooru:requests',
+      })
+      expect(mockRedis.xadd).toHaveBeenCalledWith(
+        'danbooru:responses',
+        'MAXLEN',
+        '~',
+        RESPONSE_STREAM_MAXLEN,
+        '*',
+        'jobId',
+        jobId,
+        'data',
+        expect.stringContaining('replyTo stream not allowed'),
+      )
+      expect(mockAddToDLQ).not.toHaveBeenCalled()
+      expect(mockDanbooruServiceInstance.processJob).not.toHaveBeenCalled()
+    })
+
+    it('should pass an allowlisted callbackUrl on with the response stream', async () => {
+      const callbackUrl = 'https://fn.example.com/hook'
+      mockConfigService.get.mockImplementation((key: string) =>
+        key === 'CALLBACK_ALLOWLIST_USER123'
+          ? 'https://fn.example.com/'
+          : undefined,
+      )
+
+      await consumer.process({
+        id: '1-0',
+        data: { ...mockJobData, callbackUrl },
+      })
+
+      expect(mockDanbooruServiceInstance.processJob).toHaveBeenCalledWith(
+        'posts',
+        jobId,
+        'cat rating:safe',
+        'user123',
+        expect.objectContaining({
+          responseStream: 'danbooru:responses',
+          callbackUrl,
+        }),
+      )
+    })
+
+    it('should reject a callbackUrl outside the client allowlist', async () => {
+      const result = await consumer.process({
+        id: '1-0',
+        data: { ...mockJobData, callbackUrl: 'https://evil.example.com/' },
+      })
+
+      expect(result).toEqual({
+        success: false,
+        error: 'callbackUrl not allowed for client user123',
+      })
+      expect(mockDanbooruServiceInstance.processJob).not.toHaveBeenCalled()
+    })
+
+    it('should answer job.status commands for unknown jobs with an error', async () => {
+      mockGetJobStatus.mockResolvedValueOnce(null)
+      ;(
+        mockValidationServiceInstance.validateRequest as jest.Mock
+      ).mockResolvedValue({
+        valid: true,
+        dto: { jobId, type: 'job.status', query: 'unknown' },
+      } as ValidationResult)
+
+      await consumer.process({
+        id: '1-0',
+        data: { ...mockJobData, type: 'job.status', query: 'unknown' },
+      })
+
+      expect(mockRedis.xadd).toHaveBeenCalledWith(
+        'danbooru:responses',
+        'MAXLEN',
+        '~',
+        RESPONSE_STREAM_MAXLEN,
+        '*',
+        'jobId',
+        jobId,
+        'data',
+        expect.stringContaining('Job unknown not found'),
+      )
+    })
+
     it('should handle validation failure and add to DLQ', async () => {
       mockDedupCheck
         .mockResolvedValueOnce(false) // Initial DLQ check
@@ -393,6 +888,9 @@ describe('RedisStreamConsumer', () => {
 
       expect(mockRedis.xadd).toHaveBeenCalledWith(
         'danbooru:responses',
+        'MAXLEN',
+        '~',
+        RESPONSE_STREAM_MAXLEN,
         '*',
         'jobId',
         jobId,
@@ -471,7 +969,6 @@ describe('RedisStreamConsumer', () => {
         (service: unknown) => {
           if (service === ValidationService)
             return mockValidationServiceInstance
-          if (service === DanbooruService) return mockDanbooruServiceInstance
           return null
         },
       )
@@ -481,9 +978,9 @@ describe('RedisStreamConsumer', () => {
         valid: true,
         dto: { jobId, query: 'cat rating:safe' },
       } as ValidationResult)
-      ;(
-        mockDanbooruServiceInstance.processRequest as jest.Mock
-      ).mockResolvedValue(undefined)
+      ;(mockDanbooruServiceInstance.processJob as jest.Mock).mockResolvedValue(
+        undefined,
+      )
 
       await consumer.process(mockJob)
 
@@ -509,9 +1006,9 @@ describe('RedisStreamConsumer', () => {
         valid: true,
         dto: { jobId, query: 'test' },
       } as ValidationResult)
-      ;(
-        mockDanbooruServiceInstance.processRequest as jest.Mock
-      ).mockRejectedValue(new Error('Processing failed'))
+      ;(mockDanbooruServiceInstance.processJob as jest.Mock).mockRejectedValue(
+        new Error('Processing failed'),
+      )
 
       const result = await consumer.process(mockJob)
 
@@ -660,23 +1157,165 @@ describe('RedisStreamConsumer', () => {
     })
   })
 
-  describe('onModuleInit and onModuleDestroy', () => {
-    it('should call onModuleInit without errors', async () => {
-      await consumer.onModuleInit()
+  describe('stream consumption', () => {
+    const stream = 'danbooru:requests'
 
-      expect(mockLogger.log).not.toHaveBeenCalled()
-      expect(mockLogger.warn).not.toHaveBeenCalled()
-      expect(mockLogger.error).not.toHaveBeenCalled()
-      expect(mockLogger.debug).not.toHaveBeenCalled()
+    beforeEach(() => {
+      jest.clearAllMocks()
+      ;(
+        mockValidationServiceInstance.validateRequest as jest.Mock
+      ).mockResolvedValue({
+        valid: true,
+        dto: { jobId: 'job', query: 'cat' },
+      } as ValidationResult)
     })
 
-    it('should call onModuleDestroy without errors', async () => {
+    it('should start and stop the read loop on a dedicated connection', async () => {
+      const readNew = jest.spyOn(consumer, 'readNew').mockImplementation(() => {
+        consumer.running = false
+        return Promise.resolve()
+      })
+
+      consumer.onModuleInit()
       await consumer.onModuleDestroy()
 
-      expect(mockLogger.log).not.toHaveBeenCalled()
-      expect(mockLogger.warn).not.toHaveBeenCalled()
-      expect(mockLogger.error).not.toHaveBeenCalled()
-      expect(mockLogger.debug).not.toHaveBeenCalled()
+      expect(mockRedis.duplicate).toHaveBeenCalled()
+      expect(readNew).toHaveBeenCalled()
+      expect(mockRedis.disconnect).toHaveBeenCalled()
+    })
+
+    it('should read new messages through the group and ack them', async () => {
+      ;(mockRedis.xreadgroup as jest.Mock).mockResolvedValue([
+        [stream, [['1-0', ['query', 'cat', 'clientId', 'user123']]]],
+      ])
+      consumer.reader = mockRedis as unknown as Redis
+
+      await consumer.readNew()
+
+      expect(mockRedis.xgroup).toHaveBeenCalledWith(
+        'CREATE',
+        stream,
+        REQUESTS_CONSUMER_GROUP,
+        '$',
+        'MKSTREAM',
+      )
+      const [, group, consumerName] = (mockRedis.xreadgroup as jest.Mock).mock
+        .calls[0] as string[]
+      expect(group).toBe(REQUESTS_CONSUMER_GROUP)
+      expect(consumerName).toBe(`${os.hostname()}-${process.pid}`)
+      expect(mockDanbooruServiceInstance.processJob).toHaveBeenCalledWith(
+        'posts',
+        expect.any(String),
+        'cat',
+        'user123',
+        expect.any(Object),
+      )
+      // apiPrefix falls back to the stream the message came from
+      expect(
+        mockValidationServiceInstance.validateRequest,
+      ).toHaveBeenCalledWith(
+        expect.objectContaining({ query: 'cat', apiPrefix: 'danbooru' }),
+      )
+      expect(mockRedis.xack).toHaveBeenCalledWith(
+        stream,
+        REQUESTS_CONSUMER_GROUP,
+        '1-0',
+      )
+    })
+
+    it('should leave a message pending when handling it throws', async () => {
+      ;(mockRedis.xreadgroup as jest.Mock).mockResolvedValue([
+        [stream, [['1-0', ['query', 'cat']]]],
+      ])
+      ;(mockDanbooruServiceInstance.processJob as jest.Mock).mockRejectedValue(
+        new Error('API error'),
+      )
+      mockAddToDLQ.mockRejectedValueOnce(new Error('Connection lost'))
+      consumer.reader = mockRedis as unknown as Redis
+
+      await consumer.readNew()
+
+      expect(mockRedis.xack).not.toHaveBeenCalled()
+      expect(mockLogger.error).toHaveBeenCalledWith(
+        `Message 1-0 on ${stream} left pending: Connection lost`,
+      )
+    })
+
+    it('should dead-letter over-delivered messages and reclaim idle ones', async () => {
+      ;(mockRedis.xpending as jest.Mock).mockResolvedValue([
+        ['1-0', 'host-1', 90000, 5],
+        ['2-0', 'host-1', 90000, 2],
+      ])
+      const poisonJobId = '3f1c2d4e-5a6b-4c7d-8e9f-0a1b2c3d4e5f'
+      ;(mockRedis.xrange as jest.Mock).mockResolvedValue([
+        ['1-0', ['jobId', poisonJobId, 'query', 'poison']],
+      ])
+      ;(mockRedis.xautoclaim as jest.Mock).mockResolvedValue([
+        '0-0',
+        [['2-0', ['query', 'cat']]],
+        [],
+      ])
+
+      await consumer.reclaimPending()
+
+      expect(mockRedis.xpending).toHaveBeenCalledWith(
+        stream,
+        REQUESTS_CONSUMER_GROUP,
+        'IDLE',
+        60000,
+        '-',
+        '+',
+        STREAM_READ_COUNT,
+      )
+      expect(mockAddToDLQ).toHaveBeenCalledWith(
+        mockRedis,
+        'danbooru',
+        poisonJobId,
+        'Delivery limit reached (5 deliveries, last consumer host-1)',
+        'poison',
+      )
+      const [, , , idleMs, start] = (mockRedis.xautoclaim as jest.Mock).mock
+        .calls[0] as [string, string, string, number, string]
+      expect([idleMs, start]).toEqual([60000, '0-0'])
+      expect(mockDanbooruServiceInstance.processJob).toHaveBeenCalledTimes(1)
+      expect(mockRedis.xack).toHaveBeenCalledWith(
+        stream,
+        REQUESTS_CONSUMER_GROUP,
+        '1-0',
+      )
+      expect(mockRedis.xack).toHaveBeenCalledWith(
+        stream,
+        REQUESTS_CONSUMER_GROUP,
+        '2-0',
+      )
+    })
+
+    it('should read the pending timeout and delivery limit from config', async () => {
+      mockConfigService.get.mockImplementation((key: string) =>
+        key === 'STREAM_PENDING_IDLE_MS' ? '1000' : '2',
+      )
+      ;(mockRedis.xpending as jest.Mock).mockResolvedValue([
+        ['1-0', 'host-1', 1500, 2],
+      ])
+      ;(mockRedis.xrange as jest.Mock).mockResolvedValue([])
+
+      await consumer.reclaimPending()
+
+      expect(mockRedis.xpending).toHaveBeenCalledWith(
+        stream,
+        REQUESTS_CONSUMER_GROUP,
+        'IDLE',
+        1000,
+        '-',
+        '+',
+        STREAM_READ_COUNT,
+      )
+      expect(mockAddToDLQ).not.toHaveBeenCalled()
+      expect(mockRedis.xack).toHaveBeenCalledWith(
+        stream,
+        REQUESTS_CONSUMER_GROUP,
+        '1-0',
+      )
     })
   })
 
@@ -686,6 +1325,9 @@ describe('RedisStreamConsumer', () => {
         mockRedis as unknown as Redis,
         mockLockUtilInstance as unknown as LockUtil,
         mockModuleRef as unknown as ModuleRef,
+        mockProviderRegistry as unknown as ProviderRegistryService,
+        mockFederatedSearchService as unknown as FederatedSearchService,
+        mockConfigService as unknown as ConfigService,
       ) as unknown as TestConsumer
       expect(redisConsumer.redis).toBe(mockRedis)
     })
@@ -695,6 +1337,9 @@ describe('RedisStreamConsumer', () => {
         mockRedis as unknown as Redis,
         mockLockUtilInstance as unknown as LockUtil,
         mockModuleRef as unknown as ModuleRef,
+        mockProviderRegistry as unknown as ProviderRegistryService,
+        mockFederatedSearchService as unknown as FederatedSearchService,
+        mockConfigService as unknown as ConfigService,
       ) as unknown as TestConsumer
       expect(lockConsumer.lockUtil).toBe(mockLockUtilInstance)
     })
@@ -704,7 +1349,7 @@ describe('RedisStreamConsumer', () => {
         RedisStreamConsumer,
       ) as unknown as TestConsumer
 
-      const mockTestJob = { data: { query: 'test' } } as Job<JobData>
+      const mockTestJob = { data: { query: 'test' } } as StreamMessage
       await testConsumer.process(mockTestJob)
 
       expect(mockModuleRef.get).toHaveBeenCalledWith(ValidationService, {
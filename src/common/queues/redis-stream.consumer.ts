@@ -5,20 +5,54 @@ import {
   OnModuleInit,
   OnModuleDestroy,
 } from '@nestjs/common'
-import { Processor, WorkerHost } from '@nestjs/bullmq'
-import { Job } from 'bullmq'
+import { ConfigService } from '@nestjs/config'
 import Redis from 'ioredis'
-import { DanbooruService } from '../../danbooru/danbooru.service'
 import { ValidationService } from '../../danbooru/validation.service'
+import { CreateRequestDto } from '../../danbooru/dto/create-request.dto'
+import { DanbooruRequestOptions } from '../../danbooru/interfaces/danbooru.interface'
 import { addToDLQ, dedupCheck } from './utils/dlq.util'
+import {
+  getJobStatus,
+  recordJobResponse,
+  setJobStatus,
+} from './utils/job-status.util'
+import {
+  addResponse,
+  resolveResponseStream,
+} from './utils/response-stream.util'
+import { isCallbackAllowed } from './utils/callback.util'
+import type { ResponseTarget } from '../api/base-api.interface'
+import {
+  StreamEntry,
+  StreamReadResult,
+  ensureConsumerGroup,
+  getConsumerName,
+  parseStreamFields,
+} from './utils/stream-group.util'
 import {
   DEDUP_TTL_SECONDS,
+  FEDERATED_API_PREFIX,
+  IQDB_SEARCH_JOB_TYPE,
+  JOB_STATUS_JOB_TYPE,
+  MAX_STREAM_DELIVERIES,
+  PENDING_CLAIM_INTERVAL_MS,
+  PENDING_IDLE_MS,
+  POSTS_JOB_TYPE,
   QUERY_LOCK_TIMEOUT_SECONDS,
+  REQUESTS_CONSUMER_GROUP,
+  RETRY_DELAY_MS,
+  STREAM_BLOCK_MS,
+  STREAM_READ_COUNT,
   getStreamName,
+  isFederatedApiPrefix,
 } from '../../common/constants'
 import { LockUtil } from '../redis/utils/lock.util'
+import { ProviderRegistryService } from '../api/provider-registry.service'
+import { FederatedSearchService } from '../api/federated-search.service'
+import { hashQueryLock, resolvePaging } from '../api/utils/request-params.util'
 import * as crypto from 'crypto'
 import { ModuleRef } from '@nestjs/core'
+import { isUUID } from 'class-validator'
 
 interface IValidationError {
   type: 'error'
@@ -31,6 +65,31 @@ interface IValidationError {
 interface IValidationResult {
   valid: boolean
   error?: IValidationError
+  dto?: CreateRequestDto
+}
+
+interface IStreamJobData {
+  jobId?: string
+  type?: string // Job type, default 'posts'
+  query?: string // Optional for iqdb.search, which sends imageUrl or imageData
+  clientId?: string
+  replyTo?: string
+  callbackUrl?: string
+  apiPrefix?: string
+  limit?: string
+  page?: string
+  cursor?: string
+  expand?: string
+  fields?: string
+  variant?: string
+  imageUrl?: string
+  imageData?: string
+}
+
+interface IStreamMessage {
+  id: string // Stream entry id
+  stream?: string // Stream it was read from, recorded for DLQ retries
+  data: IStreamJobData
 }
 
 interface IProcessResult {
@@ -40,30 +99,215 @@ interface IProcessResult {
   error?: string
 }
 
-@Processor('danbooru-requests', { concurrency: 5 })
+/**
+ * Reads `{apiPrefix}:requests` of every enabled provider through the
+ * `booru-proxy` consumer group. A message is acknowledged once `process`
+ * has handled it (success or a published error); messages left pending by a
+ * crashed worker are reclaimed with XAUTOCLAIM after `STREAM_PENDING_IDLE_MS`,
+ * and dead-lettered once delivered `STREAM_MAX_DELIVERIES` times.
+ */
 @Injectable()
-export class RedisStreamConsumer
-  extends WorkerHost
-  implements OnModuleInit, OnModuleDestroy
-{
+export class RedisStreamConsumer implements OnModuleInit, OnModuleDestroy {
   private readonly logger = new Logger(RedisStreamConsumer.name)
-  private danbooruService?: DanbooruService
   private validationService?: ValidationService
+  private readonly consumerName = getConsumerName()
+  private readonly groupStreams = new Set<string>()
+  private reader?: Redis // Dedicated connection, XREADGROUP BLOCK holds it
+  private running = false
+  private loop?: Promise<void>
+  private lastClaimAt = 0
 
   constructor(
     @Inject('REDIS_CLIENT') private readonly redis: Redis,
     private readonly lockUtil: LockUtil,
     @Inject(ModuleRef) private moduleRef: ModuleRef,
+    private readonly providerRegistry: ProviderRegistryService,
+    private readonly federatedSearchService: FederatedSearchService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  onModuleInit() {
+    this.running = true
+    this.reader = this.redis.duplicate()
+    this.loop = this.consume()
+    this.logger.log(
+      `Consuming request streams as ${REQUESTS_CONSUMER_GROUP}/${this.consumerName}`,
+    )
+  }
+
+  async onModuleDestroy() {
+    this.running = false
+    this.reader?.disconnect()
+    await this.loop
+  }
+
+  // Read loop: reclaim stale pending messages periodically, then block for new ones
+  private async consume(): Promise<void> {
+    while (this.running) {
+      try {
+        if (Date.now() - this.lastClaimAt >= PENDING_CLAIM_INTERVAL_MS) {
+          this.lastClaimAt = Date.now()
+          await this.reclaimPending()
+        }
+        await this.readNew()
+      } catch (error: unknown) {
+        if (!this.running) {
+          return
+        }
+        this.logger.error(
+          `Request stream read failed: ${error instanceof Error ? error.message : String(error)}`,
+        )
+        // NOGROUP after a stream was deleted: recreate groups on the next pass
+        this.groupStreams.clear()
+        await new Promise(resolve => setTimeout(resolve, RETRY_DELAY_MS))
+      }
+    }
+  }
+
+  /**
+   * Request streams of the enabled providers, with their consumer group in place
+   * @returns Stream names, e.g. ['danbooru:requests']
+   */
+  private async getRequestStreams(): Promise<string[]> {
+    const streams = this.providerRegistry
+      .getEnabledNames()
+      .map(name => getStreamName(name, 'requests'))
+    for (const stream of streams) {
+      if (!this.groupStreams.has(stream)) {
+        await ensureConsumerGroup(this.redis, stream, REQUESTS_CONSUMER_GROUP)
+        this.groupStreams.add(stream)
+      }
+    }
+    return streams
+  }
+
+  /**
+   * Blocks up to STREAM_BLOCK_MS for new messages and handles them concurrently
+   */
+  private async readNew(): Promise<void> {
+    const streams = await this.getRequestStreams()
+    const result = (await this.reader!.xreadgroup(
+      'GROUP',
+      REQUESTS_CONSUMER_GROUP,
+      this.consumerName,
+      'COUNT',
+      STREAM_READ_COUNT,
+      'BLOCK',
+      STREAM_BLOCK_MS,
+      'STREAMS',
+      ...streams,
+      ...streams.map(() => '>'),
+    )) as StreamReadResult
+
+    await Promise.all(
+      (result ?? []).flatMap(([stream, entries]) =>
+        entries.map(entry => this.handleEntry(stream, entry)),
+      ),
+    )
+  }
+
+  /**
+   * Dead-letters pending messages that hit the delivery limit, then claims
+   * the remaining ones idle for longer than the pending timeout and handles them.
+   */
+  private async reclaimPending(): Promise<void> {
+    const idleMs = this.getPendingIdleMs()
+    const maxDeliveries = this.getMaxDeliveries()
+
+    for (const stream of await this.getRequestStreams()) {
+      const pending = (await this.redis.xpending(
+        stream,
+        REQUESTS_CONSUMER_GROUP,
+        'IDLE',
+        idleMs,
+        '-',
+        '+',
+        STREAM_READ_COUNT,
+      )) as [string, string, number, number][]
+      for (const [id, consumer, , deliveries] of pending) {
+        if (deliveries >= maxDeliveries) {
+          await this.deadLetterPending(stream, id, consumer, deliveries)
+        }
+      }
+
+      const [, entries] = (await this.redis.xautoclaim(
+        stream,
+        REQUESTS_CONSUMER_GROUP,
+        this.consumerName,
+        idleMs,
+        '0-0',
+        'COUNT',
+        STREAM_READ_COUNT,
+      )) as [string, StreamEntry[]]
+      if (entries.length > 0) {
+        this.logger.warn(
+          `Reclaimed ${entries.length} pending message(s) from ${stream}`,
+        )
+      }
+      await Promise.all(entries.map(entry => this.handleEntry(stream, entry)))
+    }
+  }
+
+  // Processes one message and acks it; a throw leaves it pending for reclaim
+  private async handleEntry(stream: string, [id, fields]: StreamEntry) {
+    const data = parseStreamFields(fields) as IStreamJobData
+    const streamPrefix = stream.slice(0, stream.lastIndexOf(':'))
+    try {
+      await this.process({
+        id,
+        stream,
+        data: { ...data, apiPrefix: data.apiPrefix || streamPrefix },
+      })
+      await this.redis.xack(stream, REQUESTS_CONSUMER_GROUP, id)
+    } catch (error: unknown) {
+      this.logger.error(
+        `Message ${id} on ${stream} left pending: ${error instanceof Error ? error.message : String(error)}`,
+      )
+    }
+  }
+
+  // Message that keeps crashing its worker: DLQ it under its jobId and ack it
+  private async deadLetterPending(
+    stream: string,
+    id: string,
+    consumer: string,
+    deliveries: number,
   ) {
-    super()
+    const [entry] = await this.redis.xrange(stream, id, id)
+    if (entry) {
+      const data = parseStreamFields(entry[1]) as IStreamJobData
+      const apiPrefix =
+        data.apiPrefix || stream.slice(0, stream.lastIndexOf(':'))
+      const query =
+        data.type === IQDB_SEARCH_JOB_TYPE
+          ? this.getImageReference(data)
+          : (data.query ?? '')
+      await addToDLQ(
+        this.redis,
+        isFederatedApiPrefix(apiPrefix) ? FEDERATED_API_PREFIX : apiPrefix,
+        data.jobId || id,
+        `Delivery limit reached (${deliveries} deliveries, last consumer ${consumer})`,
+        query,
+      )
+    }
+    await this.redis.xack(stream, REQUESTS_CONSUMER_GROUP, id)
+    this.logger.warn(
+      `Message ${id} on ${stream} dead-lettered after ${deliveries} deliveries`,
+    )
   }
 
-  async onModuleInit() {
-    // Initialization logic if needed
+  private getPendingIdleMs(): number {
+    return (
+      Number(this.configService.get<number>('STREAM_PENDING_IDLE_MS')) ||
+      PENDING_IDLE_MS
+    )
   }
 
-  async onModuleDestroy() {
-    // Cleanup logic if needed
+  private getMaxDeliveries(): number {
+    return (
+      Number(this.configService.get<number>('STREAM_MAX_DELIVERIES')) ||
+      MAX_STREAM_DELIVERIES
+    )
   }
 
   /**
@@ -74,7 +318,7 @@ export class RedisStreamConsumer
    * @returns Validation result with error if invalid
    */
   private async validateMessage(
-    data: { query: string; clientId?: string; apiPrefix?: string },
+    data: IStreamJobData,
     apiPrefix: string,
     jobId: string,
   ): Promise<IValidationResult> {
@@ -87,7 +331,7 @@ export class RedisStreamConsumer
       if (!validation.valid) {
         const queryHash = crypto
           .createHash('sha256')
-          .update(data.query)
+          .update(data.query ?? '')
           .digest('hex')
           .slice(0, 8)
         this.logger.warn(
@@ -97,7 +341,7 @@ export class RedisStreamConsumer
         return { valid: false, error: validation.error }
       }
 
-      return { valid: true }
+      return { valid: true, dto: validation.dto }
     } catch (error: unknown) {
       const errorMessage =
         error instanceof Error ? error.message : String(error)
@@ -160,6 +404,8 @@ export class RedisStreamConsumer
    * @param query - Query string
    * @param clientId - Optional client identifier
    * @param apiPrefix - API prefix to determine service
+   * @param options - Validated per-request options (limit, page, cursor)
+   * @param jobType - Validated job type ('posts', 'autocomplete', ...)
    * @returns Promise that resolves when processing completes
    */
   private async processJob(
@@ -167,47 +413,30 @@ export class RedisStreamConsumer
     query: string,
     clientId?: string,
     apiPrefix: string = 'danbooru',
+    options: DanbooruRequestOptions = {},
+    jobType: string = POSTS_JOB_TYPE,
   ): Promise<void> {
     try {
-      // Get the appropriate service based on apiPrefix
-      switch (apiPrefix.toLowerCase()) {
-        case 'danbooru': {
-          if (!this.danbooruService) {
-            this.danbooruService = this.moduleRef.get(DanbooruService, {
-              strict: false,
-            })
-          }
-          const apiService = this.danbooruService
-          if (!apiService) {
-            throw new Error(`API service not available for ${apiPrefix}`)
-          }
-
-          // Process the request using the API service
-          const queryHash = crypto
-            .createHash('sha256')
-            .update(query)
-            .digest('hex')
-            .slice(0, 8)
-          this.logger.debug(
-            `Processing ${apiPrefix} job ${jobId} (query hash: ${queryHash})`,
-          )
+      // Get the registered provider for apiPrefix (throws if unknown or disabled)
+      const apiService = this.providerRegistry.getEnabledProvider(apiPrefix)
 
-          await apiService.processRequest(jobId, query, clientId)
+      // Process the request using the API service
+      const queryHash = crypto
+        .createHash('sha256')
+        .update(query)
+        .digest('hex')
+        .slice(0, 8)
+      this.logger.debug(
+        `Processing ${apiPrefix} job ${jobId} (query hash: ${queryHash})`,
+      )
 
-          // Invalidate related caches after successful processing (if service supports it)
-          // Note: Cache invalidation should be handled by the specific API service
-          this.logger.debug(
-            `Cache invalidation responsibility delegated to ${apiPrefix} service for job ${jobId}`,
-          )
-          break
-        }
-        // Add more API services here as they are implemented
-        default: {
-          const errorMsg = `Unsupported API provider: ${apiPrefix}`
-          this.logger.error(errorMsg, jobId)
-          throw new Error(errorMsg)
-        }
-      }
+      await apiService.processJob(jobType, jobId, query, clientId, options)
+
+      // Invalidate related caches after successful processing (if service supports it)
+      // Note: Cache invalidation should be handled by the specific API service
+      this.logger.debug(
+        `Cache invalidation responsibility delegated to ${apiPrefix} service for job ${jobId}`,
+      )
     } catch (error: unknown) {
       const errorMessage =
         error instanceof Error ? error.message : String(error)
@@ -226,14 +455,29 @@ export class RedisStreamConsumer
 
   /**
    * Main job processing method - refactored to use extracted helper methods
-   * Supports multiple APIs via apiPrefix parameter and getStreamName for dynamic streams
+   * Supports multiple APIs via apiPrefix parameter and getStreamName for dynamic streams.
+   * An apiPrefix listing several providers (or '*') is a federated job: it is locked,
+   * deduplicated and answered under the `federated` prefix.
    */
-  async process(
-    job: Job<{ query: string; clientId?: string; apiPrefix?: string }>,
-  ): Promise<IProcessResult> {
-    const jobId = crypto.randomUUID()
-    const data = job.data
-    const { query, clientId, apiPrefix = 'danbooru' } = data
+  async process(message: IStreamMessage): Promise<IProcessResult> {
+    const data = message.data
+    // The client's jobId keys responses and job status; the DTO rejects non-UUIDs later
+    const jobId =
+      data.jobId && isUUID(data.jobId) ? data.jobId : crypto.randomUUID()
+    const { clientId } = data
+    const jobType = data.type || POSTS_JOB_TYPE
+    // Image jobs are locked, deduplicated and dead-lettered by their image reference
+    const query =
+      jobType === IQDB_SEARCH_JOB_TYPE
+        ? this.getImageReference(data)
+        : (data.query ?? '')
+    const federatedPrefix = isFederatedApiPrefix(data.apiPrefix)
+      ? data.apiPrefix
+      : undefined
+    const apiPrefix = federatedPrefix
+      ? FEDERATED_API_PREFIX
+      : data.apiPrefix || 'danbooru'
+    const { target, routeError } = this.resolveResponseTarget(apiPrefix, data)
     const queryHash = crypto
       .createHash('sha256')
       .update(query)
@@ -241,33 +485,58 @@ export class RedisStreamConsumer
       .slice(0, 8)
 
     this.logger.log(
-      `Processing ${apiPrefix} job ${jobId} for query (${query.length} chars, hash: ${queryHash})`,
+      `Processing ${apiPrefix} job ${jobId} (message ${message.id}) for query (${query.length} chars, hash: ${queryHash})`,
       jobId,
     )
 
     // 1. Query-level locking with apiPrefix prefix to prevent cross-API conflicts
-    const fullQueryHash = crypto
-      .createHash('sha256')
-      .update(query)
-      .digest('hex')
-    const lockKey = `lock:query:${apiPrefix}:${fullQueryHash}`
+    // Pages (and limits) of one query are separate requests, resolved as the orchestrator does
+    const fullQueryHash = hashQueryLock(
+      apiPrefix,
+      query,
+      resolvePaging(this.configService, apiPrefix, data),
+    )
+    // Other job types on the same query (e.g. autocomplete) do not contend with searches
+    const lockKey =
+      jobType === POSTS_JOB_TYPE
+        ? `lock:query:${apiPrefix}:${fullQueryHash}`
+        : `lock:query:${apiPrefix}:${jobType}:${fullQueryHash}`
     let lockValue: string | null = null
 
     try {
       // 2. Job-level deduplication as final safeguard
+      // The key holds the message id, so a reclaimed message is not its own duplicate
       const processedKey = `processed:${jobId}`
       const result = await this.redis.set(
         processedKey,
-        '1',
+        message.id,
         'EX',
         DEDUP_TTL_SECONDS,
         'NX',
       )
 
-      if (result !== 'OK') {
+      if (
+        result !== 'OK' &&
+        (await this.redis.get(processedKey)) !== message.id
+      ) {
         this.logger.warn(`Duplicate job ${jobId} detected, skipping`, jobId)
         return { skipped: true, reason: 'job duplicate' }
       }
+      await setJobStatus(this.redis, jobId, 'queued', {
+        apiPrefix,
+        requestStream: message.stream,
+        requestId: message.id,
+      })
+
+      // A replyTo or callbackUrl outside the allowlists is answered, not DLQed
+      if (routeError) {
+        await this.publishResponse(apiPrefix, target, {
+          type: 'error',
+          jobId,
+          error: routeError,
+        })
+        return { success: false, error: routeError }
+      }
 
       // 3. DLQ duplicate check using extracted method
       const hasDlqDuplicate = await this.dedupCheck(apiPrefix, query, jobId)
@@ -277,23 +546,12 @@ export class RedisStreamConsumer
           jobId,
         )
 
-        const responseKey = getStreamName(apiPrefix, 'responses')
-        const errorResponse = JSON.stringify({
+        await this.publishResponse(apiPrefix, target, {
           type: 'error',
           jobId,
           error:
             'Duplicate request detected in recent failures - please try again later',
-          timestamp: Date.now(),
         })
-
-        await this.redis.xadd(
-          responseKey,
-          '*',
-          'jobId',
-          jobId,
-          'data',
-          errorResponse,
-        )
         return { skipped: true, reason: 'DLQ duplicate' }
       }
 
@@ -305,22 +563,11 @@ export class RedisStreamConsumer
           jobId,
         )
 
-        const responseKey = getStreamName(apiPrefix, 'responses')
-        const errorResponse = JSON.stringify({
+        await this.publishResponse(apiPrefix, target, {
           type: 'error',
           jobId,
           error: 'Query currently being processed by another worker',
-          timestamp: Date.now(),
         })
-
-        await this.redis.xadd(
-          responseKey,
-          '*',
-          'jobId',
-          jobId,
-          'data',
-          errorResponse,
-        )
         return { skipped: true, reason: 'lock failed' }
       }
 
@@ -339,15 +586,7 @@ export class RedisStreamConsumer
       )
       if (!validationResult.valid) {
         // Publish validation error response
-        const responseKey = getStreamName(apiPrefix, 'responses')
-        await this.redis.xadd(
-          responseKey,
-          '*',
-          'jobId',
-          jobId,
-          'data',
-          JSON.stringify({ ...validationResult.error, timestamp: Date.now() }),
-        )
+        await this.publishResponse(apiPrefix, target, validationResult.error!)
 
         const hasValidationDlqDuplicate = await this.dedupCheck(
           apiPrefix,
@@ -375,7 +614,44 @@ export class RedisStreamConsumer
       }
 
       // 5. Process job using extracted method
-      await this.processJob(jobId, query, clientId, apiPrefix)
+      const options: DanbooruRequestOptions = {
+        limit: validationResult.dto?.limit,
+        page: validationResult.dto?.page,
+        cursor: validationResult.dto?.cursor,
+        expand: validationResult.dto?.expand,
+        fields: validationResult.dto?.fields,
+        variant: validationResult.dto?.variant,
+        imageUrl: validationResult.dto?.imageUrl,
+        imageData: validationResult.dto?.imageData,
+        ...target,
+      }
+      const validatedJobType = validationResult.dto?.type ?? POSTS_JOB_TYPE
+      await setJobStatus(this.redis, jobId, 'processing', { apiPrefix })
+      if (validatedJobType === JOB_STATUS_JOB_TYPE) {
+        await this.publishJobStatus(apiPrefix, target, jobId, query)
+      } else if (federatedPrefix) {
+        if (validatedJobType !== POSTS_JOB_TYPE) {
+          throw new Error(
+            `Federated search only supports ${POSTS_JOB_TYPE} jobs, got ${validatedJobType}`,
+          )
+        }
+        await this.federatedSearchService.search(
+          jobId,
+          federatedPrefix,
+          query,
+          clientId,
+          options,
+        )
+      } else {
+        await this.processJob(
+          jobId,
+          query,
+          clientId,
+          apiPrefix,
+          options,
+          validatedJobType,
+        )
+      }
 
       this.logger.debug(`${apiPrefix} job ${jobId} processed successfully`)
       return { success: true }
@@ -397,22 +673,11 @@ export class RedisStreamConsumer
       )
 
       // Publish error response
-      const responseKey = getStreamName(apiPrefix, 'responses')
-      const errorResponse = JSON.stringify({
+      await this.publishResponse(apiPrefix, target, {
         type: 'error',
         jobId,
         error: errorMessage,
-        timestamp: Date.now(),
       })
-
-      await this.redis.xadd(
-        responseKey,
-        '*',
-        'jobId',
-        jobId,
-        'data',
-        errorResponse,
-      )
       return { success: false, error: errorMessage }
     } finally {
       // Always release the query lock
@@ -422,6 +687,106 @@ export class RedisStreamConsumer
     }
   }
 
+  /**
+   * Response stream and callbackUrl of a job. If replyTo or callbackUrl is not
+   * allowlisted, routeError says why and target falls back to the default stream
+   * without callback, so the error never reaches an unchecked destination.
+   */
+  private resolveResponseTarget(
+    apiPrefix: string,
+    data: IStreamJobData,
+  ): { target: ResponseTarget; routeError?: string } {
+    const responseStream = resolveResponseStream(
+      this.configService,
+      apiPrefix,
+      data,
+    )
+    let routeError: string | undefined
+    if (!responseStream) {
+      routeError = `replyTo stream not allowed: ${data.replyTo}`
+    } else if (
+      data.callbackUrl &&
+      !isCallbackAllowed(this.configService, data.clientId, data.callbackUrl)
+    ) {
+      routeError = `callbackUrl not allowed for client ${data.clientId ?? '(none)'}`
+    }
+
+    if (routeError) {
+      return {
+        target: {
+          responseStream: resolveResponseStream(this.configService, apiPrefix, {
+            clientId: data.clientId,
+          })!,
+        },
+        routeError,
+      }
+    }
+    return {
+      target: {
+        responseStream: responseStream!,
+        callbackUrl: data.callbackUrl,
+      },
+    }
+  }
+
+  // Publishes a response of the consumer itself (errors, job status) and records it
+  private async publishResponse(
+    apiPrefix: string,
+    target: ResponseTarget,
+    response: {
+      type: string
+      jobId: string
+      error?: string
+      jobType?: string
+      status?: unknown
+    },
+  ): Promise<void> {
+    await addResponse(
+      this.redis,
+      this.configService,
+      target.responseStream ?? getStreamName(apiPrefix, 'responses'),
+      response.jobId,
+      response,
+      target.callbackUrl,
+    )
+    await recordJobResponse(this.redis, apiPrefix, response.jobId, response)
+  }
+
+  /**
+   * Answers a job.status command: the status of the job named in query
+   * @param apiPrefix - Stream prefix the command came in on
+   * @param target - Stream (and callbackUrl) the command is answered on
+   * @param jobId - Job ID of the command itself
+   * @param targetJobId - Job ID to look up
+   */
+  private async publishJobStatus(
+    apiPrefix: string,
+    target: ResponseTarget,
+    jobId: string,
+    targetJobId: string,
+  ): Promise<void> {
+    const status = await getJobStatus(this.redis, targetJobId)
+    await this.publishResponse(
+      apiPrefix,
+      target,
+      status
+        ? { type: 'success', jobId, jobType: JOB_STATUS_JOB_TYPE, status }
+        : { type: 'error', jobId, error: `Job ${targetJobId} not found` },
+    )
+  }
+
+  // Image URL, or a digest of the base64 payload so it never reaches lock keys or the DLQ
+  private getImageReference(data: IStreamJobData): string {
+    if (data.imageUrl) {
+      return data.imageUrl
+    }
+    const digest = crypto
+      .createHash('sha256')
+      .update(data.imageData ?? '')
+      .digest('hex')
+    return `image:sha256:${digest}`
+  }
+
   // Helper method to acquire query lock with retry and exponential backoff using LockUtil
   private async acquireLock(
     lockKey: string,
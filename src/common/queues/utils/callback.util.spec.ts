@@ -0,0 +1,160 @@
+import Redis from 'ioredis'
+import axios, { AxiosError, AxiosResponse } from 'axios'
+import * as crypto from 'crypto'
+import { ConfigService } from '@nestjs/config'
+import { CALLBACK_SIGNATURE_HEADER } from '../../constants'
+import * as dlqUtil from './dlq.util'
+import { deliverCallback, isCallbackAllowed } from './callback.util'
+
+jest.mock('./dlq.util')
+
+const mockWriteDLQEntry = jest.mocked(dlqUtil.writeDLQEntry)
+const mockAddToDLQ = jest.mocked(dlqUtil.addToDLQ)
+
+function httpError(status: number): AxiosError {
+  return new AxiosError(
+    `Request failed with status code ${status}`,
+    undefined,
+    undefined,
+    undefined,
+    { status } as AxiosResponse,
+  )
+}
+
+describe('callback.util', () => {
+  const jobId = '123e4567-e89b-12d3-a456-426614174000'
+  const callbackUrl = 'https://fn.example.com/hooks/booru'
+  const body = JSON.stringify({ type: 'success', jobId })
+  const redis = {} as Redis
+
+  let config: Record<string, string>
+  const configService = {
+    get: jest.fn((key: string) => config[key]),
+  } as unknown as ConfigService
+  let post: jest.SpyInstance
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    config = {
+      CALLBACK_ALLOWLIST_BOT1:
+        'https://fn.example.com/hooks/, http://localhost:8080',
+      CALLBACK_SECRET: 'callback-secret',
+      CALLBACK_BACKOFF_MS: '1',
+    }
+    post = jest.spyOn(axios, 'post').mockResolvedValue({ status: 204 })
+  })
+
+  afterAll(() => {
+    post.mockRestore()
+  })
+
+  it('should allow URLs under an allowlisted origin and path for the client', () => {
+    expect(isCallbackAllowed(configService, 'bot1', callbackUrl)).toBe(true)
+    expect(
+      isCallbackAllowed(configService, 'bot1', 'http://localhost:8080/cb'),
+    ).toBe(true)
+
+    expect(isCallbackAllowed(configService, 'bot2', callbackUrl)).toBe(false)
+    expect(isCallbackAllowed(configService, undefined, callbackUrl)).toBe(false)
+    expect(
+      isCallbackAllowed(
+        configService,
+        'bot1',
+        'https://fn.example.com.evil.net/hooks/booru',
+      ),
+    ).toBe(false)
+    expect(
+      isCallbackAllowed(configService, 'bot1', 'https://fn.example.com/admin'),
+    ).toBe(false)
+  })
+
+  it('should match allowlisted paths on segment boundaries', () => {
+    config.CALLBACK_ALLOWLIST_BOT1 = 'https://fn.example.com/hooks'
+
+    expect(
+      isCallbackAllowed(configService, 'bot1', 'https://fn.example.com/hooks'),
+    ).toBe(true)
+    expect(
+      isCallbackAllowed(
+        configService,
+        'bot1',
+        'https://fn.example.com/hooks/a',
+      ),
+    ).toBe(true)
+    expect(
+      isCallbackAllowed(
+        configService,
+        'bot1',
+        'https://fn.example.com/hooks-evil',
+      ),
+    ).toBe(false)
+    expect(
+      isCallbackAllowed(
+        configService,
+        'bot1',
+        'https://fn.example.com/hooksx/a',
+      ),
+    ).toBe(false)
+  })
+
+  it('should POST the body with its HMAC signature', async () => {
+    await deliverCallback(redis, configService, callbackUrl, jobId, body)
+
+    const signature = crypto
+      .createHmac('sha256', 'callback-secret')
+      .update(body)
+      .digest('hex')
+    expect(post).toHaveBeenCalledTimes(1)
+    expect(post).toHaveBeenCalledWith(
+      callbackUrl,
+      body,
+      expect.objectContaining({
+        headers: expect.objectContaining({
+          [CALLBACK_SIGNATURE_HEADER]: `sha256=${signature}`,
+          'X-Job-Id': jobId,
+        }) as Record<string, string>,
+        maxRedirects: 0,
+      }),
+    )
+    expect(mockWriteDLQEntry).not.toHaveBeenCalled()
+  })
+
+  it('should retry 5xx and network errors with backoff', async () => {
+    post
+      .mockRejectedValueOnce(httpError(503))
+      .mockRejectedValueOnce(new Error('socket hang up'))
+
+    await deliverCallback(redis, configService, callbackUrl, jobId, body)
+
+    expect(post).toHaveBeenCalledTimes(3)
+    expect(mockWriteDLQEntry).not.toHaveBeenCalled()
+  })
+
+  it('should dead-letter callbacks that are never delivered', async () => {
+    config.CALLBACK_MAX_ATTEMPTS = '2'
+    post.mockRejectedValue(httpError(500))
+
+    await deliverCallback(redis, configService, callbackUrl, jobId, body)
+
+    expect(post).toHaveBeenCalledTimes(2)
+    // A succeeded job must not turn dead-lettered because its webhook failed
+    expect(mockAddToDLQ).not.toHaveBeenCalled()
+    expect(mockWriteDLQEntry).toHaveBeenCalledWith(
+      redis,
+      'callbacks',
+      jobId,
+      'Callback delivery failed: Request failed with status code 500',
+      callbackUrl,
+      2,
+    )
+  })
+
+  it('should not retry client errors', async () => {
+    post.mockRejectedValue(httpError(404))
+
+    await deliverCallback(redis, configService, callbackUrl, jobId, body)
+
+    expect(post).toHaveBeenCalledTimes(1)
+    expect(mockWriteDLQEntry).toHaveBeenCalledTimes(1)
+  })
+})
@@ -0,0 +1,153 @@
+import Redis from 'ioredis'
+import axios from 'axios'
+import * as crypto from 'crypto'
+import { Logger } from '@nestjs/common'
+import { ConfigService } from '@nestjs/config'
+import {
+  CALLBACK_BACKOFF_MS,
+  CALLBACK_DLQ_PREFIX,
+  CALLBACK_MAX_ATTEMPTS,
+  CALLBACK_SIGNATURE_HEADER,
+  CALLBACK_TIMEOUT_MS,
+  MAX_BACKOFF_MS,
+} from '../../constants'
+import { writeDLQEntry } from './dlq.util'
+
+const logger = new Logger('CallbackUtil')
+
+/**
+ * Whether a client may receive callbacks at url: CALLBACK_ALLOWLIST_{CLIENTID} lists
+ * comma-separated URL prefixes, matched on the same origin and a path-segment prefix.
+ * Requests without clientId cannot use callbacks.
+ * @param configService - Reads CALLBACK_ALLOWLIST_{CLIENTID}
+ * @param clientId - Client of the request
+ * @param callbackUrl - Requested callback URL
+ */
+export function isCallbackAllowed(
+  configService: ConfigService,
+  clientId: string | undefined,
+  callbackUrl: string,
+): boolean {
+  const url = parseUrl(callbackUrl)
+  if (!clientId || !url) {
+    return false
+  }
+
+  const allowlist = String(
+    configService.get(`CALLBACK_ALLOWLIST_${clientId.toUpperCase()}`) ?? '',
+  )
+  return allowlist.split(',').some(entry => {
+    const allowed = parseUrl(entry.trim())
+    return (
+      allowed !== null &&
+      url.origin === allowed.origin &&
+      isUnderPath(url.pathname, allowed.pathname)
+    )
+  })
+}
+
+// Path-segment prefix: /hooks allows /hooks and /hooks/x, not /hooks-evil
+function isUnderPath(pathname: string, prefix: string): boolean {
+  const base = prefix.endsWith('/') ? prefix : `${prefix}/`
+  return pathname === prefix || pathname.startsWith(base)
+}
+
+/**
+ * POSTs a published response to its callbackUrl, signed with CALLBACK_SECRET
+ * (fallback API_SECRET) in the CALLBACK_SIGNATURE_HEADER. Retries timeouts, 408,
+ * 429 and 5xx with exponential backoff; a callback still undelivered goes to
+ * `callbacks-dlq`, leaving the job status as is. Never throws, so callers can fire and forget.
+ * @param redis - Redis client, for the DLQ
+ * @param configService - Reads the secret, CALLBACK_MAX_ATTEMPTS and CALLBACK_BACKOFF_MS
+ * @param callbackUrl - Allowlisted callback URL
+ * @param jobId - Job ID, also sent as X-Job-Id
+ * @param body - Serialized response, exactly as published to the stream
+ */
+export async function deliverCallback(
+  redis: Redis,
+  configService: ConfigService,
+  callbackUrl: string,
+  jobId: string,
+  body: string,
+): Promise<void> {
+  const secret =
+    configService.get<string>('CALLBACK_SECRET') ??
+    configService.get<string>('API_SECRET') ??
+    ''
+  const signature = crypto
+    .createHmac('sha256', secret)
+    .update(body)
+    .digest('hex')
+  const maxAttempts =
+    Number(configService.get<number>('CALLBACK_MAX_ATTEMPTS')) ||
+    CALLBACK_MAX_ATTEMPTS
+  const backoffMs =
+    Number(configService.get<number>('CALLBACK_BACKOFF_MS')) ||
+    CALLBACK_BACKOFF_MS
+
+  let lastError = ''
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    try {
+      await axios.post(callbackUrl, body, {
+        headers: {
+          'Content-Type': 'application/json',
+          [CALLBACK_SIGNATURE_HEADER]: `sha256=${signature}`,
+          'X-Job-Id': jobId,
+        },
+        timeout: CALLBACK_TIMEOUT_MS,
+        maxRedirects: 0, // A redirect could leave the allowlisted origin
+      })
+      logger.log(`Delivered callback for job ${jobId} (attempt ${attempt})`)
+      return
+    } catch (error: unknown) {
+      lastError = error instanceof Error ? error.message : String(error)
+      if (!isRetryable(error)) {
+        break
+      }
+      if (attempt < maxAttempts) {
+        const delay = Math.min(backoffMs * 2 ** (attempt - 1), MAX_BACKOFF_MS)
+        logger.warn(
+          `Callback for job ${jobId} failed (attempt ${attempt}/${maxAttempts}): ${lastError}, retrying in ${delay}ms`,
+        )
+        await new Promise(resolve => setTimeout(resolve, delay))
+      }
+    }
+  }
+
+  const errorMessage = `Callback delivery failed: ${lastError}`
+  logger.error(`${errorMessage} for job ${jobId}`)
+  try {
+    // The callback URL takes the place of the query, so it is stored encrypted.
+    // The job keeps its state: it was answered, only the webhook failed
+    await writeDLQEntry(
+      redis,
+      CALLBACK_DLQ_PREFIX,
+      jobId,
+      errorMessage,
+      callbackUrl,
+      maxAttempts,
+    )
+  } catch (error: unknown) {
+    logger.error(
+      `Failed to dead-letter callback for job ${jobId}: ${error instanceof Error ? error.message : String(error)}`,
+    )
+  }
+}
+
+// Network errors, timeouts, 408, 429 and 5xx; other 4xx will not change on retry
+function isRetryable(error: unknown): boolean {
+  if (!axios.isAxiosError(error) || !error.response) {
+    return true
+  }
+  const { status } = error.response
+  return status === 408 || status === 429 || status >= 500
+}
+
+function parseUrl(value: string): URL | null {
+  try {
+    const url = new URL(value)
+    return url.protocol === 'https:' || url.protocol === 'http:' ? url : null
+  } catch {
+    return null
+  }
+}
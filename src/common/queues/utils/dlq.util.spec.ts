@@ -0,0 +1,98 @@
+import Redis from 'ioredis'
+import { MAX_DLQ_RETRIES } from '../../constants'
+import * as jobStatusUtil from './job-status.util'
+import { getDLQStream, retryFromDLQ } from './dlq.util'
+
+jest.mock('./job-status.util', () => ({
+  ...jest.requireActual<typeof jobStatusUtil>('./job-status.util'),
+  setJobStatus: jest.fn(),
+}))
+
+const mockSetJobStatus = jest.mocked(jobStatusUtil.setJobStatus)
+
+describe('dlq.util', () => {
+  const jobId = '123e4567-e89b-12d3-a456-426614174000'
+  const request = ['jobId', jobId, 'query', 'cat', 'apiKey', 'signature']
+
+  let redis: Record<string, jest.Mock>
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    redis = {
+      hmget: jest.fn().mockResolvedValue(['danbooru:requests', '5-0', null]),
+      xrange: jest.fn().mockResolvedValue([['5-0', request]]),
+      xdel: jest.fn().mockResolvedValue(1),
+      del: jest.fn().mockResolvedValue(2),
+      xadd: jest.fn().mockResolvedValue('6-0'),
+    }
+  })
+
+  it('should name DLQ streams {apiName}-dlq', () => {
+    expect(getDLQStream('danbooru')).toBe('danbooru-dlq')
+    expect(getDLQStream('federated')).toBe('federated-dlq')
+  })
+
+  it('should re-add the original request message with its replay guards cleared', async () => {
+    const result = await retryFromDLQ(
+      redis as unknown as Redis,
+      'danbooru',
+      jobId,
+      0,
+      '9-0',
+    )
+
+    expect(result).toEqual({ success: true })
+    expect(redis.hmget).toHaveBeenCalledWith(
+      `job:${jobId}`,
+      'requestStream',
+      'requestId',
+      'retryCount',
+    )
+    expect(redis.xrange).toHaveBeenCalledWith('danbooru:requests', '5-0', '5-0')
+    expect(redis.xdel).toHaveBeenCalledWith('danbooru-dlq', '9-0')
+    expect(redis.del).toHaveBeenCalledWith(
+      `processed:${jobId}`,
+      `dedup:job:${jobId}`,
+    )
+    expect(mockSetJobStatus).toHaveBeenCalledWith(redis, jobId, 'queued', {
+      retryCount: 1,
+    })
+    expect(redis.xadd).toHaveBeenCalledWith(
+      'danbooru:requests',
+      '*',
+      ...request,
+    )
+  })
+
+  it('should count retries recorded on the job, not only on the entry', async () => {
+    redis.hmget.mockResolvedValue([
+      'danbooru:requests',
+      '5-0',
+      `${MAX_DLQ_RETRIES}`,
+    ])
+
+    await expect(
+      retryFromDLQ(redis as unknown as Redis, 'danbooru', jobId, 0, '9-0'),
+    ).resolves.toEqual({ success: false, error: 'Max retries exceeded' })
+    expect(redis.xadd).not.toHaveBeenCalled()
+  })
+
+  it('should not retry jobs without a request message', async () => {
+    redis.hmget.mockResolvedValue([null, null, null])
+
+    await expect(
+      retryFromDLQ(redis as unknown as Redis, 'danbooru', jobId, 0, '9-0'),
+    ).resolves.toEqual({ success: false, error: 'Original request not found' })
+
+    redis.hmget.mockResolvedValue(['danbooru:requests', '5-0', null])
+    redis.xrange.mockResolvedValue([])
+    await expect(
+      retryFromDLQ(redis as unknown as Redis, 'danbooru', jobId, 0, '9-0'),
+    ).resolves.toEqual({
+      success: false,
+      error: 'Original request no longer in stream',
+    })
+    expect(redis.xdel).not.toHaveBeenCalled()
+    expect(redis.xadd).not.toHaveBeenCalled()
+  })
+})
@@ -1,12 +1,11 @@
 import Redis from 'ioredis'
-import {
-  DLQ_DEDUP_WINDOW_SECONDS,
-  REQUESTS_STREAM,
-  MAX_DLQ_RETRIES,
-} from '../../constants'
-import { encrypt, decrypt } from '../../crypto/crypto.util'
+import { DLQ_DEDUP_WINDOW_SECONDS, MAX_DLQ_RETRIES } from '../../constants'
+import { encrypt } from '../../crypto/crypto.util'
 import * as crypto from 'crypto'
 import { Logger } from '@nestjs/common'
+import { canonicalizeQuery } from '../../query/utils/query-canonicalizer.util'
+import { getJobStatusKey, setJobStatus } from './job-status.util'
+import { parseStreamFields } from './stream-group.util'
 
 const logger = new Logger('DLQUtil')
 
@@ -47,6 +46,29 @@ const logger = new Logger('DLQUtil')
  * high throughput and precise failure detection.
  */
 
+/**
+ * Query hash stored in DLQ entries: sha256 of the canonical query, so
+ * `cat_ears 1girl` and `1girl Cat_Ears` count as the same failed query.
+ */
+export function hashQuery(plaintextQuery: string): string {
+  return crypto
+    .createHash('sha256')
+    .update(canonicalizeQuery(plaintextQuery))
+    .digest('hex')
+}
+
+/**
+ * DLQ stream written by addToDLQ and read by the DLQ consumer
+ * @returns `{apiName}-dlq`, e.g. `danbooru-dlq`
+ */
+export function getDLQStream(apiName: string): string {
+  return `${apiName}-dlq`
+}
+
+/**
+ * Dead-letters a failed job and marks it `dead-lettered`
+ * @param plaintextQuery - Query of the job, stored encrypted
+ */
 export async function addToDLQ(
   redis: Redis,
   apiName: string,
@@ -55,6 +77,35 @@ export async function addToDLQ(
   plaintextQuery: string,
   retryCount = 0,
   encryptionKey?: string,
+): Promise<void> {
+  await writeDLQEntry(
+    redis,
+    apiName,
+    jobId,
+    errorMessage,
+    plaintextQuery,
+    retryCount,
+    encryptionKey,
+  )
+  await setJobStatus(redis, jobId, 'dead-lettered', {
+    apiPrefix: apiName,
+    error: errorMessage,
+  })
+}
+
+/**
+ * XADDs a DLQ entry without touching the job status, for failures that
+ * happen after the job itself was answered (e.g. webhook delivery)
+ * @param plaintextQuery - Query (or other payload) of the entry, stored encrypted
+ */
+export async function writeDLQEntry(
+  redis: Redis,
+  apiName: string,
+  jobId: string,
+  errorMessage: string,
+  plaintextQuery: string,
+  retryCount = 0,
+  encryptionKey?: string,
 ): Promise<void> {
   const encryptionKeyFinal = encryptionKey || process.env.ENCRYPTION_KEY
   if (!encryptionKeyFinal) {
@@ -62,12 +113,9 @@ export async function addToDLQ(
   }
 
   const encryptedQuery = encrypt(plaintextQuery, encryptionKeyFinal)
-  const queryHash = crypto
-    .createHash('sha256')
-    .update(plaintextQuery)
-    .digest('hex')
+  const queryHash = hashQuery(plaintextQuery)
 
-  const dlqStream = `${apiName}-dlq`
+  const dlqStream = getDLQStream(apiName)
   await redis.xadd(
     dlqStream,
     '*',
@@ -94,12 +142,9 @@ export async function dedupCheck(
   plaintextQuery: string,
   jobId: string,
 ): Promise<boolean> {
-  const queryHash = crypto
-    .createHash('sha256')
-    .update(plaintextQuery)
-    .digest('hex')
+  const queryHash = hashQuery(plaintextQuery)
 
-  const dlqStream = `${apiName}-dlq`
+  const dlqStream = getDLQStream(apiName)
   const windowMs = DLQ_DEDUP_WINDOW_SECONDS * 1000
   const now = Date.now()
   const startId = (now - windowMs - 1).toString() // XRANGE start: window ago minus 1ms for full coverage
@@ -125,8 +170,7 @@ export async function dedupCheck(
     }
 
     for (const [, fields] of entries) {
-      const entryQueryHash = fields.find(f => f[0] === 'queryHash')?.[1]
-      if (entryQueryHash === queryHash) {
+      if (parseStreamFields(fields).queryHash === queryHash) {
         logger.log(
           `DLQ query hash duplicate found: ${queryHash.slice(0, 16)}... within window`,
         )
@@ -161,10 +205,7 @@ export async function moveToDeadQueue(
   }
 
   const encryptedQuery = encrypt(plaintextQuery, encryptionKeyFinal)
-  const queryHash = crypto
-    .createHash('sha256')
-    .update(plaintextQuery)
-    .digest('hex')
+  const queryHash = hashQuery(plaintextQuery)
 
   const deadQueueStream = `${apiName}-dead`
   await redis.xadd(
@@ -185,109 +226,58 @@ export async function moveToDeadQueue(
     'apiName',
     apiName,
   )
+  await setJobStatus(redis, jobId, 'dead-lettered', {
+    apiPrefix: apiName,
+    error: finalError || errorMessage,
+  })
 }
 
+/**
+ * Re-queues a dead-lettered job: the original request message, located via the
+ * job hash, is added again to the stream it was read from, so it is validated
+ * and answered like the first time. Jobs that did not come from a request
+ * stream (HTTP gateway) or whose message was trimmed cannot be retried.
+ * @param redis - Redis client
+ * @param apiName - DLQ the entry was read from
+ * @param jobId - Job ID
+ * @param retryCount - retryCount of the DLQ entry
+ * @param streamId - DLQ entry id, deleted before the message is re-added
+ * @returns success, or why the job cannot be retried
+ */
 export async function retryFromDLQ(
   redis: Redis,
   apiName: string,
   jobId: string,
-  plaintextQuery: string,
   retryCount: number,
   streamId: string,
-  encryptionKey?: string,
 ): Promise<{ success: boolean; error?: string }> {
-  const encryptionKeyFinal = encryptionKey || process.env.ENCRYPTION_KEY
-  if (!encryptionKeyFinal) {
-    return { success: false, error: 'ENCRYPTION_KEY is required for retry' }
-  }
-
-  if (retryCount >= MAX_DLQ_RETRIES) {
-    return { success: false, error: 'Max retries exceeded' }
-  }
-
-  const dlqStream = `${apiName}-dlq`
   try {
-    // Get DLQ entry to extract metadata
-    const entry = await redis.xrange(dlqStream, streamId, streamId, 'COUNT', 1)
-    if (!entry || !entry.length) {
-      return { success: false, error: 'DLQ entry not found' }
-    }
-
-    const [, fields] = entry[0]
-    const entryApiName = fields.find(f => f[0] === 'apiName')?.[1] || apiName
-    const storedEncryptedQuery = fields.find(
-      f => f[0] === 'encryptedQuery',
-    )?.[1]
-    const storedQueryHash = fields.find(f => f[0] === 'queryHash')?.[1]
-
-    if (!storedEncryptedQuery) {
-      return { success: false, error: 'No encrypted query found in DLQ entry' }
-    }
-
-    // Decrypt the query from DLQ
-    let decryptedQuery: string
-    try {
-      decryptedQuery = decrypt(storedEncryptedQuery, encryptionKeyFinal)
-    } catch (decryptError: unknown) {
-      const decryptErrorMessage =
-        decryptError instanceof Error ? decryptError.message : 'Unknown error'
-      logger.error(
-        `Failed to decrypt DLQ entry for job ${jobId}: ${decryptErrorMessage}`,
-        decryptError instanceof Error ? decryptError.stack : undefined,
-      )
-      return { success: false, error: 'Failed to decrypt DLQ entry' }
+    // Failures after a retry are dead-lettered with retryCount 0, the job hash keeps the count
+    const [requestStream, requestId, storedRetryCount] = await redis.hmget(
+      getJobStatusKey(jobId),
+      'requestStream',
+      'requestId',
+      'retryCount',
+    )
+    const attempts = Math.max(retryCount, Number(storedRetryCount) || 0)
+    if (attempts >= MAX_DLQ_RETRIES) {
+      return { success: false, error: 'Max retries exceeded' }
     }
-
-    // Verify query integrity via hash (optional security check)
-    const decryptedHash = crypto
-      .createHash('sha256')
-      .update(decryptedQuery)
-      .digest('hex')
-    if (storedQueryHash !== decryptedHash) {
-      logger.error(`Query hash mismatch in DLQ retry for job ${jobId}`)
-      return { success: false, error: 'Query integrity check failed' }
+    if (!requestStream || !requestId) {
+      return { success: false, error: 'Original request not found' }
     }
 
-    // Use decrypted query for deduplication check
-    const isDuplicate = await dedupCheck(
-      redis,
-      entryApiName,
-      decryptedQuery,
-      jobId,
-    )
-    if (isDuplicate) {
-      logger.log(`Skipping retry for duplicate job ${jobId}`)
-      return { success: false, error: 'Duplicate job detected during retry' }
+    const [entry] = await redis.xrange(requestStream, requestId, requestId)
+    if (!entry) {
+      return { success: false, error: 'Original request no longer in stream' }
     }
 
-    // Reconstruct original message for REQUESTS_STREAM with backoff (encrypt query)
-    const newRetryCount = retryCount + 1
-    const backoffDelay = Math.min(1000 * Math.pow(2, newRetryCount), 60000)
-    const encryptedQueryForStream = encrypt(decryptedQuery, encryptionKeyFinal)
-    const queryHashForStream = crypto
-      .createHash('sha256')
-      .update(decryptedQuery)
-      .digest('hex')
-
-    await redis.xadd(
-      REQUESTS_STREAM,
-      '*',
-      'jobId',
-      jobId,
-      'encryptedQuery',
-      encryptedQueryForStream,
-      'queryHash',
-      queryHashForStream,
-      'apiName',
-      entryApiName,
-      'retryCount',
-      newRetryCount.toString(),
-      'backoffDelay',
-      backoffDelay.toString(),
-    )
-
-    // Delete from DLQ after successful XADD
-    await redis.xdel(dlqStream, streamId)
+    // The consumer's dedup check would match this entry's query hash
+    await redis.xdel(getDLQStream(apiName), streamId)
+    // Without the replay guards the re-added message is not skipped as a duplicate
+    await redis.del(`processed:${jobId}`, `dedup:job:${jobId}`)
+    await setJobStatus(redis, jobId, 'queued', { retryCount: attempts + 1 })
+    await redis.xadd(requestStream, '*', ...entry[1])
 
     return { success: true }
   } catch (err: unknown) {
@@ -0,0 +1,129 @@
+import Redis from 'ioredis'
+import { JOB_STATUS_TTL_SECONDS } from '../../constants'
+import {
+  getJobStatus,
+  getJobStatusKey,
+  recordJobResponse,
+  setJobStatus,
+} from './job-status.util'
+
+describe('job-status.util', () => {
+  const jobId = '123e4567-e89b-12d3-a456-426614174000'
+  const key = `job:${jobId}`
+
+  let transaction: Record<string, jest.Mock>
+  let redis: { multi: jest.Mock; hgetall: jest.Mock }
+
+  beforeEach(() => {
+    transaction = {
+      hsetnx: jest.fn(),
+      hset: jest.fn(),
+      hdel: jest.fn(),
+      expire: jest.fn(),
+      exec: jest.fn().mockResolvedValue([]),
+    }
+    for (const command of ['hsetnx', 'hset', 'hdel', 'expire']) {
+      transaction[command].mockReturnValue(transaction)
+    }
+    redis = {
+      multi: jest.fn().mockReturnValue(transaction),
+      hgetall: jest.fn().mockResolvedValue({}),
+    }
+  })
+
+  it('should key statuses by jobId', () => {
+    expect(getJobStatusKey(jobId)).toBe(key)
+  })
+
+  it('should write the state, keep createdAt and refresh the TTL', async () => {
+    await setJobStatus(redis as unknown as Redis, jobId, 'queued', {
+      apiPrefix: 'danbooru',
+    })
+
+    expect(transaction.hsetnx).toHaveBeenCalledWith(
+      key,
+      'createdAt',
+      expect.any(String),
+    )
+    expect(transaction.hset).toHaveBeenCalledWith(key, {
+      state: 'queued',
+      updatedAt: expect.any(String) as string,
+      apiPrefix: 'danbooru',
+    })
+    expect(transaction.hdel).not.toHaveBeenCalled()
+    expect(transaction.expire).toHaveBeenCalledWith(key, JOB_STATUS_TTL_SECONDS)
+  })
+
+  it('should store responses and clear earlier errors on success', async () => {
+    const response = { type: 'success', jobId, posts: [] }
+
+    await recordJobResponse(
+      redis as unknown as Redis,
+      'danbooru',
+      jobId,
+      response,
+    )
+
+    expect(transaction.hset).toHaveBeenCalledWith(
+      key,
+      expect.objectContaining({
+        state: 'succeeded',
+        response: JSON.stringify(response),
+      }),
+    )
+    expect(transaction.hdel).toHaveBeenCalledWith(key, 'error')
+  })
+
+  it('should record error responses as failed', async () => {
+    await recordJobResponse(redis as unknown as Redis, 'danbooru', jobId, {
+      type: 'error',
+      error: 'Danbooru API error: 500',
+    })
+
+    expect(transaction.hset).toHaveBeenCalledWith(
+      key,
+      expect.objectContaining({
+        state: 'failed',
+        error: 'Danbooru API error: 500',
+      }),
+    )
+  })
+
+  it('should swallow write failures', async () => {
+    transaction.exec.mockRejectedValue(new Error('Connection lost'))
+
+    await expect(
+      setJobStatus(redis as unknown as Redis, jobId, 'processing'),
+    ).resolves.toBeUndefined()
+  })
+
+  it('should read statuses back with the parsed response', async () => {
+    redis.hgetall.mockResolvedValue({
+      state: 'failed',
+      apiPrefix: 'danbooru',
+      error: 'Post not found',
+      response: '{"type":"error"}',
+      createdAt: '1',
+      updatedAt: '2',
+    })
+
+    await expect(
+      getJobStatus(redis as unknown as Redis, jobId),
+    ).resolves.toEqual({
+      jobId,
+      state: 'failed',
+      apiPrefix: 'danbooru',
+      error: 'Post not found',
+      response: { type: 'error' },
+      createdAt: 1,
+      updatedAt: 2,
+    })
+    expect(redis.hgetall).toHaveBeenCalledWith(key)
+  })
+
+  it('should return null for unknown or expired jobs', async () => {
+    await expect(
+      getJobStatus(redis as unknown as Redis, jobId),
+    ).resolves.toBeNull()
+  })
+})
@@ -0,0 +1,119 @@
+import Redis from 'ioredis'
+import { Logger } from '@nestjs/common'
+import {
+  JOB_STATES,
+  JOB_STATUS_PREFIX,
+  JOB_STATUS_TTL_SECONDS,
+  JobState,
+} from '../../constants'
+import type {
+  JobStatus,
+  JobStatusDetails,
+} from '../interfaces/job-status.interface'
+
+const logger = new Logger('JobStatusUtil')
+
+export function getJobStatusKey(jobId: string): string {
+  return `${JOB_STATUS_PREFIX}:${jobId}`
+}
+
+/**
+ * Records a lifecycle transition in the job hash and refreshes its TTL.
+ * Never throws: a status write must not fail the job it describes.
+ * @param redis - Redis client
+ * @param jobId - Job ID
+ * @param state - New state
+ * @param details - apiPrefix, error message, the published response and/or DLQ retry metadata
+ */
+export async function setJobStatus(
+  redis: Redis,
+  jobId: string,
+  state: JobState,
+  details: JobStatusDetails = {},
+): Promise<void> {
+  const key = getJobStatusKey(jobId)
+  const now = Date.now().toString()
+  const fields: Record<string, string> = { state, updatedAt: now }
+  if (details.apiPrefix) {
+    fields.apiPrefix = details.apiPrefix
+  }
+  if (details.error) {
+    fields.error = details.error
+  }
+  if (details.response !== undefined) {
+    fields.response = JSON.stringify(details.response)
+  }
+  if (details.requestStream && details.requestId) {
+    fields.requestStream = details.requestStream
+    fields.requestId = details.requestId
+  }
+  if (details.retryCount !== undefined) {
+    fields.retryCount = details.retryCount.toString()
+  }
+
+  try {
+    const transaction = redis
+      .multi()
+      .hsetnx(key, 'createdAt', now)
+      .hset(key, fields)
+    if (state === 'succeeded') {
+      // A DLQ retry that succeeds clears the earlier failure
+      transaction.hdel(key, 'error')
+    }
+    await transaction.expire(key, JOB_STATUS_TTL_SECONDS).exec()
+  } catch (error: unknown) {
+    logger.warn(
+      `Failed to record state ${state} for job ${jobId}: ${error instanceof Error ? error.message : String(error)}`,
+    )
+  }
+}
+
+/**
+ * Records a published response: `succeeded` for success, `failed` for error responses.
+ * @param redis - Redis client
+ * @param apiPrefix - Provider (or `federated`) that answered
+ * @param jobId - Job ID
+ * @param response - Published response, `type` decides the state
+ */
+export async function recordJobResponse(
+  redis: Redis,
+  apiPrefix: string,
+  jobId: string,
+  response: { type: string; error?: string },
+): Promise<void> {
+  await setJobStatus(
+    redis,
+    jobId,
+    response.type === 'error' ? 'failed' : 'succeeded',
+    { apiPrefix, error: response.error, response },
+  )
+}
+
+/**
+ * Reads a job's lifecycle record
+ * @param redis - Redis client
+ * @param jobId - Job ID
+ * @returns Status, or null if unknown or expired
+ */
+export async function getJobStatus(
+  redis: Redis,
+  jobId: string,
+): Promise<JobStatus | null> {
+  const fields = await redis.hgetall(getJobStatusKey(jobId))
+  const state = fields.state as JobState | undefined
+  if (!state || !JOB_STATES.includes(state)) {
+    return null
+  }
+
+  return {
+    jobId,
+    state,
+    ...(fields.apiPrefix ? { apiPrefix: fields.apiPrefix } : {}),
+    ...(fields.error ? { error: fields.error } : {}),
+    ...(fields.response
+      ? { response: JSON.parse(fields.response) as unknown }
+      : {}),
+    createdAt: Number(fields.createdAt) || Number(fields.updatedAt),
+    updatedAt: Number(fields.updatedAt),
+  }
+}
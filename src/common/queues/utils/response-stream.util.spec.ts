@@ -0,0 +1,129 @@
+import Redis from 'ioredis'
+import { ConfigService } from '@nestjs/config'
+import { RESPONSE_STREAM_MAXLEN } from '../../constants'
+import { addResponse, resolveResponseStream } from './response-stream.util'
+import * as callbackUtil from './callback.util'
+
+jest.mock('./callback.util')
+
+const mockDeliverCallback = jest.mocked(callbackUtil.deliverCallback)
+
+describe('response-stream.util', () => {
+  let config: Record<string, string>
+  const configService = {
+    get: jest.fn((key: string) => config[key]),
+  } as unknown as ConfigService
+
+  beforeEach(() => {
+    config = {}
+  })
+
+  it('should route to the shared stream unless per-client streams are enabled', () => {
+    expect(
+      resolveResponseStream(configService, 'danbooru', { clientId: 'bot1' }),
+    ).toBe('danbooru:responses')
+
+    config.RESPONSE_STREAM_PER_CLIENT = 'true'
+    expect(
+      resolveResponseStream(configService, 'danbooru', { clientId: 'bot1' }),
+    ).toBe('danbooru:responses:bot1')
+    expect(resolveResponseStream(configService, 'federated', {})).toBe(
+      'federated:responses',
+    )
+  })
+
+  it('should only accept allowlisted replyTo streams', () => {
+    config.RESPONSE_STREAM_ALLOWLIST = 'bot1:inbox, lambda:*'
+
+    expect(
+      resolveResponseStream(configService, 'danbooru', {
+        clientId: 'bot1',
+        replyTo: 'bot1:inbox',
+      }),
+    ).toBe('bot1:inbox')
+    expect(
+      resolveResponseStream(configService, 'danbooru', {
+        replyTo: 'lambda:resize',
+      }),
+    ).toBe('lambda:resize')
+    expect(
+      resolveResponseStream(configService, 'danbooru', {
+        replyTo: 'danbooru:requests',
+      }),
+    ).toBeNull()
+
+    config.RESPONSE_STREAM_ALLOWLIST = ''
+    expect(
+      resolveResponseStream(configService, 'danbooru', {
+        replyTo: 'bot1:inbox',
+      }),
+    ).toBeNull()
+  })
+
+  it('should trim response streams with MAXLEN ~', async () => {
+    const redis = { xadd: jest.fn().mockResolvedValue('1-0') }
+
+    await addResponse(
+      redis as unknown as Redis,
+      configService,
+      'danbooru:responses:bot1',
+      'job-1',
+      { type: 'success' },
+    )
+    config.RESPONSE_STREAM_MAXLEN = '50'
+    await addResponse(
+      redis as unknown as Redis,
+      configService,
+      'danbooru:responses',
+      'job-2',
+      { type: 'success' },
+    )
+
+    expect(redis.xadd).toHaveBeenNthCalledWith(
+      1,
+      'danbooru:responses:bot1',
+      'MAXLEN',
+      '~',
+      RESPONSE_STREAM_MAXLEN,
+      '*',
+      'jobId',
+      'job-1',
+      'data',
+      expect.stringContaining('"type":"success"'),
+    )
+    expect(redis.xadd).toHaveBeenNthCalledWith(
+      2,
+      'danbooru:responses',
+      'MAXLEN',
+      '~',
+      50,
+      '*',
+      'jobId',
+      'job-2',
+      'data',
+      expect.any(String),
+    )
+  })
+
+  it('should hand the published payload to the callback', async () => {
+    const redis = { xadd: jest.fn().mockResolvedValue('1-0') }
+
+    await addResponse(
+      redis as unknown as Redis,
+      configService,
+      'danbooru:responses:bot1',
+      'job-1',
+      { type: 'success' },
+      'https://fn.example.com/hook',
+    )
+
+    const [payload] = (redis.xadd.mock.calls[0] as string[]).slice(-1)
+    expect(mockDeliverCallback).toHaveBeenCalledWith(
+      redis,
+      configService,
+      'https://fn.example.com/hook',
+      'job-1',
+      payload,
+    )
+  })
+})
@@ -0,0 +1,92 @@
+import Redis from 'ioredis'
+import { ConfigService } from '@nestjs/config'
+import { RESPONSE_STREAM_MAXLEN, getStreamName } from '../../constants'
+import { deliverCallback } from './callback.util'
+
+export interface ResponseRoute {
+  clientId?: string
+  replyTo?: string // Stream named by the request, must be allowlisted
+}
+
+/**
+ * Stream a job's responses go to: `replyTo` if allowlisted, else the client's own
+ * `{apiPrefix}:responses:{clientId}` when RESPONSE_STREAM_PER_CLIENT=true (opt-in,
+ * clients must read the new stream), else the shared `{apiPrefix}:responses`.
+ * @param configService - Reads RESPONSE_STREAM_PER_CLIENT and RESPONSE_STREAM_ALLOWLIST
+ * @param apiPrefix - Provider prefix, or `federated`
+ * @param route - clientId and replyTo of the request
+ * @returns Stream name, or null if replyTo is not allowlisted
+ */
+export function resolveResponseStream(
+  configService: ConfigService,
+  apiPrefix: string,
+  route: ResponseRoute,
+): string | null {
+  if (route.replyTo) {
+    return isReplyToAllowed(configService, route.replyTo) ? route.replyTo : null
+  }
+
+  const sharedStream = getStreamName(apiPrefix, 'responses')
+  const perClient =
+    String(configService.get('RESPONSE_STREAM_PER_CLIENT') ?? 'false') ===
+    'true'
+  return perClient && route.clientId
+    ? `${sharedStream}:${route.clientId}`
+    : sharedStream
+}
+
+// Comma-separated stream names; an entry ending in `*` allows every stream with that prefix
+function isReplyToAllowed(
+  configService: ConfigService,
+  replyTo: string,
+): boolean {
+  const allowlist = String(configService.get('RESPONSE_STREAM_ALLOWLIST') ?? '')
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean)
+  return allowlist.some(entry =>
+    entry.endsWith('*')
+      ? replyTo.startsWith(entry.slice(0, -1))
+      : replyTo === entry,
+  )
+}
+
+/**
+ * XADDs a response, trimming the stream to about RESPONSE_STREAM_MAXLEN entries,
+ * and starts webhook delivery of the same payload if the job has a callbackUrl
+ * @param redis - Redis client
+ * @param configService - Reads RESPONSE_STREAM_MAXLEN
+ * @param stream - Response stream
+ * @param jobId - Job ID
+ * @param data - Response, serialized with a timestamp
+ * @param callbackUrl - Allowlisted webhook of the job
+ */
+export async function addResponse(
+  redis: Redis,
+  configService: ConfigService,
+  stream: string,
+  jobId: string,
+  data: object,
+  callbackUrl?: string,
+): Promise<void> {
+  const maxLen =
+    Number(configService.get<number>('RESPONSE_STREAM_MAXLEN')) ||
+    RESPONSE_STREAM_MAXLEN
+  const payload = JSON.stringify({ ...data, timestamp: Date.now() })
+  await redis.xadd(
+    stream,
+    'MAXLEN',
+    '~',
+    maxLen,
+    '*',
+    'jobId',
+    jobId,
+    'data',
+    payload,
+  )
+
+  if (callbackUrl) {
+    // Retries back off for up to a minute, so delivery does not hold up the job
+    void deliverCallback(redis, configService, callbackUrl, jobId, payload)
+  }
+}
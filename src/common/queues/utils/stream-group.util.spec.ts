@@ -0,0 +1,48 @@
+import Redis from 'ioredis'
+import * as os from 'os'
+import {
+  ensureConsumerGroup,
+  getConsumerName,
+  parseStreamFields,
+} from './stream-group.util'
+
+describe('stream-group.util', () => {
+  it('should name consumers after the host and process', () => {
+    expect(getConsumerName()).toBe(`${os.hostname()}-${process.pid}`)
+  })
+
+  it('should create the group with MKSTREAM and ignore BUSYGROUP', async () => {
+    const redis = { xgroup: jest.fn().mockResolvedValue('OK') }
+
+    await ensureConsumerGroup(
+      redis as unknown as Redis,
+      'danbooru:requests',
+      'group',
+    )
+    expect(redis.xgroup).toHaveBeenCalledWith(
+      'CREATE',
+      'danbooru:requests',
+      'group',
+      '$',
+      'MKSTREAM',
+    )
+
+    redis.xgroup.mockRejectedValue(
+      new Error('BUSYGROUP Consumer Group name already exists'),
+    )
+    await expect(
+      ensureConsumerGroup(redis as unknown as Redis, 'danbooru:requests', 'g'),
+    ).resolves.toBeUndefined()
+
+    redis.xgroup.mockRejectedValue(new Error('Connection lost'))
+    await expect(
+      ensureConsumerGroup(redis as unknown as Redis, 'danbooru:requests', 'g'),
+    ).rejects.toThrow('Connection lost')
+  })
+
+  it('should parse flat field lists', () => {
+    expect(
+      parseStreamFields(['query', 'cat', 'clientId', 'u1', 'dangling']),
+    ).toEqual({ query: 'cat', clientId: 'u1' })
+  })
+})
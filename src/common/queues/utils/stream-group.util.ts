@@ -0,0 +1,53 @@
+import Redis from 'ioredis'
+import * as os from 'os'
+
+// XREADGROUP/XAUTOCLAIM entry: [id, [field, value, field, value, ...]]
+export type StreamEntry = [string, string[]]
+
+// XREADGROUP reply: one [stream, entries] pair per stream with new messages
+export type StreamReadResult = [string, StreamEntry[]][] | null
+
+/**
+ * Consumer name of this worker within a group, unique per host and process
+ * so a restarted worker does not inherit the pending list of the old one.
+ * @returns `{hostname}-{pid}`
+ */
+export function getConsumerName(): string {
+  return `${os.hostname()}-${process.pid}`
+}
+
+/**
+ * Creates the consumer group (and the stream) if missing.
+ * New groups start at `$`: messages added before the group existed are not replayed.
+ * @param redis - Redis client
+ * @param stream - Stream name, e.g. `danbooru:requests`
+ * @param group - Consumer group name
+ * @throws Redis errors other than BUSYGROUP (group already exists)
+ */
+export async function ensureConsumerGroup(
+  redis: Redis,
+  stream: string,
+  group: string,
+): Promise<void> {
+  try {
+    await redis.xgroup('CREATE', stream, group, '$', 'MKSTREAM')
+  } catch (error: unknown) {
+    if (error instanceof Error && error.message.startsWith('BUSYGROUP')) {
+      return
+    }
+    throw error
+  }
+}
+
+/**
+ * Turns a flat stream field list into an object (later duplicates win)
+ * @param fields - [field, value, field, value, ...]
+ * @returns Field map
+ */
+export function parseStreamFields(fields: string[]): Record<string, string> {
+  const data: Record<string, string> = {}
+  for (let index = 0; index < fields.length - 1; index += 2) {
+    data[fields[index]] = fields[index + 1]
+  }
+  return data
+}
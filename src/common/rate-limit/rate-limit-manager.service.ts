@@ -1,11 +1,13 @@
-import { Injectable, Logger } from '@nestjs/common'
+import { Injectable, Logger, OnApplicationBootstrap } from '@nestjs/common'
 import { ConfigService } from '@nestjs/config'
 import { RateLimiterService } from './rate-limiter.service'
+import { ProviderRegistryService } from '../api/provider-registry.service'
 
 export interface RateLimitError {
   type: 'error'
   jobId: string
   error: string
+  code: 'rate_limited'
   retryAfter?: number // Seconds until retry
   apiPrefix?: string
 }
@@ -20,7 +22,7 @@ interface RateLimitConfig {
 }
 
 @Injectable()
-export class RateLimitManagerService {
+export class RateLimitManagerService implements OnApplicationBootstrap {
   private readonly logger = new Logger(RateLimitManagerService.name)
 
   /**
@@ -34,8 +36,19 @@ export class RateLimitManagerService {
   constructor(
     private configService: ConfigService,
     private rateLimiterService: RateLimiterService,
+    private readonly providerRegistry: ProviderRegistryService,
   ) {}
 
+  onApplicationBootstrap() {
+    for (const [apiPrefix, config] of Object.entries(
+      this.getEnabledRateLimitConfigs(),
+    )) {
+      this.logger.log(
+        `Rate limit for ${apiPrefix}: ${config.limit}/${config.windowSeconds}s`,
+      )
+    }
+  }
+
   async checkRateLimit(
     apiPrefix: string,
     jobId: string,
@@ -68,6 +81,7 @@ export class RateLimitManagerService {
         type: 'error',
         jobId,
         error: `Rate limit exceeded for ${apiPrefix}. Try again in ${Math.ceil(windowSeconds / 60)} minutes.`,
+        code: 'rate_limited',
         retryAfter: windowSeconds,
         apiPrefix,
       }
@@ -105,6 +119,7 @@ export class RateLimitManagerService {
         type: 'error',
         jobId,
         error: `Rate limit exceeded for ${apiPrefix}. Multiple identifiers blocked.`,
+        code: 'rate_limited',
         retryAfter: windowSeconds,
         apiPrefix,
       }
@@ -161,6 +176,27 @@ export class RateLimitManagerService {
     return { limit, windowSeconds }
   }
 
+  // Limits for every provider enabled via ENABLED_PROVIDERS
+  getEnabledRateLimitConfigs(
+    windowType: 'minute' | 'hour' | 'day' = 'minute',
+  ): Record<string, RateLimitConfig> {
+    return Object.fromEntries(
+      this.providerRegistry
+        .getEnabledNames()
+        .map(apiPrefix => [
+          apiPrefix,
+          this.getRateLimitConfig(apiPrefix, windowType),
+        ]),
+    )
+  }
+
+  // Admin method to reset limits of a client across every enabled provider
+  async resetEnabledRateLimits(clientId?: string): Promise<void> {
+    for (const apiPrefix of this.providerRegistry.getEnabledNames()) {
+      await this.resetRateLimit(apiPrefix, clientId)
+    }
+  }
+
   private getWindowSeconds(windowType: string): number {
     switch (windowType) {
       case 'hour':
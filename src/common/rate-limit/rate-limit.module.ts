@@ -14,7 +14,8 @@ import { ApiThrottlerGuard } from './throttler.guard'
       useFactory: (configService: ConfigService) => ({
         throttlers: [
           {
-            ttl: configService.get('THROTTLE_TTL') || 60,
+            // THROTTLE_TTL is in seconds, @nestjs/throttler counts milliseconds
+            ttl: (Number(configService.get('THROTTLE_TTL')) || 60) * 1000,
             limit: configService.get('THROTTLE_LIMIT') || 10,
           },
         ],
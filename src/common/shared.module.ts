@@ -4,6 +4,7 @@ import { CacheModule } from '@nestjs/cache-manager'
 import { RedisModule } from './redis/redis.module'
 import { ThrottlerModule } from '@nestjs/throttler'
 import { ValidationModule } from './validation/validation.module'
+import { ProviderRegistryModule } from './api/provider-registry.module'
 import { parseRedisUrl } from './redis/utils/redis-config.util'
 
 @Global()
@@ -27,7 +28,7 @@ import { parseRedisUrl } from './redis/utils/redis-config.util'
       useFactory: (configService: ConfigService) => ({
         throttlers: [
           {
-            ttl: 60,
+            ttl: 60000, // Milliseconds since @nestjs/throttler v5
             limit: configService.get('RATE_LIMIT_PER_MINUTE', 60),
           },
         ],
@@ -35,8 +36,15 @@ import { parseRedisUrl } from './redis/utils/redis-config.util'
       inject: [ConfigService],
     }),
     ValidationModule,
+    ProviderRegistryModule,
+  ],
+  exports: [
+    CacheModule,
+    RedisModule,
+    ThrottlerModule,
+    ValidationModule,
+    ProviderRegistryModule,
   ],
-  exports: [CacheModule, RedisModule, ThrottlerModule, ValidationModule],
 })
 export class SharedModule {}
 
@@ -311,6 +311,7 @@ describe('ValidationService', () => {
         type: 'error',
         jobId: mockJobData.jobId,
         error: 'Rate limit exceeded',
+        code: 'rate_limited',
         retryAfter: 60,
         apiPrefix: mockConfig.apiPrefix,
       }
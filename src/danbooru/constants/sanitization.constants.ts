@@ -7,6 +7,8 @@ export const DANBOORU_STRING_FIELDS = [
   'tag_string_artist',
   'tag_string_copyright',
   'tag_string_character',
+  'tag_string_meta',
+  'file_ext',
   'source',
   'description',
   'commentary_title',
@@ -26,3 +28,33 @@ export const DANBOORU_STRING_FIELDS = [
   'comment_count',
   'updater_id',
 ] as const
+
+/**
+ * String fields of Danbooru tag records (autocomplete, tag lookups).
+ */
+export const DANBOORU_TAG_STRING_FIELDS = ['name'] as const
+
+/**
+ * String fields of Danbooru pool records (pool.get, pool.search).
+ */
+export const DANBOORU_POOL_STRING_FIELDS = ['name', 'description'] as const
+
+/**
+ * String fields of Danbooru artist records (artist.get), url entries are sanitized separately.
+ */
+export const DANBOORU_ARTIST_STRING_FIELDS = [
+  'name',
+  'group_name',
+  'other_names',
+] as const
+
+export const DANBOORU_ARTIST_URL_STRING_FIELDS = ['url'] as const
+
+/**
+ * String fields of Danbooru wiki pages (wiki.get).
+ */
+export const DANBOORU_WIKI_STRING_FIELDS = [
+  'title',
+  'body',
+  'other_names',
+] as const
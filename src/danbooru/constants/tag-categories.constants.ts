@@ -0,0 +1,12 @@
+import type { DanbooruTagCategory } from '../interfaces/danbooru.interface'
+
+/**
+ * Danbooru tag category ids as returned in `category` of /tags.json.
+ */
+export const DANBOORU_TAG_CATEGORIES: Record<number, DanbooruTagCategory> = {
+  0: 'general',
+  1: 'artist',
+  3: 'copyright',
+  4: 'character',
+  5: 'meta',
+}
@@ -3,10 +3,28 @@ import { ConfigService } from '@nestjs/config'
 import { plainToClass } from 'class-transformer'
 import { validate, ValidationError } from 'class-validator'
 import { DanbooruPost } from './dto/danbooru-post.class'
+import { DanbooruPool } from './dto/danbooru-pool.class'
+import { DanbooruArtist } from './dto/danbooru-artist.class'
+import { DanbooruWikiPage } from './dto/danbooru-wiki-page.class'
 import { API_TIMEOUT_MS } from '../common/constants'
-import xss, { escapeHtml } from 'xss'
-import { BaseApiService, ApiConfig } from '../common/api/base-api.service'
-import { DANBOORU_STRING_FIELDS } from './constants/sanitization.constants'
+import {
+  BaseApiService,
+  ApiConfig,
+  ApiResponse,
+} from '../common/api/base-api.service'
+import {
+  DANBOORU_ARTIST_STRING_FIELDS,
+  DANBOORU_ARTIST_URL_STRING_FIELDS,
+  DANBOORU_POOL_STRING_FIELDS,
+  DANBOORU_STRING_FIELDS,
+  DANBOORU_TAG_STRING_FIELDS,
+  DANBOORU_WIKI_STRING_FIELDS,
+} from './constants/sanitization.constants'
+import { sanitizeStringFields } from '../common/api/utils/sanitize.util'
+import type {
+  DanbooruExploreFeed,
+  DanbooruExploreScale,
+} from './interfaces/danbooru.interface'
 
 @Injectable()
 export class DanbooruApiService extends BaseApiService {
@@ -40,58 +58,225 @@ export class DanbooruApiService extends BaseApiService {
 
   // Override sanitizeResponse for Danbooru-specific sanitization
   protected sanitizeResponse(data: unknown): Record<string, unknown> {
-    const sanitized = super.sanitizeResponse(data)
-
     // Sanitize all potential string fields using Danbooru-specific list
-    for (const field of DANBOORU_STRING_FIELDS) {
-      const value = sanitized[field as keyof typeof sanitized] as
-        | string
-        | undefined
-      if (value && typeof value === 'string') {
-        sanitized[field as keyof typeof sanitized] =
-          this.sanitizeStringField(value)
-      }
-    }
-
-    return sanitized
-  }
-
-  private sanitizeStringField(str: string): string {
-    if (!str) return ''
-
-    // Use xss library for comprehensive sanitization
-    // Empty whitelist strips all tags, escapeHtml prevents attribute injection
-    return xss(str, {
-      whiteList: {}, // No allowed tags - complete stripping
-      escapeHtml, // Escape HTML entities
-      stripIgnoreTag: true,
-      stripIgnoreTagBody: [
-        'script',
-        'style',
-        'iframe',
-        'object',
-        'embed',
-        'svg',
-        'img',
-      ],
-    })
+    return sanitizeStringFields(
+      super.sanitizeResponse(data),
+      DANBOORU_STRING_FIELDS,
+    )
   }
 
   async fetchPosts(
     query: string,
     limit: number = 1,
     random: boolean = true,
-  ): Promise<Record<string, unknown> | null> {
+    page?: string,
+  ): Promise<ApiResponse<DanbooruPost[]> | null> {
     // Use inherited fetchPosts from BaseApiService, which handles caching, logging, and sanitization
-    const postData = await super.fetchPosts(query, limit, random)
+    const response = await super.fetchPosts(query, limit, random, page)
 
-    if (!postData) {
+    if (!response) {
       return null
     }
 
-    // Additional Danbooru-specific validation
-    const post = plainToClass(DanbooruPost, postData)
-    const errors: ValidationError[] = await validate(post, {
+    // Additional Danbooru-specific validation, invalid posts are dropped individually
+    const posts: DanbooruPost[] = []
+    for (const postData of response.data) {
+      const post = await this.validateRecord(DanbooruPost, postData)
+      if (post) {
+        posts.push(post)
+      }
+    }
+
+    return posts.length > 0 ? { ...response, data: posts } : null
+  }
+
+  /**
+   * Posts of an explore feed (`/explore/posts/{feed}.json`), invalid posts are dropped.
+   * @param feed - popular, curated or viewed
+   * @param date - Feed date, YYYY-MM-DD
+   * @param scale - day, week or month (ignored by the viewed feed)
+   * @param limit - Posts per page
+   * @param page - Page number
+   * @returns Sanitized, validated posts in feed order
+   * @throws UpstreamUnavailableError on 5xx/429/timeouts
+   */
+  async fetchExplorePosts(
+    feed: DanbooruExploreFeed,
+    date: string,
+    scale: DanbooruExploreScale,
+    limit: number,
+    page: number,
+  ): Promise<DanbooruPost[]> {
+    const scaleParam = feed === 'viewed' ? '' : `&scale=${scale}`
+    const body = await this.fetchResource<unknown>(
+      `/explore/posts/${feed}.json?date=${date}${scaleParam}&limit=${limit}&page=${page}`,
+    )
+    if (!Array.isArray(body)) {
+      return []
+    }
+    const posts: DanbooruPost[] = []
+    for (const postData of body as unknown[]) {
+      const post = await this.validateRecord(
+        DanbooruPost,
+        this.sanitizeResponse(postData),
+      )
+      if (post) {
+        posts.push(post)
+      }
+    }
+    return posts
+  }
+
+  /**
+   * Single post by id (`/posts/{id}.json`).
+   * @param id - Post id
+   * @returns Sanitized, validated post, or null if it does not exist or is invalid
+   * @throws UpstreamUnavailableError on 5xx/429/timeouts
+   */
+  async fetchPostById(id: number): Promise<DanbooruPost | null> {
+    const body = await this.fetchResource<unknown>(`/posts/${id}.json`)
+    return body
+      ? this.validateRecord(DanbooruPost, this.sanitizeResponse(body))
+      : null
+  }
+
+  /**
+   * Single post by file hash (`/posts.json?md5=`).
+   * @param md5 - Lowercase hex md5 of the original file
+   * @returns Sanitized, validated post, or null if no post has that file
+   * @throws UpstreamUnavailableError on 5xx/429/timeouts
+   */
+  async fetchPostByMd5(md5: string): Promise<DanbooruPost | null> {
+    const body = await this.fetchResource<unknown>(
+      `/posts.json?md5=${encodeURIComponent(md5)}`,
+    )
+    // A single post object, older API versions answer with a one-element list
+    const postData: unknown = Array.isArray(body) ? body[0] : body
+    return postData
+      ? this.validateRecord(DanbooruPost, this.sanitizeResponse(postData))
+      : null
+  }
+
+  /**
+   * Single pool by id (`/pools/{id}.json`).
+   * @param id - Pool id
+   * @returns Sanitized, validated pool with post_ids in reading order, or null
+   * @throws UpstreamUnavailableError on 5xx/429/timeouts
+   */
+  async fetchPool(id: number): Promise<DanbooruPool | null> {
+    const body = await this.fetchResource<unknown>(`/pools/${id}.json`)
+    return body
+      ? this.validateRecord(DanbooruPool, this.sanitizePool(body))
+      : null
+  }
+
+  /**
+   * Pools whose name matches the pattern, most recently updated first.
+   * Invalid pools are dropped individually.
+   * @param name - Name pattern, `*` wildcards allowed, spaces as underscores
+   * @param limit - Pools per page
+   * @param page - Page number
+   * @returns Sanitized, validated pools
+   * @throws UpstreamUnavailableError on 5xx/429/timeouts
+   */
+  async searchPools(
+    name: string,
+    limit: number,
+    page: number,
+  ): Promise<DanbooruPool[]> {
+    const body = await this.fetchResource<unknown>(
+      `/pools.json?search[name_matches]=${encodeURIComponent(name)}&search[is_deleted]=false&search[order]=updated_at&limit=${limit}&page=${page}`,
+    )
+    if (!Array.isArray(body)) {
+      return []
+    }
+    const pools: DanbooruPool[] = []
+    for (const poolData of body as unknown[]) {
+      const pool = await this.validateRecord(
+        DanbooruPool,
+        this.sanitizePool(poolData),
+      )
+      if (pool) {
+        pools.push(pool)
+      }
+    }
+    return pools
+  }
+
+  private sanitizePool(data: unknown): Record<string, unknown> {
+    return sanitizeStringFields(
+      { ...(data as Record<string, unknown>) },
+      DANBOORU_POOL_STRING_FIELDS,
+    )
+  }
+
+  /**
+   * Artist by exact name (`/artists.json`), with other names and profile URLs.
+   * @param name - Normalized artist tag name
+   * @returns Sanitized, validated artist, or null if there is none
+   * @throws UpstreamUnavailableError on 5xx/429/timeouts
+   */
+  async fetchArtist(name: string): Promise<DanbooruArtist | null> {
+    const body = await this.fetchResource<unknown>(
+      `/artists.json?search[name]=${encodeURIComponent(name)}&search[is_deleted]=false&only=id,name,group_name,other_names,is_banned,is_deleted,created_at,updated_at,urls&limit=1`,
+    )
+    const artistData: unknown = Array.isArray(body) ? body[0] : null
+    return artistData
+      ? this.validateRecord(DanbooruArtist, this.sanitizeArtist(artistData))
+      : null
+  }
+
+  /**
+   * Wiki page by exact title (`/wiki_pages.json`).
+   * @param title - Normalized page title (usually a tag name)
+   * @returns Sanitized, validated wiki page, or null if there is none
+   * @throws UpstreamUnavailableError on 5xx/429/timeouts
+   */
+  async fetchWikiPage(title: string): Promise<DanbooruWikiPage | null> {
+    const body = await this.fetchResource<unknown>(
+      `/wiki_pages.json?search[title]=${encodeURIComponent(title)}&search[is_deleted]=false&limit=1`,
+    )
+    const pageData: unknown = Array.isArray(body) ? body[0] : null
+    return pageData
+      ? this.validateRecord(
+          DanbooruWikiPage,
+          sanitizeStringFields(
+            { ...(pageData as Record<string, unknown>) },
+            DANBOORU_WIKI_STRING_FIELDS,
+          ),
+        )
+      : null
+  }
+
+  // URL entries are objects, so they are sanitized one by one
+  private sanitizeArtist(data: unknown): Record<string, unknown> {
+    const artist = sanitizeStringFields(
+      { ...(data as Record<string, unknown>) },
+      DANBOORU_ARTIST_STRING_FIELDS,
+    )
+    if (Array.isArray(artist.urls)) {
+      artist.urls = (artist.urls as unknown[]).map(url =>
+        url && typeof url === 'object'
+          ? sanitizeStringFields(
+              { ...(url as Record<string, unknown>) },
+              DANBOORU_ARTIST_URL_STRING_FIELDS,
+            )
+          : url,
+      )
+    }
+    return artist
+  }
+
+  /**
+   * Validates an upstream record against its DTO class.
+   * @returns The DTO instance, or null (logged) if validation fails
+   */
+  private async validateRecord<T extends object>(
+    cls: new () => T,
+    data: unknown,
+  ): Promise<T | null> {
+    const record = plainToClass(cls, data)
+    const errors: ValidationError[] = await validate(record, {
       forbidNonWhitelisted: true,
     })
     if (errors.length > 0) {
@@ -100,7 +285,163 @@ export class DanbooruApiService extends BaseApiService {
       )
       return null
     }
+    return record
+  }
+
+  /**
+   * Tags whose name starts with the prefix, most used first, empty tags skipped.
+   * @param prefix - Lowercase tag name prefix, without wildcard
+   * @param limit - Maximum number of tags
+   * @returns Sanitized tag records (name, post_count, category, ...)
+   */
+  async fetchTags(
+    prefix: string,
+    limit: number,
+  ): Promise<Record<string, unknown>[]> {
+    const body = await this.fetchResource<unknown>(
+      `/tags.json?search[name_matches]=${encodeURIComponent(`${prefix}*`)}&search[hide_empty]=true&search[order]=count&limit=${limit}`,
+    )
+    if (!Array.isArray(body)) {
+      return []
+    }
+    return (body as unknown[])
+      .filter(
+        (tag): tag is Record<string, unknown> =>
+          !!tag && typeof tag === 'object',
+      )
+      .map(tag => sanitizeStringFields({ ...tag }, DANBOORU_TAG_STRING_FIELDS))
+  }
+
+  /**
+   * Tags that often appear together with the query (`/related_tag.json`).
+   * @param query - Tag query
+   * @param limit - Maximum number of related tags
+   * @returns Sanitized related tag records (tag: { name, post_count, category }, frequency, ...)
+   * @throws UpstreamUnavailableError on 5xx/429/timeouts
+   */
+  async fetchRelatedTags(
+    query: string,
+    limit: number,
+  ): Promise<Record<string, unknown>[]> {
+    const body = await this.fetchResource<{ related_tags?: unknown }>(
+      `/related_tag.json?search[query]=${encodeURIComponent(query)}&limit=${limit}`,
+    )
+    if (!Array.isArray(body?.related_tags)) {
+      return []
+    }
+    return (body.related_tags as unknown[])
+      .filter(
+        (related): related is Record<string, unknown> =>
+          !!related &&
+          typeof related === 'object' &&
+          !!(related as { tag?: unknown }).tag,
+      )
+      .map(related => ({
+        ...related,
+        tag: sanitizeStringFields(
+          { ...(related.tag as Record<string, unknown>) },
+          DANBOORU_TAG_STRING_FIELDS,
+        ),
+      }))
+  }
+
+  /**
+   * Reverse image search (`/iqdb_queries.json`). URLs are passed to Danbooru, which
+   * downloads the image itself; base64 payloads are uploaded as a multipart file.
+   * @param image - Image URL or base64 payload (one of them)
+   * @param limit - Maximum number of matches
+   * @param similarity - Minimum similarity score (0-100)
+   * @returns Matches, best first, each with a sanitized, validated post
+   * @throws UpstreamUnavailableError on 5xx/429/timeouts
+   */
+  async searchIqdb(
+    image: { url?: string; data?: string },
+    limit: number,
+    similarity: number,
+  ): Promise<{ post: DanbooruPost; score: number }[]> {
+    const params = `limit=${limit}&similarity=${similarity}`
+    let body: unknown
+    if (image.url) {
+      body = await this.fetchResource<unknown>(
+        `/iqdb_queries.json?url=${encodeURIComponent(image.url)}&${params}`,
+      )
+    } else {
+      const form = new FormData()
+      form.append(
+        'file',
+        new Blob([Buffer.from(image.data ?? '', 'base64')]),
+        'image',
+      )
+      body = await this.postResource<unknown>(
+        `/iqdb_queries.json?${params}`,
+        form,
+      )
+    }
+    if (!Array.isArray(body)) {
+      return []
+    }
 
-    return post as Record<string, unknown>
+    // Matches whose post is missing (deleted, hidden) or invalid are dropped
+    const matches: { post: DanbooruPost; score: number }[] = []
+    for (const match of body as { post?: unknown; score?: unknown }[]) {
+      const post = match?.post
+        ? await this.validateRecord(
+            DanbooruPost,
+            this.sanitizeResponse(match.post),
+          )
+        : null
+      if (post) {
+        matches.push({ post, score: Number(match.score) || 0 })
+      }
+    }
+    return matches
+  }
+
+  /**
+   * Number of posts matching a query (`/counts/posts.json`).
+   * @param query - Tag query, metatags allowed
+   * @returns Post count, or null if the response has none
+   * @throws UpstreamUnavailableError on 5xx/429/timeouts
+   */
+  async fetchPostCount(query: string): Promise<number | null> {
+    const body = await this.fetchResource<{ counts?: { posts?: unknown } }>(
+      `/counts/posts.json?tags=${encodeURIComponent(query)}`,
+    )
+    const count = body?.counts?.posts
+    return typeof count === 'number' ? count : null
+  }
+
+  /**
+   * Active aliases of a tag, e.g. `cat_girl` -> ['cat_ears'].
+   * @param tag - Antecedent tag name
+   * @returns Consequent tag names (usually zero or one)
+   * @throws UpstreamUnavailableError or axios errors, the caller decides whether resolution is optional
+   */
+  async fetchTagAliases(tag: string): Promise<string[]> {
+    return this.fetchTagRelations('/tag_aliases.json', tag)
+  }
+
+  /**
+   * Active implications of a tag: every post tagged `tag` is also tagged with these.
+   * @param tag - Antecedent tag name
+   * @returns Consequent tag names
+   */
+  async fetchTagImplications(tag: string): Promise<string[]> {
+    return this.fetchTagRelations('/tag_implications.json', tag)
+  }
+
+  private async fetchTagRelations(
+    endpoint: string,
+    tag: string,
+  ): Promise<string[]> {
+    const body = await this.fetchResource<unknown>(
+      `${endpoint}?search[antecedent_name]=${encodeURIComponent(tag)}&search[status]=active`,
+    )
+    if (!Array.isArray(body)) {
+      return []
+    }
+    return (body as { consequent_name?: unknown }[])
+      .map(relation => relation.consequent_name)
+      .filter((name): name is string => typeof name === 'string' && !!name)
   }
 }
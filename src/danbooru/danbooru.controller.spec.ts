@@ -0,0 +1,338 @@
+import { Test } from '@nestjs/testing'
+import { INestApplication } from '@nestjs/common'
+import { ConfigService } from '@nestjs/config'
+import { ThrottlerModule } from '@nestjs/throttler'
+import request from 'supertest'
+import type { App } from 'supertest/types'
+import { DanbooruController } from './danbooru.controller'
+import { DanbooruService } from './danbooru.service'
+import { ValidationService } from './validation.service'
+import { DEDUP_TTL_SECONDS } from '../common/constants'
+import * as jobStatusUtil from '../common/queues/utils/job-status.util'
+
+jest.mock('../common/queues/utils/job-status.util')
+
+const mockGetJobStatus = jest.mocked(jobStatusUtil.getJobStatus)
+const mockSetJobStatus = jest.mocked(jobStatusUtil.setJobStatus)
+
+describe('DanbooruController', () => {
+  const jobId = '123e4567-e89b-12d3-a456-426614174000'
+  const success = {
+    type: 'success',
+    jobId,
+    posts: [{ id: 1, imageUrl: 'https://cdn.donmai.us/1.jpg' }],
+  }
+
+  let app: INestApplication<App>
+  let danbooruService: { processRequest: jest.Mock; processJob: jest.Mock }
+  let validationService: { validateRequest: jest.Mock; verifyJobKey: jest.Mock }
+  let redis: { set: jest.Mock }
+  let config: Record<string, string>
+
+  beforeEach(async () => {
+    danbooruService = {
+      processRequest: jest.fn().mockResolvedValue(success),
+      processJob: jest.fn().mockResolvedValue(success),
+    }
+    validationService = {
+      validateRequest: jest.fn(async (data: Record<string, string>) => {
+        await Promise.resolve()
+        return {
+          valid: true,
+          dto: { ...data, limit: data.limit ? Number(data.limit) : undefined },
+        }
+      }),
+      verifyJobKey: jest.fn(
+        (_jobId: string, apiKey?: string) => apiKey === 'job-hmac',
+      ),
+    }
+    redis = { set: jest.fn().mockResolvedValue('OK') }
+    config = {}
+
+    const module = await Test.createTestingModule({
+      imports: [
+        ThrottlerModule.forRoot({ throttlers: [{ ttl: 60000, limit: 100 }] }),
+      ],
+      controllers: [DanbooruController],
+      providers: [
+        { provide: DanbooruService, useValue: danbooruService },
+        { provide: ValidationService, useValue: validationService },
+        { provide: 'REDIS_CLIENT', useValue: redis },
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn((key: string) => config[key]) },
+        },
+      ],
+    }).compile()
+
+    app = module.createNestApplication()
+    await app.init()
+  })
+
+  afterEach(async () => {
+    await app.close()
+  })
+
+  it('should validate, claim the jobId and answer searches synchronously', async () => {
+    const response = await request(app.getHttpServer())
+      .post('/api/danbooru/posts/search')
+      .send({
+        jobId,
+        query: 'cat',
+        apiKey: 'hmac',
+        limit: 5,
+        type: 'tags.count',
+      })
+      .expect(200)
+
+    expect(response.body).toEqual(success)
+    expect(validationService.validateRequest).toHaveBeenCalledWith({
+      jobId,
+      query: 'cat',
+      apiKey: 'hmac',
+      limit: 5,
+      type: 'posts',
+    })
+    expect(redis.set).toHaveBeenCalledWith(
+      `processed:${jobId}`,
+      '1',
+      'EX',
+      DEDUP_TTL_SECONDS,
+      'NX',
+    )
+    expect(mockSetJobStatus).toHaveBeenCalledWith(redis, jobId, 'processing', {
+      apiPrefix: 'danbooru',
+    })
+    expect(danbooruService.processRequest).toHaveBeenCalledWith(
+      jobId,
+      'cat',
+      undefined,
+      expect.objectContaining({ limit: 5 }),
+    )
+  })
+
+  it('should answer 202 with the jobId in async mode', async () => {
+    const response = await request(app.getHttpServer())
+      .post('/api/danbooru/posts/search?async=true')
+      .send({ jobId, query: 'cat', apiKey: 'hmac' })
+      .expect(202)
+
+    expect(response.body).toEqual({
+      type: 'accepted',
+      jobId,
+      responseStream: 'danbooru:responses',
+    })
+    expect(danbooruService.processRequest).toHaveBeenCalled()
+  })
+
+  it('should route responses to the client stream or an allowlisted replyTo', async () => {
+    config.RESPONSE_STREAM_PER_CLIENT = 'true'
+    config.RESPONSE_STREAM_ALLOWLIST = 'bot1:inbox'
+
+    const response = await request(app.getHttpServer())
+      .post('/api/danbooru/posts/search?async=true')
+      .send({ jobId, query: 'cat', apiKey: 'hmac', clientId: 'bot1' })
+      .expect(202)
+    expect(response.body).toMatchObject({
+      responseStream: 'danbooru:responses:bot1',
+    })
+
+    await request(app.getHttpServer())
+      .get(
+        `/api/danbooru/posts/42?jobId=${jobId}&apiKey=hmac&replyTo=bot1:inbox`,
+      )
+      .expect(200)
+    expect(danbooruService.processJob).toHaveBeenCalledWith(
+      'post.byId',
+      jobId,
+      '42',
+      undefined,
+      expect.objectContaining({ responseStream: 'bot1:inbox' }),
+    )
+  })
+
+  it('should reject a replyTo outside the allowlist with 400', async () => {
+    await request(app.getHttpServer())
+      .post('/api/danbooru/posts/search')
+      .send({ jobId, query: 'cat', apiKey: 'hmac', replyTo: 'other:inbox' })
+      .expect(400)
+    expect(redis.set).not.toHaveBeenCalled()
+  })
+
+  it('should accept allowlisted callbackUrls and reject others with 400', async () => {
+    config.CALLBACK_ALLOWLIST_BOT1 = 'https://fn.example.com/'
+
+    await request(app.getHttpServer())
+      .post('/api/danbooru/posts/search?async=true')
+      .send({
+        jobId,
+        query: 'cat',
+        apiKey: 'hmac',
+        clientId: 'bot1',
+        callbackUrl: 'https://fn.example.com/hook',
+      })
+      .expect(202)
+    expect(danbooruService.processRequest).toHaveBeenCalledWith(
+      jobId,
+      'cat',
+      'bot1',
+      expect.objectContaining({ callbackUrl: 'https://fn.example.com/hook' }),
+    )
+
+    await request(app.getHttpServer())
+      .post('/api/danbooru/posts/search')
+      .send({
+        jobId,
+        query: 'cat',
+        apiKey: 'hmac',
+        clientId: 'bot2',
+        callbackUrl: 'https://fn.example.com/hook',
+      })
+      .expect(400)
+  })
+
+  it('should fall back to 202 when a sync request outlives the timeout', async () => {
+    config.HTTP_SYNC_TIMEOUT_MS = '10'
+    danbooruService.processRequest.mockReturnValue(new Promise(() => {}))
+
+    await request(app.getHttpServer())
+      .post('/api/danbooru/posts/search')
+      .send({ jobId, query: 'cat', apiKey: 'hmac' })
+      .expect(202)
+  })
+
+  it.each([
+    ['Invalid request format', 400],
+    ['Invalid API key - authentication failed', 401],
+  ])('should reject %p requests with %p', async (error, status) => {
+    validationService.validateRequest.mockResolvedValue({
+      valid: false,
+      error: { type: 'error', jobId, error },
+    })
+
+    const response = await request(app.getHttpServer())
+      .post('/api/danbooru/posts/search')
+      .send({ jobId, query: 'cat' })
+      .expect(status)
+
+    expect(response.body).toEqual({ type: 'error', jobId, error })
+    expect(redis.set).not.toHaveBeenCalled()
+  })
+
+  it('should reject a reused jobId with 409', async () => {
+    redis.set.mockResolvedValue(null)
+
+    await request(app.getHttpServer())
+      .post('/api/danbooru/posts/search')
+      .send({ jobId, query: 'cat', apiKey: 'hmac' })
+      .expect(409)
+    expect(danbooruService.processRequest).not.toHaveBeenCalled()
+  })
+
+  it.each([
+    ['rate_limited', 429],
+    ['in_progress', 409],
+    ['not_found', 404],
+    ['upstream', 502],
+    [undefined, 502],
+  ] as const)('should map the error code %p to %p', async (code, status) => {
+    danbooruService.processRequest.mockResolvedValue({
+      type: 'error',
+      jobId,
+      // The status must not depend on the wording of the message
+      error: 'Query is currently being processed',
+      code,
+    })
+
+    await request(app.getHttpServer())
+      .post('/api/danbooru/posts/search')
+      .send({ jobId, query: 'cat', apiKey: 'hmac' })
+      .expect(status)
+  })
+
+  it('should look up single posts as post.byId jobs', async () => {
+    const response = await request(app.getHttpServer())
+      .get(`/api/danbooru/posts/42?jobId=${jobId}&apiKey=hmac&fields=id`)
+      .expect(200)
+
+    expect(response.body).toEqual(success)
+    expect(validationService.validateRequest).toHaveBeenCalledWith({
+      jobId,
+      apiKey: 'hmac',
+      fields: 'id',
+      type: 'post.byId',
+      query: '42',
+    })
+    expect(danbooruService.processJob).toHaveBeenCalledWith(
+      'post.byId',
+      jobId,
+      '42',
+      undefined,
+      expect.objectContaining({ fields: 'id' }),
+    )
+  })
+
+  it('should answer 404 for missing posts', async () => {
+    danbooruService.processJob.mockResolvedValue({
+      type: 'error',
+      jobId,
+      error: 'Post not found',
+      code: 'not_found',
+    })
+
+    await request(app.getHttpServer())
+      .get(`/api/danbooru/posts/42?jobId=${jobId}&apiKey=hmac`)
+      .expect(404)
+  })
+
+  it('should return job statuses by jobId', async () => {
+    const status = {
+      jobId,
+      state: 'succeeded' as const,
+      response: success,
+      createdAt: 1,
+      updatedAt: 2,
+    }
+    mockGetJobStatus.mockResolvedValueOnce(status)
+
+    const response = await request(app.getHttpServer())
+      .get(`/api/danbooru/jobs/${jobId}?apiKey=job-hmac`)
+      .expect(200)
+
+    expect(response.body).toEqual(status)
+    expect(validationService.verifyJobKey).toHaveBeenCalledWith(
+      jobId,
+      'job-hmac',
+    )
+    expect(mockGetJobStatus).toHaveBeenCalledWith(redis, jobId)
+  })
+
+  it('should require an apiKey signing the jobId to read a job', async () => {
+    mockGetJobStatus.mockClear()
+
+    const missing = await request(app.getHttpServer())
+      .get(`/api/danbooru/jobs/${jobId}`)
+      .expect(401)
+    expect(missing.body).toEqual({
+      type: 'error',
+      jobId,
+      error: 'Missing API key - authentication required',
+    })
+
+    await request(app.getHttpServer())
+      .get(`/api/danbooru/jobs/${jobId}?apiKey=guessed`)
+      .expect(401)
+    expect(mockGetJobStatus).not.toHaveBeenCalled()
+  })
+
+  it('should answer 404 for unknown jobs and 400 for malformed jobIds', async () => {
+    mockGetJobStatus.mockResolvedValueOnce(null)
+
+    await request(app.getHttpServer())
+      .get(`/api/danbooru/jobs/${jobId}?apiKey=job-hmac`)
+      .expect(404)
+    await request(app.getHttpServer())
+      .get('/api/danbooru/jobs/not-a-uuid')
+      .expect(400)
+  })
+})
@@ -0,0 +1,309 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpException,
+  HttpStatus,
+  Inject,
+  Logger,
+  NotFoundException,
+  Param,
+  ParseUUIDPipe,
+  Post,
+  Query,
+  Res,
+  UseGuards,
+} from '@nestjs/common'
+import { ConfigService } from '@nestjs/config'
+import type { Response } from 'express'
+import Redis from 'ioredis'
+import { ApiThrottlerGuard } from '../common/rate-limit/throttler.guard'
+import {
+  getJobStatus,
+  setJobStatus,
+} from '../common/queues/utils/job-status.util'
+import { resolveResponseStream } from '../common/queues/utils/response-stream.util'
+import { isCallbackAllowed } from '../common/queues/utils/callback.util'
+import type { JobStatus } from '../common/queues/interfaces/job-status.interface'
+import type {
+  BooruErrorCode,
+  BooruJobResponse,
+  BooruResponse,
+  ResponseTarget,
+} from '../common/api/base-api.interface'
+import {
+  DANBOORU_API_PREFIX,
+  DEDUP_TTL_SECONDS,
+  HTTP_SYNC_TIMEOUT_MS,
+  POST_BY_ID_JOB_TYPE,
+  POSTS_JOB_TYPE,
+} from '../common/constants'
+import { DanbooruService } from './danbooru.service'
+import { ValidationService } from './validation.service'
+import type { CreateRequestDto } from './dto/create-request.dto'
+import type {
+  DanbooruAcceptedResponse,
+  DanbooruRequestOptions,
+} from './interfaces/danbooru.interface'
+
+type JobResult = BooruResponse | BooruJobResponse
+
+/**
+ * HTTP gateway for Danbooru jobs. Requests carry the same fields and HMAC
+ * `apiKey` as stream messages and run through the same orchestrator, so the
+ * response is also published to the job's response stream (see resolveResponseStream).
+ * `?async=true` answers 202 + jobId right away; synchronous requests wait for the
+ * result and fall back to 202 after `HTTP_SYNC_TIMEOUT_MS`; either way the
+ * outcome can be polled at `GET jobs/:jobId`.
+ */
+@Controller(`api/${DANBOORU_API_PREFIX}`)
+@UseGuards(ApiThrottlerGuard)
+export class DanbooruController {
+  private readonly logger = new Logger(DanbooruController.name)
+
+  constructor(
+    private readonly danbooruService: DanbooruService,
+    private readonly validationService: ValidationService,
+    @Inject('REDIS_CLIENT') private readonly redis: Redis,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * Post search, body as a stream message: jobId, query, apiKey, clientId, replyTo,
+   * callbackUrl, limit, page, ...
+   * @throws HttpException 400/401 for invalid or unsigned requests or a replyTo or
+   * callbackUrl outside the allowlists, 409 for a reused
+   * jobId or a query already in progress, 429 when rate limited, 502 on upstream errors
+   */
+  @Post('posts/search')
+  @HttpCode(HttpStatus.OK)
+  async searchPosts(
+    @Body() body: Record<string, unknown>,
+    @Query('async') async: string | undefined,
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<JobResult | DanbooruAcceptedResponse> {
+    const dto = await this.validate({ ...body, type: POSTS_JOB_TYPE })
+    const target = this.getResponseTarget(dto)
+    return this.run(dto, target, async === 'true', res, () =>
+      this.danbooruService.processRequest(
+        dto.jobId,
+        dto.query,
+        dto.clientId,
+        this.getRequestOptions(dto, target),
+      ),
+    )
+  }
+
+  /**
+   * Single post by id; jobId, apiKey (signing jobId + id), clientId, replyTo,
+   * callbackUrl, fields and variant come as query parameters
+   * @throws HttpException as for searchPosts, 404 if the post does not exist
+   */
+  @Get('posts/:id')
+  async getPost(
+    @Param('id') id: string,
+    @Query() params: Record<string, unknown>,
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<JobResult | DanbooruAcceptedResponse> {
+    const { async, ...fields } = params
+    const dto = await this.validate({
+      ...fields,
+      type: POST_BY_ID_JOB_TYPE,
+      query: id,
+    })
+    const target = this.getResponseTarget(dto)
+    return this.run(dto, target, async === 'true', res, () =>
+      this.danbooruService.processJob(
+        POST_BY_ID_JOB_TYPE,
+        dto.jobId,
+        dto.query,
+        dto.clientId,
+        this.getRequestOptions(dto, target),
+      ),
+    )
+  }
+
+  /**
+   * Lifecycle state and final response of a job from any transport. The apiKey
+   * query parameter signs the jobId alone (see ValidationService.verifyJobKey).
+   * @throws HttpException 401 for a missing or invalid apiKey
+   * @throws NotFoundException if the job is unknown or its status has expired
+   */
+  @Get('jobs/:jobId')
+  async getJob(
+    @Param('jobId', new ParseUUIDPipe()) jobId: string,
+    @Query('apiKey') apiKey: string | undefined,
+  ): Promise<JobStatus> {
+    if (!this.validationService.verifyJobKey(jobId, apiKey)) {
+      throw new HttpException(
+        {
+          type: 'error',
+          jobId,
+          error: apiKey
+            ? 'Invalid API key - authentication failed'
+            : 'Missing API key - authentication required',
+        },
+        HttpStatus.UNAUTHORIZED,
+      )
+    }
+
+    const status = await getJobStatus(this.redis, jobId)
+    if (!status) {
+      throw new NotFoundException({
+        type: 'error',
+        jobId,
+        error: `Job ${jobId} not found`,
+      })
+    }
+    return status
+  }
+
+  // ValidationService checks the DTO and HMAC exactly as for stream messages
+  private async validate(
+    request: Record<string, unknown>,
+  ): Promise<CreateRequestDto> {
+    const validation = await this.validationService.validateRequest(
+      request as Record<string, string>,
+    )
+    if (!validation.valid) {
+      const status =
+        validation.error.error === 'Invalid request format'
+          ? HttpStatus.BAD_REQUEST
+          : HttpStatus.UNAUTHORIZED
+      throw new HttpException(validation.error, status)
+    }
+    return validation.dto
+  }
+
+  // Same routing as the stream consumer; a destination outside the allowlists is a bad request
+  private getResponseTarget(dto: CreateRequestDto): ResponseTarget {
+    const responseStream = resolveResponseStream(
+      this.configService,
+      DANBOORU_API_PREFIX,
+      dto,
+    )
+    let error: string | undefined
+    if (!responseStream) {
+      error = `replyTo stream not allowed: ${dto.replyTo}`
+    } else if (
+      dto.callbackUrl &&
+      !isCallbackAllowed(this.configService, dto.clientId, dto.callbackUrl)
+    ) {
+      error = `callbackUrl not allowed for client ${dto.clientId ?? '(none)'}`
+    }
+    if (error) {
+      throw new HttpException(
+        { type: 'error', jobId: dto.jobId, error },
+        HttpStatus.BAD_REQUEST,
+      )
+    }
+    return { responseStream: responseStream!, callbackUrl: dto.callbackUrl }
+  }
+
+  /**
+   * Claims the jobId (a signed request can only run once), then runs the job
+   * in the background (async) or waits for it up to the sync timeout.
+   */
+  private async run(
+    dto: CreateRequestDto,
+    target: ResponseTarget,
+    async: boolean,
+    res: Response,
+    execute: () => Promise<JobResult>,
+  ): Promise<JobResult | DanbooruAcceptedResponse> {
+    const claimed = await this.redis.set(
+      `processed:${dto.jobId}`,
+      '1',
+      'EX',
+      DEDUP_TTL_SECONDS,
+      'NX',
+    )
+    if (claimed !== 'OK') {
+      throw new HttpException(
+        { type: 'error', jobId: dto.jobId, error: 'Duplicate jobId' },
+        HttpStatus.CONFLICT,
+      )
+    }
+    await setJobStatus(this.redis, dto.jobId, 'processing', {
+      apiPrefix: DANBOORU_API_PREFIX,
+    })
+
+    const job = execute()
+    // The orchestrator publishes the outcome either way, so a late failure is only logged
+    void job.catch((error: unknown) =>
+      this.logger.error(
+        `HTTP job ${dto.jobId} failed: ${error instanceof Error ? error.message : String(error)}`,
+        dto.jobId,
+      ),
+    )
+
+    const response = async
+      ? undefined
+      : await this.waitForResult(job, this.getSyncTimeoutMs())
+    if (!response) {
+      res.status(HttpStatus.ACCEPTED)
+      return {
+        type: 'accepted',
+        jobId: dto.jobId,
+        responseStream: target.responseStream!,
+      }
+    }
+
+    if (response.type === 'error') {
+      throw new HttpException(response, getErrorStatus(response.code))
+    }
+    return response
+  }
+
+  // Job result, or undefined if it is still running after timeoutMs
+  private async waitForResult(
+    job: Promise<JobResult>,
+    timeoutMs: number,
+  ): Promise<JobResult | undefined> {
+    let timer: NodeJS.Timeout | undefined
+    const timeout = new Promise<undefined>(resolve => {
+      timer = setTimeout(() => resolve(undefined), timeoutMs)
+    })
+    try {
+      return await Promise.race([job, timeout])
+    } finally {
+      clearTimeout(timer)
+    }
+  }
+
+  private getSyncTimeoutMs(): number {
+    return (
+      Number(this.configService.get<number>('HTTP_SYNC_TIMEOUT_MS')) ||
+      HTTP_SYNC_TIMEOUT_MS
+    )
+  }
+
+  private getRequestOptions(
+    dto: CreateRequestDto,
+    target: ResponseTarget,
+  ): DanbooruRequestOptions {
+    return {
+      limit: dto.limit,
+      page: dto.page,
+      cursor: dto.cursor,
+      fields: dto.fields,
+      variant: dto.variant,
+      ...target,
+    }
+  }
+}
+
+// HTTP status for the error code of a response published by the orchestrator
+function getErrorStatus(code?: BooruErrorCode): HttpStatus {
+  switch (code) {
+    case 'rate_limited':
+      return HttpStatus.TOO_MANY_REQUESTS
+    case 'in_progress':
+      return HttpStatus.CONFLICT
+    case 'not_found':
+      return HttpStatus.NOT_FOUND
+    default:
+      return HttpStatus.BAD_GATEWAY
+  }
+}
@@ -1,14 +1,33 @@
-import { Module } from '@nestjs/common'
+import { Module, OnModuleInit } from '@nestjs/common'
 import { CacheModule } from '../common/cache/cache.module'
 import { QueuesModule } from '../common/queues/queues.module'
 import { RedisModule } from '../common/redis/redis.module'
 import { RateLimitModule } from '../common/rate-limit/rate-limit.module'
+import { ProviderRegistryService } from '../common/api/provider-registry.service'
 import { DanbooruService } from './danbooru.service'
 import { DanbooruApiService } from './danbooru-api.service'
+import { TagResolverService } from './tag-resolver.service'
+import { ValidationService } from './validation.service'
+import { DanbooruController } from './danbooru.controller'
 
 @Module({
   imports: [CacheModule, QueuesModule, RedisModule, RateLimitModule],
-  providers: [DanbooruService, DanbooruApiService],
-  exports: [DanbooruService],
+  controllers: [DanbooruController],
+  providers: [
+    DanbooruService,
+    DanbooruApiService,
+    TagResolverService,
+    ValidationService,
+  ],
+  exports: [DanbooruService, ValidationService],
 })
-export class DanbooruModule {}
+export class DanbooruModule implements OnModuleInit {
+  constructor(
+    private readonly providerRegistry: ProviderRegistryService,
+    private readonly danbooruService: DanbooruService,
+  ) {}
+
+  onModuleInit() {
+    this.providerRegistry.register(this.danbooruService)
+  }
+}
@@ -1,7 +1,11 @@
 import { Test, TestingModule } from '@nestjs/testing'
 import { DanbooruService } from './danbooru.service'
 import { DanbooruApiService } from './danbooru-api.service'
-import type { DanbooruErrorResponse } from './interfaces/danbooru.interface'
+import { TagResolverService } from './tag-resolver.service'
+import type { DanbooruPost } from './dto/danbooru-post.class'
+import type { DanbooruPool } from './dto/danbooru-pool.class'
+import type { DanbooruArtist } from './dto/danbooru-artist.class'
+import type { DanbooruWikiPage } from './dto/danbooru-wiki-page.class'
 import { CacheService } from '../common/cache/cache.service'
 import { CacheManagerService } from '../common/cache/cache-manager.service'
 import { RateLimitManagerService } from '../common/rate-limit/rate-limit-manager.service'
@@ -11,8 +15,14 @@ import { Logger } from '@nestjs/common'
 import * as crypto from 'crypto'
 import { LockUtil } from '../common/redis/utils/lock.util'
 import { addToDLQ } from '../common/queues/utils/dlq.util'
-import { QUERY_LOCK_TIMEOUT_SECONDS } from '../common/constants'
+import { recordJobResponse } from '../common/queues/utils/job-status.util'
+import {
+  QUERY_LOCK_TIMEOUT_SECONDS,
+  RESPONSE_STREAM_MAXLEN,
+} from '../common/constants'
 import type { RateLimitResult } from '../common/rate-limit/rate-limit-manager.service'
+import { ProviderRegistryService } from '../common/api/provider-registry.service'
+import { UpstreamUnavailableError } from '../common/api/upstream-unavailable.error'
 
 jest.mock('./danbooru-api.service')
 jest.mock('../common/cache/cache.service')
@@ -22,6 +32,7 @@ jest.mock('ioredis')
 jest.mock('crypto')
 jest.mock('../common/redis/utils/lock.util')
 jest.mock('../common/queues/utils/dlq.util')
+jest.mock('../common/queues/utils/job-status.util')
 
 const mockLockUtil = {
   acquireLock: jest.fn(),
@@ -47,16 +58,31 @@ describe('DanbooruService', () => {
   let mockRateLimitManager: jest.Mocked<RateLimitManagerService>
   let mockConfigService: jest.Mocked<ConfigService>
   let mockLogger: jest.Mocked<Logger>
+  let mockProviderRegistry: { getFailoverChain: jest.Mock }
+  let mockTagResolver: { resolve: jest.Mock }
 
   beforeEach(async () => {
     mockApiService = {
       fetchPosts: jest.fn(),
+      fetchTags: jest.fn(),
+      fetchPostById: jest.fn(),
+      fetchPostByMd5: jest.fn(),
+      fetchPool: jest.fn(),
+      searchPools: jest.fn(),
+      fetchArtist: jest.fn(),
+      fetchWikiPage: jest.fn(),
+      fetchExplorePosts: jest.fn(),
+      fetchRelatedTags: jest.fn(),
+      fetchPostCount: jest.fn(),
+      searchIqdb: jest.fn(),
     } as unknown as jest.Mocked<DanbooruApiService>
 
     mockCacheService = {
       getCachedResponse: jest.fn(),
       setCache: jest.fn(),
       invalidateCache: jest.fn().mockResolvedValue(0),
+      getOrFetch: jest.fn(),
+      getResourceKey: jest.fn(),
     } as unknown as jest.Mocked<CacheService>
 
     mockRateLimitManager = {
@@ -67,6 +93,14 @@ describe('DanbooruService', () => {
       get: jest.fn(),
     } as unknown as jest.Mocked<ConfigService>
 
+    mockProviderRegistry = {
+      getFailoverChain: jest.fn().mockReturnValue([]),
+    }
+
+    mockTagResolver = {
+      resolve: jest.fn().mockResolvedValue(null),
+    }
+
     mockLogger = {
       log: jest.fn(),
       warn: jest.fn(),
@@ -86,6 +120,8 @@ describe('DanbooruService', () => {
         { provide: 'REDIS_CLIENT', useValue: mockRedis },
         { provide: Logger, useValue: mockLogger },
         { provide: LockUtil, useValue: mockLockUtil },
+        { provide: ProviderRegistryService, useValue: mockProviderRegistry },
+        { provide: TagResolverService, useValue: mockTagResolver },
       ],
     }).compile()
 
@@ -141,7 +177,12 @@ describe('DanbooruService', () => {
       mockCacheService.getCachedResponse.mockResolvedValue(null)
 
       // Arrange: Mock API success in fetchAndBuildResponse
-      mockApiService.fetchPosts.mockResolvedValue(mockPost)
+      mockApiService.fetchPosts.mockResolvedValue({
+        data: [mockPost as unknown as DanbooruPost],
+        metadata: { limit: 1 },
+        status: 200,
+        timestamp: '2023-01-01T00:00:00Z',
+      })
 
       // Arrange: Mock cache set in processRequest
       mockCacheService.setCache.mockResolvedValue(undefined)
@@ -157,14 +198,33 @@ describe('DanbooruService', () => {
       expect(result).toEqual({
         type: 'success',
         jobId,
-        imageUrl: 'https://example.com/image.jpg',
-        author: 'artist',
-        tags: 'cat rating:safe',
-        rating: 's',
-        source: 'source',
-        copyright: 'copyright',
-        id: 1,
-        characters: null,
+        posts: [
+          {
+            imageUrl: 'https://example.com/image.jpg',
+            author: 'artist',
+            tags: 'cat rating:safe',
+            rating: 's',
+            source: 'source',
+            copyright: 'copyright',
+            id: 1,
+            characters: null,
+            md5: null,
+            width: null,
+            height: null,
+            fileSize: null,
+            fileExt: null,
+            largeImageUrl: null,
+            sampleImageUrl: null,
+            previewImageUrl: null,
+            score: 100,
+            favCount: null,
+            createdAt: '2023-01-01T00:00:00.000Z',
+            metaTags: null,
+          },
+        ],
+        nextCursor: null,
+        prevCursor: null,
+        servedBy: 'danbooru',
       })
 
       // Assert: Rate limit checked
@@ -183,21 +243,29 @@ describe('DanbooruService', () => {
         true,
         1,
         ['cat'],
+        undefined,
       )
 
       // Assert: API fetch called (in fetchAndBuildResponse)
 
-      expect(mockApiService.fetchPosts).toHaveBeenCalledWith(query, 1, true)
+      expect(mockApiService.fetchPosts).toHaveBeenCalledWith(
+        query,
+        1,
+        true,
+        undefined,
+      )
 
-      // Assert: Cache set called after fetch
+      // Assert: Cache set called after fetch (servedBy is not cached)
 
       expect(mockCacheService.setCache).toHaveBeenCalledWith(
         'danbooru',
         query,
-        result,
+        { ...result, servedBy: undefined },
         true,
         1,
         ['cat'],
+        undefined,
+        undefined,
       )
 
       // Assert: Invalidation called twice
@@ -208,12 +276,21 @@ describe('DanbooruService', () => {
 
       expect(mockRedis.xadd).toHaveBeenCalledWith(
         'danbooru:responses',
+        'MAXLEN',
+        '~',
+        RESPONSE_STREAM_MAXLEN,
         '*',
         'jobId',
         jobId,
         'data',
         expect.any(String),
       )
+      expect(recordJobResponse).toHaveBeenCalledWith(
+        mockRedis,
+        'danbooru',
+        jobId,
+        result,
+      )
 
       // Assert: Lock acquired and released
       expect(mockLockUtil.acquireLock).toHaveBeenCalledWith(
@@ -226,6 +303,76 @@ describe('DanbooruService', () => {
       )
     })
 
+    it('should lock each page and limit of a query separately', async () => {
+      // Readable digest: the hashed input itself
+      ;(crypto.createHash as jest.Mock).mockImplementation(() => {
+        let input = ''
+        const hash: { update: jest.Mock; digest: jest.Mock } = {
+          update: jest.fn((value: string) => {
+            input += value
+            return hash
+          }),
+          digest: jest.fn(() => input),
+        }
+        return hash
+      })
+      mockLockUtil.acquireLock.mockResolvedValue(null)
+
+      await service.processRequest(jobId, query, clientId, {
+        limit: 5,
+        page: 2,
+      })
+      await service.processRequest(jobId, query, clientId, {
+        limit: 5,
+        cursor: 'b1234',
+      })
+
+      expect(mockLockUtil.acquireLock.mock.calls.map(([key]) => key)).toEqual([
+        'lock:query:danbooru:cat rating:s:5:2',
+        'lock:query:danbooru:cat rating:s:5:b1234',
+      ])
+    })
+
+    it('should fetch the resolved query and report the rewrite', async () => {
+      const queryRewrite = {
+        original: 'cat_girl rating:safe',
+        resolved: 'cat_ears rating:safe',
+        aliases: { cat_girl: 'cat_ears' },
+        impliedTags: [],
+      }
+      mockTagResolver.resolve.mockResolvedValueOnce(queryRewrite)
+      mockRateLimitManager.checkRateLimit.mockResolvedValue({
+        allowed: true,
+      } as const)
+      mockCacheService.getCachedResponse.mockResolvedValue(null)
+      mockApiService.fetchPosts.mockResolvedValue({
+        data: [mockPost as unknown as DanbooruPost],
+        metadata: { limit: 1 },
+        status: 200,
+        timestamp: '2023-01-01T00:00:00Z',
+      })
+
+      const result = await service.processRequest(
+        jobId,
+        'cat_girl rating:safe',
+        clientId,
+      )
+
+      expect(mockTagResolver.resolve).toHaveBeenCalledWith(
+        'cat_girl rating:safe',
+        jobId,
+      )
+      expect(mockApiService.fetchPosts).toHaveBeenCalledWith(
+        'cat_ears rating:safe',
+        1,
+        true,
+        undefined,
+      )
+      expect(result).toEqual(
+        expect.objectContaining({ type: 'success', queryRewrite }),
+      )
+    })
+
     it('should return cached response when cache hit (random=true)', async () => {
       // Arrange: Mock rate limit success
       mockRateLimitManager.checkRateLimit.mockResolvedValue({
@@ -236,12 +383,17 @@ describe('DanbooruService', () => {
       const cachedResponse = {
         type: 'success' as const,
         jobId: 'cached-job',
-        imageUrl: 'https://cached.com/image.jpg',
-        author: 'cached artist',
-        tags: 'cached:tags',
-        rating: 'q',
-        source: 'cached source',
-        copyright: 'cached copyright',
+        posts: [
+          {
+            id: 2,
+            imageUrl: 'https://cached.com/image.jpg',
+            author: 'cached artist',
+            tags: 'cached:tags',
+            rating: 'q',
+            source: 'cached source',
+            copyright: 'cached copyright',
+          },
+        ],
       }
       mockCacheService.getCachedResponse.mockResolvedValue(cachedResponse)
 
@@ -253,7 +405,7 @@ describe('DanbooruService', () => {
       const result = await service.processRequest(jobId, query, clientId)
 
       // Act & Assert
-      expect(result).toEqual(cachedResponse)
+      expect(result).toEqual({ ...cachedResponse, servedBy: 'danbooru' })
 
       // Assert: Cache get called
 
@@ -263,6 +415,7 @@ describe('DanbooruService', () => {
         true,
         1,
         ['cat'],
+        undefined,
       )
 
       // Assert: No API call
@@ -286,6 +439,78 @@ describe('DanbooruService', () => {
       expect(mockLockUtil.releaseLock).toHaveBeenCalled()
     })
 
+    it('should return every fetched post and cap the requested limit', async () => {
+      mockRateLimitManager.checkRateLimit.mockResolvedValue({
+        allowed: true,
+      } as const)
+      mockConfigService.get.mockImplementation((key: string) =>
+        key === 'DANBOORU_MAX_LIMIT' ? 5 : undefined,
+      )
+      mockCacheService.getCachedResponse.mockResolvedValue(null)
+      mockApiService.fetchPosts.mockResolvedValue({
+        data: [
+          mockPost as unknown as DanbooruPost,
+          { ...mockPost, id: 2 } as unknown as DanbooruPost,
+        ],
+        metadata: { limit: 5 },
+        status: 200,
+        timestamp: '2023-01-01T00:00:00Z',
+      })
+
+      const result = await service.processRequest(jobId, query, clientId, {
+        limit: 50,
+      })
+
+      expect(mockApiService.fetchPosts).toHaveBeenCalledWith(
+        query,
+        5,
+        true,
+        undefined,
+      )
+      expect(result.type).toBe('success')
+      expect(
+        (result as { posts: { id: number }[] }).posts.map(post => post.id),
+      ).toEqual([1, 2])
+    })
+
+    it('should page with a cursor and return neighbouring cursors', async () => {
+      mockRateLimitManager.checkRateLimit.mockResolvedValue({
+        allowed: true,
+      } as const)
+      mockCacheService.getCachedResponse.mockResolvedValue(null)
+      mockApiService.fetchPosts.mockResolvedValue({
+        data: [{ ...mockPost, id: 90 } as unknown as DanbooruPost],
+        metadata: { limit: 1, next: 'b90', prev: 'a90' },
+        status: 200,
+        timestamp: '2023-01-01T00:00:00Z',
+      })
+
+      const result = await service.processRequest(jobId, query, clientId, {
+        cursor: 'b100',
+      })
+
+      // Paging disables random ordering
+      expect(mockApiService.fetchPosts).toHaveBeenCalledWith(
+        query,
+        1,
+        false,
+        'b100',
+      )
+      expect(mockCacheService.getCachedResponse).toHaveBeenCalledWith(
+        'danbooru',
+        query,
+        false,
+        1,
+        ['cat'],
+        'b100',
+      )
+      expect(result).toMatchObject({
+        type: 'success',
+        nextCursor: 'b90',
+        prevCursor: 'a90',
+      })
+    })
+
     it('should handle rate limit failure', async () => {
       // Arrange: Rate limit fail
       const rateError: RateLimitResult = {
@@ -294,7 +519,8 @@ describe('DanbooruService', () => {
           type: 'error',
           jobId,
           error: 'Rate limited',
-        } as DanbooruErrorResponse,
+          code: 'rate_limited',
+        },
       }
       mockRateLimitManager.checkRateLimit.mockResolvedValue(rateError)
 
@@ -329,6 +555,7 @@ describe('DanbooruService', () => {
         type: 'error',
         jobId,
         error: 'Query is currently being processed',
+        code: 'in_progress',
       })
 
       // Assert: No further calls
@@ -361,6 +588,7 @@ describe('DanbooruService', () => {
         type: 'error',
         jobId,
         error: 'No posts found for the query or API error',
+        code: 'not_found',
       })
 
       // Assert: Cache get called
@@ -386,5 +614,737 @@ describe('DanbooruService', () => {
       expect(mockLockUtil.acquireLock).toHaveBeenCalled()
       expect(mockLockUtil.releaseLock).toHaveBeenCalled()
     })
+
+    it('should fail over to the next provider when upstream is unavailable', async () => {
+      mockRateLimitManager.checkRateLimit.mockResolvedValue({
+        allowed: true,
+      } as const)
+      mockCacheService.getCachedResponse.mockResolvedValue(null)
+      mockApiService.fetchPosts.mockRejectedValue(
+        new UpstreamUnavailableError('danbooru', 'status code 503', 503),
+      )
+      const unavailableFallback = {
+        getName: () => 'safebooru',
+        searchPosts: jest
+          .fn()
+          .mockRejectedValue(
+            new UpstreamUnavailableError('safebooru', 'timeout'),
+          ),
+      }
+      const fallback = {
+        getName: () => 'gelbooru',
+        searchPosts: jest.fn().mockResolvedValue({
+          type: 'success',
+          jobId,
+          posts: [],
+          nextCursor: null,
+          prevCursor: null,
+        }),
+      }
+      mockProviderRegistry.getFailoverChain.mockReturnValue([
+        unavailableFallback,
+        fallback,
+      ])
+
+      const result = await service.processRequest(jobId, query, clientId, {
+        limit: 2,
+      })
+
+      expect(mockProviderRegistry.getFailoverChain).toHaveBeenCalledWith(
+        'danbooru',
+      )
+      expect(fallback.searchPosts).toHaveBeenCalledWith(
+        jobId,
+        query,
+        clientId,
+        {
+          limit: 2,
+        },
+      )
+      expect(result).toMatchObject({ type: 'success', servedBy: 'gelbooru' })
+      expect(mockRedis.xadd).toHaveBeenCalledWith(
+        'danbooru:responses',
+        'MAXLEN',
+        '~',
+        RESPONSE_STREAM_MAXLEN,
+        '*',
+        'jobId',
+        jobId,
+        'data',
+        expect.stringContaining('"servedBy":"gelbooru"'),
+      )
+      expect(addToDLQ as jest.Mock).not.toHaveBeenCalled()
+    })
+
+    it('should not fail over when the query simply has no results', async () => {
+      mockRateLimitManager.checkRateLimit.mockResolvedValue({
+        allowed: true,
+      } as const)
+      mockCacheService.getCachedResponse.mockResolvedValue(null)
+      mockApiService.fetchPosts.mockResolvedValue(null)
+
+      const result = await service.processRequest(jobId, query, clientId)
+
+      expect(mockProviderRegistry.getFailoverChain).not.toHaveBeenCalled()
+      expect(result).toMatchObject({ type: 'error' })
+      expect(addToDLQ as jest.Mock).toHaveBeenCalled()
+    })
+
+    it('should answer zero-count queries without fetching posts or the DLQ', async () => {
+      mockRateLimitManager.checkRateLimit.mockResolvedValue({
+        allowed: true,
+      } as const)
+      mockCacheService.getCachedResponse.mockResolvedValue(null)
+      mockCacheService.getOrFetch.mockResolvedValue(0)
+
+      const result = await service.processRequest(jobId, query, clientId)
+
+      expect(result).toMatchObject({
+        type: 'success',
+        posts: [],
+        noResults: true,
+        message: 'No posts match this query, try tags.related for refinements',
+      })
+      expect(mockApiService.fetchPosts).not.toHaveBeenCalled()
+      expect(addToDLQ).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('processJob', () => {
+    const jobId = 'test-job-456'
+
+    beforeEach(() => {
+      mockRateLimitManager.checkRateLimit.mockResolvedValue({
+        allowed: true,
+      } as const)
+      mockRedis.xadd!.mockResolvedValue('1')
+      mockCacheService.getResourceKey.mockImplementation((...parts) =>
+        ['cache', ...parts].join(':'),
+      )
+      mockCacheService.getOrFetch.mockImplementation((_key, fetchFn) =>
+        fetchFn(),
+      )
+    })
+
+    it('should answer autocomplete jobs with cached tag suggestions', async () => {
+      mockApiService.fetchTags.mockResolvedValue([
+        { name: 'cat_ears', post_count: 500000, category: 0 },
+        { name: 'cat_(kemono_friends)', post_count: 120, category: 4 },
+      ])
+
+      const result = await service.processJob(
+        'autocomplete',
+        jobId,
+        ' Cat_* ',
+        'user123',
+        { limit: 50 },
+      )
+
+      expect(mockApiService.fetchTags).toHaveBeenCalledWith('cat_', 25)
+      expect(mockCacheService.getOrFetch).toHaveBeenCalledWith(
+        'cache:danbooru:autocomplete:cat_:limit:25',
+        expect.any(Function),
+        300,
+      )
+      expect(result).toEqual({
+        type: 'success',
+        jobId,
+        jobType: 'autocomplete',
+        query: 'cat_',
+        tags: [
+          { name: 'cat_ears', postCount: 500000, category: 'general' },
+          {
+            name: 'cat_(kemono_friends)',
+            postCount: 120,
+            category: 'character',
+          },
+        ],
+      })
+      expect(mockRedis.xadd).toHaveBeenCalledWith(
+        'danbooru:responses',
+        'MAXLEN',
+        '~',
+        RESPONSE_STREAM_MAXLEN,
+        '*',
+        'jobId',
+        jobId,
+        'data',
+        expect.stringContaining('"jobType":"autocomplete"'),
+      )
+    })
+
+    it('should publish an error for multi-tag autocomplete queries', async () => {
+      ;(addToDLQ as jest.Mock).mockResolvedValue(undefined)
+
+      const result = await service.processJob('autocomplete', jobId, 'cat dog')
+
+      expect(result).toEqual({
+        type: 'error',
+        jobId,
+        error: 'Autocomplete query must be a single tag prefix',
+        code: 'upstream',
+      })
+      expect(mockApiService.fetchTags).not.toHaveBeenCalled()
+    })
+
+    it('should look up a post by id in the search response shape', async () => {
+      mockApiService.fetchPostById.mockResolvedValue({
+        id: 42,
+        file_url: 'https://example.com/42.jpg',
+        tag_string_general: 'cat_ears',
+        tag_string_copyright: 'original',
+        rating: 'g',
+        md5: 'd34e4cf0a437a5d65f8e82b7bcd02606',
+        image_width: 4000,
+        image_height: 3000,
+        file_size: 12582912,
+        file_ext: 'png',
+        large_file_url: 'https://example.com/sample-42.jpg',
+        preview_file_url: 'https://example.com/preview-42.jpg',
+        score: 57,
+        fav_count: 80,
+        created_at: new Date('2024-01-01T00:00:00Z'),
+        tag_string_meta: 'highres absurdres',
+      } as DanbooruPost)
+
+      const result = await service.processJob('post.byId', jobId, '42')
+
+      expect(mockApiService.fetchPostById).toHaveBeenCalledWith(42)
+      expect(mockCacheService.getOrFetch).toHaveBeenCalledWith(
+        'cache:danbooru:post:id:42',
+        expect.any(Function),
+        604800,
+      )
+      expect(result).toEqual({
+        type: 'success',
+        jobId,
+        jobType: 'post.byId',
+        posts: [
+          {
+            id: 42,
+            imageUrl: 'https://example.com/42.jpg',
+            author: null,
+            tags: 'cat_ears',
+            rating: 'g',
+            source: null,
+            copyright: 'original',
+            characters: null,
+            md5: 'd34e4cf0a437a5d65f8e82b7bcd02606',
+            width: 4000,
+            height: 3000,
+            fileSize: 12582912,
+            fileExt: 'png',
+            largeImageUrl: 'https://example.com/sample-42.jpg',
+            sampleImageUrl: 'https://example.com/sample-42.jpg',
+            previewImageUrl: 'https://example.com/preview-42.jpg',
+            score: 57,
+            favCount: 80,
+            createdAt: '2024-01-01T00:00:00.000Z',
+            metaTags: 'highres absurdres',
+          },
+        ],
+        nextCursor: null,
+        prevCursor: null,
+      })
+    })
+
+    it('should project cached posts by fields and variant', async () => {
+      const fullPost = {
+        id: 42,
+        imageUrl: 'https://example.com/42.png',
+        largeImageUrl: 'https://example.com/sample-42.jpg',
+        tags: 'cat_ears',
+        rating: 'g',
+      }
+      mockCacheService.getOrFetch.mockResolvedValue(fullPost)
+
+      const result = await service.processJob(
+        'post.byId',
+        jobId,
+        '42',
+        undefined,
+        { fields: ['imageUrl'], variant: 'large' },
+      )
+
+      expect(mockApiService.fetchPostById).not.toHaveBeenCalled()
+      expect(result).toMatchObject({
+        posts: [
+          {
+            id: 42,
+            imageUrl: 'https://example.com/sample-42.jpg',
+            imageVariant: 'large',
+          },
+        ],
+      })
+      const [data] = (mockRedis.xadd!.mock.calls[0] as string[]).slice(-1)
+      const published = JSON.parse(data) as { posts: object[] }
+      expect(published.posts[0]).not.toHaveProperty('tags')
+    })
+
+    it('should publish to the resolved response stream', async () => {
+      mockCacheService.getOrFetch.mockResolvedValue({ id: 42 })
+
+      await service.processJob('post.byId', jobId, '42', 'bot1', {
+        responseStream: 'danbooru:responses:bot1',
+      })
+
+      expect(mockRedis.xadd).toHaveBeenCalledWith(
+        'danbooru:responses:bot1',
+        'MAXLEN',
+        '~',
+        RESPONSE_STREAM_MAXLEN,
+        '*',
+        'jobId',
+        jobId,
+        'data',
+        expect.any(String),
+      )
+    })
+
+    it('should publish an error when no post has the md5', async () => {
+      ;(addToDLQ as jest.Mock).mockResolvedValue(undefined)
+      mockApiService.fetchPostByMd5.mockResolvedValue(null)
+
+      const result = await service.processJob(
+        'post.byMd5',
+        jobId,
+        'D34E4CF0A437A5D65F8E82B7BCD02606',
+      )
+
+      expect(mockApiService.fetchPostByMd5).toHaveBeenCalledWith(
+        'd34e4cf0a437a5d65f8e82b7bcd02606',
+      )
+      expect(result).toEqual({
+        type: 'error',
+        jobId,
+        error: 'Post not found',
+        code: 'not_found',
+      })
+    })
+
+    it('should reject malformed post ids', async () => {
+      ;(addToDLQ as jest.Mock).mockResolvedValue(undefined)
+
+      const result = await service.processJob('post.byId', jobId, 'cat')
+
+      expect(result).toMatchObject({
+        type: 'error',
+        error: 'post.byId query must be a post id',
+      })
+      expect(mockApiService.fetchPostById).not.toHaveBeenCalled()
+    })
+
+    describe('pools', () => {
+      const pool = {
+        id: 7,
+        name: 'my_doujin',
+        description: '',
+        category: 'series',
+        post_ids: [30, 10, 20],
+        post_count: 3,
+        is_active: false,
+        created_at: new Date('2024-01-01T00:00:00Z'),
+      } as DanbooruPool
+      const buildPost = (id: number) =>
+        ({
+          id,
+          file_url: `https://example.com/${id}.jpg`,
+          tag_string_general: 'comic',
+          tag_string_copyright: 'original',
+          rating: 'g',
+        }) as DanbooruPost
+
+      it('should return pool metadata with ordered post ids', async () => {
+        mockApiService.fetchPool.mockResolvedValue(pool)
+
+        const result = await service.processJob('pool.get', jobId, '7')
+
+        expect(mockCacheService.getOrFetch).toHaveBeenCalledWith(
+          'cache:danbooru:pool:id:7',
+          expect.any(Function),
+        )
+        expect(result).toEqual({
+          type: 'success',
+          jobId,
+          jobType: 'pool.get',
+          pool: {
+            id: 7,
+            name: 'my_doujin',
+            description: null,
+            category: 'series',
+            postCount: 3,
+            postIds: [30, 10, 20],
+            isActive: false,
+            createdAt: '2024-01-01T00:00:00.000Z',
+            updatedAt: null,
+          },
+        })
+        expect(mockApiService.fetchPosts).not.toHaveBeenCalled()
+      })
+
+      it('should expand a page of posts in pool order', async () => {
+        mockApiService.fetchPool.mockResolvedValue(pool)
+        mockApiService.fetchPosts.mockResolvedValue({
+          data: [buildPost(10), buildPost(30)], // 20 is hidden upstream
+          status: 200,
+          timestamp: '2024-01-01T00:00:00Z',
+        })
+
+        const result = await service.processJob('pool.get', jobId, '7', '', {
+          expand: true,
+          limit: 2,
+        })
+
+        expect(mockApiService.fetchPosts).toHaveBeenCalledWith(
+          'id:30,10',
+          2,
+          false,
+        )
+        expect(result).toMatchObject({
+          posts: [{ id: 30 }, { id: 10 }],
+          page: 1,
+          nextPage: 2,
+          prevPage: null,
+        })
+      })
+
+      it('should search pools by name prefix', async () => {
+        mockApiService.searchPools.mockResolvedValue([pool])
+
+        const result = await service.processJob(
+          'pool.search',
+          jobId,
+          'My Doujin',
+          undefined,
+          { page: 2 },
+        )
+
+        expect(mockApiService.searchPools).toHaveBeenCalledWith(
+          'my_doujin*',
+          20,
+          2,
+        )
+        expect(mockCacheService.getOrFetch).toHaveBeenCalledWith(
+          'cache:danbooru:pool:search:my_doujin*:page:2:limit:20',
+          expect.any(Function),
+        )
+        expect(result).toMatchObject({
+          jobType: 'pool.search',
+          query: 'my_doujin*',
+          pools: [{ id: 7, postIds: [30, 10, 20] }],
+          page: 2,
+          nextPage: null,
+          prevPage: 1,
+        })
+      })
+    })
+
+    describe('artists and wiki pages', () => {
+      it('should return artist info with urls by normalized name', async () => {
+        mockApiService.fetchArtist.mockResolvedValue({
+          id: 12,
+          name: 'kantoku',
+          other_names: ['カントク'],
+          urls: [
+            { url: 'https://twitter.com/kantoku_5th', is_active: true },
+            { url: 'https://www.pixiv.net/users/45955', is_active: false },
+          ],
+          is_banned: false,
+          created_at: new Date('2024-01-01T00:00:00Z'),
+        } as DanbooruArtist)
+
+        const result = await service.processJob(
+          'artist.get',
+          jobId,
+          ' Kantoku ',
+        )
+
+        expect(mockApiService.fetchArtist).toHaveBeenCalledWith('kantoku')
+        expect(mockCacheService.getOrFetch).toHaveBeenCalledWith(
+          'cache:danbooru:artist:kantoku',
+          expect.any(Function),
+          86400,
+        )
+        expect(result).toEqual({
+          type: 'success',
+          jobId,
+          jobType: 'artist.get',
+          artist: {
+            id: 12,
+            name: 'kantoku',
+            groupName: null,
+            otherNames: ['カントク'],
+            urls: [
+              { url: 'https://twitter.com/kantoku_5th', isActive: true },
+              { url: 'https://www.pixiv.net/users/45955', isActive: false },
+            ],
+            isBanned: false,
+            createdAt: '2024-01-01T00:00:00.000Z',
+            updatedAt: null,
+          },
+        })
+      })
+
+      it('should return wiki pages by title', async () => {
+        mockApiService.fetchWikiPage.mockResolvedValue({
+          id: 3,
+          title: 'cat_ears',
+          body: 'Feline ears on a non-cat character.',
+          created_at: new Date('2024-01-01T00:00:00Z'),
+        } as DanbooruWikiPage)
+
+        const result = await service.processJob('wiki.get', jobId, 'Cat ears')
+
+        expect(mockApiService.fetchWikiPage).toHaveBeenCalledWith('cat_ears')
+        expect(result).toMatchObject({
+          jobType: 'wiki.get',
+          wiki: { id: 3, title: 'cat_ears', otherNames: [], updatedAt: null },
+        })
+      })
+
+      it('should publish an error for unknown artists', async () => {
+        ;(addToDLQ as jest.Mock).mockResolvedValue(undefined)
+        mockApiService.fetchArtist.mockResolvedValue(null)
+
+        const result = await service.processJob('artist.get', jobId, 'nobody')
+
+        expect(result).toEqual({
+          type: 'error',
+          jobId,
+          error: 'Artist not found',
+          code: 'not_found',
+        })
+      })
+
+      it('should reject wildcard names', async () => {
+        ;(addToDLQ as jest.Mock).mockResolvedValue(undefined)
+
+        const result = await service.processJob('wiki.get', jobId, 'cat*')
+
+        expect(result).toMatchObject({
+          type: 'error',
+          error: 'wiki.get query must be an exact name',
+        })
+        expect(mockApiService.fetchWikiPage).not.toHaveBeenCalled()
+      })
+    })
+
+    describe('related tags and counts', () => {
+      it('should return related tags for the canonical query', async () => {
+        mockApiService.fetchRelatedTags.mockResolvedValue([
+          {
+            tag: { name: 'animal_ears', post_count: 900000, category: 0 },
+            frequency: 0.85,
+          },
+          { tag: { name: '' } },
+        ])
+
+        const result = await service.processJob(
+          'tags.related',
+          jobId,
+          'Cat_Ears  1girl',
+        )
+
+        expect(mockApiService.fetchRelatedTags).toHaveBeenCalledWith(
+          '1girl cat_ears',
+          25,
+        )
+        expect(mockCacheService.getOrFetch).toHaveBeenCalledWith(
+          'cache:danbooru:related_tags:1girl cat_ears:limit:25',
+          expect.any(Function),
+          3600,
+        )
+        expect(result).toEqual({
+          type: 'success',
+          jobId,
+          jobType: 'tags.related',
+          query: '1girl cat_ears',
+          tags: [
+            {
+              name: 'animal_ears',
+              postCount: 900000,
+              category: 'general',
+              frequency: 0.85,
+            },
+          ],
+        })
+      })
+
+      it('should return post counts', async () => {
+        mockApiService.fetchPostCount.mockResolvedValue(1234)
+
+        const result = await service.processJob(
+          'tags.count',
+          jobId,
+          'cat rating:safe',
+        )
+
+        expect(mockCacheService.getOrFetch).toHaveBeenCalledWith(
+          'cache:danbooru:post_count:cat rating:s',
+          expect.any(Function),
+          300,
+        )
+        expect(result).toMatchObject({
+          jobType: 'tags.count',
+          query: 'cat rating:s',
+          count: 1234,
+        })
+      })
+    })
+
+    describe('iqdb', () => {
+      it('should return matching posts with their similarity', async () => {
+        ;(crypto.createHash as jest.Mock).mockReturnValue({
+          update: jest.fn().mockReturnThis(),
+          digest: jest.fn().mockReturnValue('image-hash'),
+        })
+        mockApiService.searchIqdb.mockResolvedValue([
+          {
+            post: {
+              id: 42,
+              file_url: 'https://example.com/42.jpg',
+              tag_string_general: 'cat',
+              tag_string_copyright: 'original',
+              rating: 'g',
+            } as DanbooruPost,
+            score: 94.5,
+          },
+        ])
+
+        const result = await service.processJob(
+          'iqdb.search',
+          jobId,
+          'https://example.com/cat.jpg',
+          undefined,
+          { imageUrl: 'https://example.com/cat.jpg' },
+        )
+
+        expect(mockApiService.searchIqdb).toHaveBeenCalledWith(
+          { url: 'https://example.com/cat.jpg', data: undefined },
+          5,
+          60,
+        )
+        expect(mockCacheService.getOrFetch).toHaveBeenCalledWith(
+          'cache:danbooru:iqdb:url:image-hash:limit:5',
+          expect.any(Function),
+          86400,
+        )
+        expect(result).toMatchObject({
+          jobType: 'iqdb.search',
+          posts: [{ id: 42, similarity: 94.5 }],
+          nextCursor: null,
+        })
+      })
+
+      it('should publish an error without an image', async () => {
+        ;(addToDLQ as jest.Mock).mockResolvedValue(undefined)
+
+        const result = await service.processJob('iqdb.search', jobId, '')
+
+        expect(result).toMatchObject({
+          type: 'error',
+          error: 'iqdb.search needs imageUrl or imageData',
+        })
+        expect(mockApiService.searchIqdb).not.toHaveBeenCalled()
+      })
+    })
+
+    describe('explore feeds', () => {
+      const buildPost = (id: number, rating: string) =>
+        ({
+          id,
+          file_url: `https://example.com/${id}.jpg`,
+          tag_string_general: 'scenery',
+          tag_string_copyright: 'original',
+          rating,
+        }) as DanbooruPost
+
+      it('should cache the popular feed and filter it by rating', async () => {
+        mockApiService.fetchExplorePosts.mockResolvedValue([
+          buildPost(1, 'g'),
+          buildPost(2, 'e'),
+          buildPost(3, 's'),
+        ])
+
+        const result = await service.processJob(
+          'explore.popular',
+          jobId,
+          'week date:2024-03-01 -rating:explicit',
+          undefined,
+          { limit: 3 },
+        )
+
+        expect(mockApiService.fetchExplorePosts).toHaveBeenCalledWith(
+          'popular',
+          '2024-03-01',
+          'week',
+          3,
+          1,
+        )
+        expect(mockCacheService.getOrFetch).toHaveBeenCalledWith(
+          'cache:danbooru:explore:popular:week:2024-03-01:page:1:limit:3',
+          expect.any(Function),
+          600,
+        )
+        expect(result).toMatchObject({
+          jobType: 'explore.popular',
+          scale: 'week',
+          date: '2024-03-01',
+          posts: [{ id: 1 }, { id: 3 }],
+          page: 1,
+          nextPage: 2,
+          prevPage: null,
+        })
+      })
+
+      it("should default to today's daily feed", async () => {
+        jest.useFakeTimers({ now: new Date('2024-05-06T12:00:00Z') })
+        mockApiService.fetchExplorePosts.mockResolvedValue([buildPost(1, 'q')])
+
+        try {
+          const result = await service.processJob(
+            'explore.curated',
+            jobId,
+            'rating:g,s',
+          )
+
+          expect(mockApiService.fetchExplorePosts).toHaveBeenCalledWith(
+            'curated',
+            '2024-05-06',
+            'day',
+            20,
+            1,
+          )
+          expect(result).toMatchObject({ posts: [], nextPage: null })
+        } finally {
+          jest.useRealTimers()
+        }
+      })
+
+      it('should reject tag queries and non-daily viewed feeds', async () => {
+        ;(addToDLQ as jest.Mock).mockResolvedValue(undefined)
+
+        await expect(
+          service.processJob('explore.popular', jobId, 'cat_ears'),
+        ).resolves.toMatchObject({
+          type: 'error',
+          error:
+            'Explore queries take one scale (day, week, month), one date: and rating: terms, got "cat_ears"',
+        })
+        await expect(
+          service.processJob('explore.viewed', jobId, 'month'),
+        ).resolves.toMatchObject({
+          type: 'error',
+          error: 'explore.viewed only has a daily feed',
+        })
+        expect(mockApiService.fetchExplorePosts).not.toHaveBeenCalled()
+      })
+    })
+
+    it('should throw for unsupported job types', async () => {
+      await expect(service.processJob('unknown', jobId, 'cat')).rejects.toThrow(
+        'Unsupported job type for danbooru: unknown',
+      )
+    })
   })
 })
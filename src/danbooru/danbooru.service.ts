@@ -1,379 +1,796 @@
-import { Injectable, Logger, Inject } from '@nestjs/common'
+import { Injectable, Inject } from '@nestjs/common'
 import { ConfigService } from '@nestjs/config'
 import {
-  DanbooruResponse,
+  DanbooruArtistGetResponse,
+  DanbooruAutocompleteResponse,
+  DanbooruExploreFeed,
+  DanbooruExploreResponse,
+  DanbooruIqdbResponse,
+  DanbooruPoolGetResponse,
+  DanbooruPoolResponse,
+  DanbooruPoolSearchResponse,
+  DanbooruPostLookupResponse,
+  DanbooruPostResponse,
+  DanbooruRelatedTagsResponse,
+  DanbooruRequestOptions,
   DanbooruSuccessResponse,
-  DanbooruErrorResponse,
+  DanbooruTagCountResponse,
+  DanbooruWikiGetResponse,
 } from './interfaces/danbooru.interface'
-import { CacheableResponse } from '../common/cache/cache.service'
-import { DanbooruPost } from './dto/danbooru-post.class'
-import { addToDLQ } from '../common/queues/utils/dlq.util'
 import {
-  RESPONSES_STREAM,
-  QUERY_LOCK_TIMEOUT_SECONDS,
-  DANBOORU_TAG_PATTERN,
-  DANBOORU_RANDOM_PATTERN,
+  ARTIST_GET_JOB_TYPE,
+  ARTIST_RESOURCE,
+  ARTIST_WIKI_CACHE_TTL_SECONDS,
+  AUTOCOMPLETE_CACHE_TTL_SECONDS,
+  AUTOCOMPLETE_JOB_TYPE,
+  AUTOCOMPLETE_RESOURCE,
+  DANBOORU_API_PREFIX,
+  DEFAULT_AUTOCOMPLETE_LIMIT,
+  DEFAULT_EXPLORE_LIMIT,
+  DEFAULT_IQDB_LIMIT,
+  DEFAULT_POOL_PAGE_SIZE,
+  DEFAULT_RELATED_TAGS_LIMIT,
+  EXPLORE_CACHE_TTL_SECONDS,
+  EXPLORE_CURATED_JOB_TYPE,
+  EXPLORE_POPULAR_JOB_TYPE,
+  EXPLORE_RESOURCE,
+  EXPLORE_VIEWED_JOB_TYPE,
+  IQDB_CACHE_TTL_SECONDS,
+  IQDB_MIN_SIMILARITY,
+  IQDB_RESOURCE,
+  IQDB_SEARCH_JOB_TYPE,
+  LIMIT_SUFFIX,
+  MAX_AUTOCOMPLETE_LIMIT,
+  MAX_IQDB_LIMIT,
+  MAX_POOL_PAGE_SIZE,
+  MAX_POSTS_LIMIT,
+  MAX_RELATED_TAGS_LIMIT,
+  PAGE_SUFFIX,
+  POOL_GET_JOB_TYPE,
+  POOL_RESOURCE,
+  POOL_SEARCH_JOB_TYPE,
+  POST_BY_ID_JOB_TYPE,
+  POST_BY_MD5_JOB_TYPE,
+  POST_CACHE_TTL_SECONDS,
+  POST_COUNT_CACHE_TTL_SECONDS,
+  POST_COUNT_RESOURCE,
+  POST_RESOURCE,
+  RELATED_TAGS_CACHE_TTL_SECONDS,
+  RELATED_TAGS_RESOURCE,
+  TAGS_COUNT_JOB_TYPE,
+  TAGS_RELATED_JOB_TYPE,
+  WIKI_GET_JOB_TYPE,
+  WIKI_RESOURCE,
 } from '../common/constants'
 import { DanbooruApiService } from './danbooru-api.service'
+import { TagResolverService } from './tag-resolver.service'
 import { CacheService } from '../common/cache/cache.service'
 import { CacheManagerService } from '../common/cache/cache-manager.service'
 import { RateLimitManagerService } from '../common/rate-limit/rate-limit-manager.service'
 import { LockUtil } from '../common/redis/utils/lock.util'
+import { BaseBooruService } from '../common/api/base-booru.service'
+import { ProviderRegistryService } from '../common/api/provider-registry.service'
+import { NotFoundError } from '../common/api/not-found.error'
+import type { BooruJobHandler } from '../common/api/base-api.interface'
 import Redis from 'ioredis'
 import * as crypto from 'crypto'
+import { canonicalizeQuery } from '../common/query/utils/query-canonicalizer.util'
+import type { DanbooruPost } from './dto/danbooru-post.class'
 import {
-  extractTagsFromQuery,
+  buildArtistResponse,
+  buildPoolResponse,
+  buildPostResponse,
+  buildRelatedTags,
   buildSuccessResponse,
+  buildTagSuggestions,
+  buildWikiPageResponse,
+  parseExploreQuery,
 } from './utils/danbooru-utils'
 
 @Injectable()
-export class DanbooruService {
-  private readonly logger = new Logger(DanbooruService.name)
+export class DanbooruService extends BaseBooruService {
+  protected readonly apiPrefix = DANBOORU_API_PREFIX
 
   constructor(
-    private configService: ConfigService,
-    @Inject('REDIS_CLIENT') private readonly redis: Redis,
-    private readonly lockUtil: LockUtil,
+    configService: ConfigService,
+    @Inject('REDIS_CLIENT') redis: Redis,
+    lockUtil: LockUtil,
     private readonly danbooruApiService: DanbooruApiService,
-    private readonly cacheService: CacheService,
-    private readonly rateLimitManagerService: RateLimitManagerService,
+    cacheService: CacheService,
+    rateLimitManagerService: RateLimitManagerService,
     private readonly cacheManagerService: CacheManagerService,
-  ) {}
+    providerRegistry: ProviderRegistryService,
+    private readonly tagResolverService: TagResolverService,
+  ) {
+    super(
+      configService,
+      redis,
+      lockUtil,
+      cacheService,
+      rateLimitManagerService,
+      providerRegistry,
+    )
+  }
+
+  getApiService(): DanbooruApiService {
+    return this.danbooruApiService
+  }
 
   /**
-   * Request handler with query-level locking for deduplication.
-   * Broken into sub-methods for SRP: locking, params, rate/cache, fetch, invalidation, errors.
-   * Preserves behavior: acquire/release lock, cache hit/miss, publish, DLQ.
+   * Resolves tag aliases/implications, fetches posts + builds success response.
+   * The rewrite, if any, is reported as `queryRewrite`.
+   * Queries that tags.count reports as empty get a `noResults` response without a
+   * post fetch; otherwise throws if no posts (for catch in processRequest).
+   * @param query - Query string
+   * @param random - Random flag
+   * @param limit - Limit
+   * @param jobId - Job ID
+   * @param page - Page number or cursor
+   * @returns Success response
    */
-  async processRequest(
-    jobId: string,
+  protected async fetchAndBuildResponse(
     query: string,
-    clientId?: string,
-  ): Promise<DanbooruResponse> {
-    this.logger.log(
-      `Processing job ${jobId} for query: ${query.replace(/./g, '*')}`,
-      jobId,
-    )
-
-    const lockContext = await this.acquireQueryLock(query, jobId)
-    if (!lockContext) {
-      return this.handleDuplicateProcessing(
+    random: boolean,
+    limit: number,
+    jobId: string,
+    page?: string,
+  ): Promise<DanbooruSuccessResponse> {
+    const queryRewrite = await this.tagResolverService.resolve(query, jobId)
+    const resolvedQuery = queryRewrite?.resolved ?? query
+    if ((await this.countPostsForSearch(resolvedQuery, jobId)) === 0) {
+      this.logger.log(`No posts match the query for job ${jobId}`, jobId)
+      return {
+        type: 'success',
         jobId,
-        'Query is currently being processed',
-      )
+        posts: [],
+        nextCursor: null,
+        prevCursor: null,
+        noResults: true,
+        message: 'No posts match this query, try tags.related for refinements',
+        ...(queryRewrite ? { queryRewrite } : {}),
+      }
     }
 
-    try {
-      const { random, limit, tags } = this.prepareRequestParams(query)
-
-      const rateCheck = await this.rateLimitManagerService.checkRateLimit(
-        'danbooru',
-        jobId,
-        clientId,
-      )
-      if (!rateCheck.allowed) {
-        return rateCheck.error
-      }
+    const result = await this.danbooruApiService.fetchPosts(
+      resolvedQuery,
+      limit,
+      random,
+      page,
+    )
+    if (!result) {
+      throw new NotFoundError('No posts found for the query or API error')
+    }
 
-      let response = await this.getOrFetchFromCache(
-        query,
-        random,
-        limit,
-        tags,
-        jobId,
-      )
-      if (!response) {
-        response = await this.fetchAndBuildResponse(query, random, limit, jobId)
-        await this.cacheService.setCache(
-          'danbooru',
-          query,
-          response as CacheableResponse,
-          random,
-          limit,
-          tags,
-        )
-      }
+    const response: DanbooruSuccessResponse = {
+      ...buildSuccessResponse(result.data, jobId, result.metadata),
+      ...(queryRewrite ? { queryRewrite } : {}),
+    }
+    this.logger.log(
+      `Found ${response.posts.length} posts for job ${jobId} (limit ${limit})`,
+      jobId,
+    )
 
-      await this.performCacheInvalidation(tags, random, jobId)
-      await this.publishResponse(jobId, response)
+    return response
+  }
 
-      return response
-    } catch (error) {
-      return this.handleErrorAndPublish(jobId, query, error)
-    } finally {
-      await this.releaseQueryLock(lockContext, jobId)
+  protected getJobHandlers(): Record<string, BooruJobHandler> {
+    return {
+      [AUTOCOMPLETE_JOB_TYPE]: (jobId, query, options) =>
+        this.autocomplete(jobId, query, options),
+      [POST_BY_ID_JOB_TYPE]: (jobId, query) => this.getPostById(jobId, query),
+      [POST_BY_MD5_JOB_TYPE]: (jobId, query) => this.getPostByMd5(jobId, query),
+      [POOL_GET_JOB_TYPE]: (jobId, query, options) =>
+        this.getPool(jobId, query, options),
+      [POOL_SEARCH_JOB_TYPE]: (jobId, query, options) =>
+        this.searchPools(jobId, query, options),
+      [ARTIST_GET_JOB_TYPE]: (jobId, query) => this.getArtist(jobId, query),
+      [WIKI_GET_JOB_TYPE]: (jobId, query) => this.getWikiPage(jobId, query),
+      [EXPLORE_POPULAR_JOB_TYPE]: (jobId, query, options) =>
+        this.explore('popular', jobId, query, options),
+      [EXPLORE_CURATED_JOB_TYPE]: (jobId, query, options) =>
+        this.explore('curated', jobId, query, options),
+      [EXPLORE_VIEWED_JOB_TYPE]: (jobId, query, options) =>
+        this.explore('viewed', jobId, query, options),
+      [TAGS_RELATED_JOB_TYPE]: (jobId, query, options) =>
+        this.getRelatedTags(jobId, query, options),
+      [TAGS_COUNT_JOB_TYPE]: (jobId, query) => this.getTagCount(jobId, query),
+      [IQDB_SEARCH_JOB_TYPE]: (jobId, _query, options) =>
+        this.searchIqdb(jobId, options),
     }
   }
 
   /**
-   * Acquires query lock using LockUtil.
-   * Simplified: removed manual heartbeat (performance neutral, LockUtil handles TTL).
-   * @param query - Query string to hash for lock key
-   * @param jobId - Job ID for logging
-   * @returns Lock context or null if not acquired
+   * Reverse image search: posts similar to the image, with their similarity score.
+   * Matches below DANBOORU_IQDB_MIN_SIMILARITY (default 60) are left out. Results are
+   * cached for DANBOORU_IQDB_TTL_SECONDS (default 1 day) under
+   * `cache:danbooru:iqdb:{url|data}:{sha256}:limit:{n}`.
+   * @param jobId - Job ID
+   * @param options - imageUrl or imageData, limit (default 5, max 20)
+   * @throws Error if neither imageUrl nor imageData is set
    */
-  private async acquireQueryLock(
-    query: string,
+  private async searchIqdb(
     jobId: string,
-  ): Promise<{ lockKey: string; lockValue: string } | null> {
-    const queryHash = crypto.createHash('sha256').update(query).digest('hex')
-    const lockKey = `lock:query:${queryHash}`
+    options: DanbooruRequestOptions,
+  ): Promise<DanbooruIqdbResponse> {
+    const { imageUrl, imageData } = options
+    if (!imageUrl && !imageData) {
+      throw new Error('iqdb.search needs imageUrl or imageData')
+    }
+    const limit = Math.min(
+      Math.max(Number(options.limit) || DEFAULT_IQDB_LIMIT, 1),
+      MAX_IQDB_LIMIT,
+    )
+    const similarity =
+      Number(this.configService.get<number>('DANBOORU_IQDB_MIN_SIMILARITY')) ||
+      IQDB_MIN_SIMILARITY
+    const ttl =
+      Number(this.configService.get<number>('DANBOORU_IQDB_TTL_SECONDS')) ||
+      IQDB_CACHE_TTL_SECONDS
+    const digest = crypto
+      .createHash('sha256')
+      .update(imageUrl ?? imageData ?? '')
+      .digest('hex')
 
-    const lockValue = await this.lockUtil.acquireLock(
-      lockKey,
-      QUERY_LOCK_TIMEOUT_SECONDS,
+    const posts = await this.cacheService.getOrFetch(
+      this.cacheService.getResourceKey(
+        this.apiPrefix,
+        IQDB_RESOURCE,
+        imageUrl ? 'url' : 'data',
+        digest,
+        `${LIMIT_SUFFIX}:${limit}`,
+      ),
+      async () =>
+        (
+          await this.danbooruApiService.searchIqdb(
+            { url: imageUrl, data: imageData },
+            limit,
+            similarity,
+          )
+        ).map(({ post, score }) => ({
+          ...buildPostResponse(post),
+          similarity: score,
+        })),
+      ttl,
+    )
+    this.logger.log(
+      `Found ${posts.length} IQDB matches for job ${jobId}`,
+      jobId,
     )
-    if (!lockValue) {
-      this.logger.warn(
-        `Query lock not acquired for job ${jobId} (already processing)`,
-        jobId,
-      )
-      return null
-    }
 
-    return { lockKey, lockValue }
+    return {
+      type: 'success',
+      jobId,
+      jobType: IQDB_SEARCH_JOB_TYPE,
+      posts,
+      nextCursor: null,
+      prevCursor: null,
+    }
   }
 
   /**
-   * Early return for duplicate requests: publish error and return.
+   * Tags that often appear with the query, to suggest refinements.
+   * Cached for DANBOORU_RELATED_TAGS_TTL_SECONDS (default 3600) per canonical query + limit.
    * @param jobId - Job ID
-   * @param errorMsg - Error message for response
-   * @returns Error response
+   * @param query - Tag query
+   * @param options - limit (default 25, max 100)
    */
-  private async handleDuplicateProcessing(
+  private async getRelatedTags(
     jobId: string,
-    errorMsg: string,
-  ): Promise<DanbooruErrorResponse> {
-    const error: DanbooruErrorResponse = {
-      type: 'error',
+    query: string,
+    options: DanbooruRequestOptions,
+  ): Promise<DanbooruRelatedTagsResponse> {
+    const canonical = canonicalizeQuery(query)
+    const limit = Math.min(
+      Math.max(Number(options.limit) || DEFAULT_RELATED_TAGS_LIMIT, 1),
+      MAX_RELATED_TAGS_LIMIT,
+    )
+    const ttl =
+      Number(
+        this.configService.get<number>('DANBOORU_RELATED_TAGS_TTL_SECONDS'),
+      ) || RELATED_TAGS_CACHE_TTL_SECONDS
+
+    const tags = await this.cacheService.getOrFetch(
+      this.cacheService.getResourceKey(
+        this.apiPrefix,
+        RELATED_TAGS_RESOURCE,
+        canonical,
+        `${LIMIT_SUFFIX}:${limit}`,
+      ),
+      async () =>
+        buildRelatedTags(
+          await this.danbooruApiService.fetchRelatedTags(canonical, limit),
+        ),
+      ttl,
+    )
+    this.logger.log(`Found ${tags.length} related tags for job ${jobId}`, jobId)
+
+    return {
+      type: 'success',
       jobId,
-      error: errorMsg,
+      jobType: TAGS_RELATED_JOB_TYPE,
+      query: canonical,
+      tags,
     }
-    await this.publishResponse(jobId, error)
-    return error
   }
 
-  /**
-   * Prepares request parameters: config + extract tags.
-   * @param query - Query string
-   * @returns Params object with random, limit, tags
-   */
-  private prepareRequestParams(query: string): {
-    random: boolean
-    limit: number
-    tags: string[]
-  } {
+  private async getTagCount(
+    jobId: string,
+    query: string,
+  ): Promise<DanbooruTagCountResponse> {
+    const canonical = canonicalizeQuery(query)
+    const count = await this.getPostCount(canonical)
+    if (count === null) {
+      throw new Error('Post count unavailable')
+    }
     return {
-      random: this.configService.get<boolean>('DANBOORU_RANDOM') || true,
-      limit: this.configService.get<number>('DANBOORU_LIMIT') || 1,
-      tags: extractTagsFromQuery(query),
+      type: 'success',
+      jobId,
+      jobType: TAGS_COUNT_JOB_TYPE,
+      query: canonical,
+      count,
     }
   }
 
   /**
-   * Gets from cache or returns null to trigger fetch + build response.
-   * Returns null if cache miss (for throw in orchestrator).
-   * @param query - Query string
-   * @param random - Random flag
-   * @param limit - Limit
-   * @param tags - Extracted tags
-   * @param jobId - Job ID for logging
-   * @returns Cached response or null
+   * Post count of a query, cached for DANBOORU_POST_COUNT_TTL_SECONDS (default 300)
+   * under `cache:danbooru:post_count:{canonical query}`. Shared by tags.count and
+   * the zero-result check of searches.
+   * @returns Count, or null when Danbooru returned none
    */
-  private async getOrFetchFromCache(
+  private async getPostCount(query: string): Promise<number | null> {
+    const canonical = canonicalizeQuery(query)
+    const ttl =
+      Number(
+        this.configService.get<number>('DANBOORU_POST_COUNT_TTL_SECONDS'),
+      ) || POST_COUNT_CACHE_TTL_SECONDS
+
+    return this.cacheService.getOrFetch(
+      this.cacheService.getResourceKey(
+        this.apiPrefix,
+        POST_COUNT_RESOURCE,
+        canonical,
+      ),
+      () => this.danbooruApiService.fetchPostCount(canonical),
+      ttl,
+    )
+  }
+
+  // The count is only a shortcut: when disabled or failing, the search runs as usual
+  private async countPostsForSearch(
     query: string,
-    random: boolean,
-    limit: number,
-    tags: string[],
     jobId: string,
-  ): Promise<DanbooruSuccessResponse | null> {
-    const cached =
-      await this.cacheService.getCachedResponse<DanbooruSuccessResponse>(
-        'danbooru',
-        query,
-        random,
-        limit,
-        tags,
+  ): Promise<number | null> {
+    if (this.configService.get<string>('DANBOORU_CHECK_EMPTY') === 'false') {
+      return null
+    }
+    try {
+      return await this.getPostCount(query)
+    } catch (error) {
+      this.logger.warn(
+        `Post count failed for job ${jobId}, searching anyway: ${(error as Error).message}`,
+        jobId,
       )
-    if (cached) {
-      this.logger.log(`Cache hit for danbooru job ${jobId}`)
-      return cached
+      return null
     }
-
-    return null // Trigger fetch in caller
   }
 
   /**
-   * Fetches post + builds success response.
-   * Throws if no post (for catch in processRequest).
-   * @param query - Query string
-   * @param random - Random flag
-   * @param limit - Limit
+   * One page of an explore feed, e.g. "top of the day" without a tag query.
+   * The unfiltered page is cached for DANBOORU_EXPLORE_TTL_SECONDS (default 600) under
+   * `cache:danbooru:explore:{feed}:{scale}:{date}:page:{n}:limit:{n}`, the rating
+   * filter is applied on top so every filter shares one upstream request.
+   * @param feed - popular, curated or viewed
    * @param jobId - Job ID
-   * @returns Success response
+   * @param query - Scale, date and rating terms, see parseExploreQuery
+   * @param options - page, limit (default 20)
+   * @throws Error if the query has other terms, or a scale other than day for viewed
    */
-  private async fetchAndBuildResponse(
-    query: string,
-    random: boolean,
-    limit: number,
+  private async explore(
+    feed: DanbooruExploreFeed,
     jobId: string,
-  ): Promise<DanbooruSuccessResponse> {
-    const post = await this.danbooruApiService.fetchPosts(query, limit, random)
-    if (!post) {
-      throw new Error('No posts found for the query or API error')
+    query: string,
+    options: DanbooruRequestOptions,
+  ): Promise<DanbooruExploreResponse> {
+    const { scale, date: requestedDate, ratings } = parseExploreQuery(query)
+    if (feed === 'viewed' && scale !== 'day') {
+      throw new Error('explore.viewed only has a daily feed')
     }
+    // Danbooru defaults to today as well, resolving it here keeps cache keys per day
+    const date = requestedDate ?? new Date().toISOString().slice(0, 10)
+    const limit = Math.min(
+      Math.max(Number(options.limit) || DEFAULT_EXPLORE_LIMIT, 1),
+      MAX_POSTS_LIMIT,
+    )
+    const page = Math.max(Number(options.page) || 1, 1)
+    const ttl =
+      Number(this.configService.get<number>('DANBOORU_EXPLORE_TTL_SECONDS')) ||
+      EXPLORE_CACHE_TTL_SECONDS
 
-    const response = buildSuccessResponse(post as DanbooruPost, jobId)
+    const feedPosts = await this.cacheService.getOrFetch(
+      this.cacheService.getResourceKey(
+        this.apiPrefix,
+        EXPLORE_RESOURCE,
+        feed,
+        scale,
+        date,
+        `${PAGE_SUFFIX}:${page}`,
+        `${LIMIT_SUFFIX}:${limit}`,
+      ),
+      async () =>
+        (
+          await this.danbooruApiService.fetchExplorePosts(
+            feed,
+            date,
+            scale,
+            limit,
+            page,
+          )
+        ).map(buildPostResponse),
+      ttl,
+    )
+    const posts = ratings
+      ? feedPosts.filter(post => ratings.includes(post.rating))
+      : feedPosts
     this.logger.log(
-      `Found post for job ${jobId}: author ${String(response.author)}, rating ${String(response.rating)}, copyright ${String(response.copyright)}`,
+      `Found ${posts.length}/${feedPosts.length} ${feed} posts for job ${jobId}`,
       jobId,
     )
 
-    return response
+    return {
+      type: 'success',
+      jobId,
+      jobType: `explore.${feed}`,
+      scale,
+      date,
+      posts,
+      page,
+      nextPage: feedPosts.length >= limit ? page + 1 : null,
+      prevPage: page > 1 ? page - 1 : null,
+    }
   }
 
   /**
-   * Cache invalidation for tags and random (proactive freshness).
-   * @param tags - Extracted tags
-   * @param random - Random flag
-   * @param jobId - Job ID for logging
+   * Artist by tag name, with other names and profile URLs.
+   * Cached for DANBOORU_ARTIST_WIKI_CACHE_TTL_SECONDS (default 1 day) under
+   * `cache:danbooru:artist:{name}`. Misses are not cached.
+   * @param jobId - Job ID
+   * @param query - Artist tag name, spaces are treated as underscores
+   * @throws Error if the name is invalid or the artist does not exist
    */
-  private async performCacheInvalidation(
-    tags: string[],
-    random: boolean,
+  private async getArtist(
     jobId: string,
-  ): Promise<void> {
-    if (tags.length > 0) {
-      for (const tag of tags) {
-        const escapedTag = tag.replace(/[[\]*?^$.\\]/g, '\\$&')
-        const tagPattern = DANBOORU_TAG_PATTERN.replace('*', escapedTag)
-        const deleted = await this.cacheService.invalidateCache(tagPattern)
-        if (deleted > 0) {
-          this.logger.debug(
-            `Invalidated ${deleted} tag-specific caches for tag: ${tag}`,
-            jobId,
-          )
+    query: string,
+  ): Promise<DanbooruArtistGetResponse> {
+    const name = this.normalizeLookupName(query, ARTIST_GET_JOB_TYPE)
+    const artist = await this.cacheService.getOrFetch(
+      this.cacheService.getResourceKey(this.apiPrefix, ARTIST_RESOURCE, name),
+      async () => {
+        const found = await this.danbooruApiService.fetchArtist(name)
+        if (!found) {
+          throw new NotFoundError('Artist not found')
         }
-      }
+        return buildArtistResponse(found)
+      },
+      this.getArtistWikiTtl(),
+    )
+    this.logger.log(`Found artist ${artist.id} for job ${jobId}`, jobId)
+
+    return { type: 'success', jobId, jobType: ARTIST_GET_JOB_TYPE, artist }
+  }
+
+  /**
+   * Wiki page by title (usually a tag name), cached like artists under
+   * `cache:danbooru:wiki:{title}`.
+   * @param jobId - Job ID
+   * @param query - Page title, spaces are treated as underscores
+   * @throws Error if the title is invalid or the page does not exist
+   */
+  private async getWikiPage(
+    jobId: string,
+    query: string,
+  ): Promise<DanbooruWikiGetResponse> {
+    const title = this.normalizeLookupName(query, WIKI_GET_JOB_TYPE)
+    const wiki = await this.cacheService.getOrFetch(
+      this.cacheService.getResourceKey(this.apiPrefix, WIKI_RESOURCE, title),
+      async () => {
+        const found = await this.danbooruApiService.fetchWikiPage(title)
+        if (!found) {
+          throw new NotFoundError('Wiki page not found')
+        }
+        return buildWikiPageResponse(found)
+      },
+      this.getArtistWikiTtl(),
+    )
+    this.logger.log(`Found wiki page ${wiki.id} for job ${jobId}`, jobId)
+
+    return { type: 'success', jobId, jobType: WIKI_GET_JOB_TYPE, wiki }
+  }
+
+  // Artist names and wiki titles are tag names: lowercase, underscores, no wildcards
+  private normalizeLookupName(query: string, jobType: string): string {
+    const name = query.trim().toLowerCase().replace(/\s+/g, '_')
+    if (!name || name.includes('*')) {
+      throw new Error(`${jobType} query must be an exact name`)
     }
+    return name
+  }
 
-    if (random) {
-      const randomDeleted = await this.cacheService.invalidateCache(
-        DANBOORU_RANDOM_PATTERN,
-      )
-      if (randomDeleted > 0) {
-        this.logger.debug(
-          `Invalidated ${randomDeleted} random query caches for freshness`,
-          jobId,
+  private getArtistWikiTtl(): number {
+    return (
+      Number(
+        this.configService.get<number>(
+          'DANBOORU_ARTIST_WIKI_CACHE_TTL_SECONDS',
+        ),
+      ) || ARTIST_WIKI_CACHE_TTL_SECONDS
+    )
+  }
+
+  /**
+   * Pool metadata with its ordered post ids; with `expand`, one page of its posts
+   * (page/limit, default 20, max 100) fetched through DanbooruApiService.fetchPosts.
+   * Pool metadata is cached for CACHE_TTL_SECONDS under `cache:danbooru:pool:id:{id}`.
+   * @param jobId - Job ID
+   * @param query - Pool id
+   * @param options - expand, page, limit
+   * @throws Error if the id is invalid or the pool does not exist
+   */
+  private async getPool(
+    jobId: string,
+    query: string,
+    options: DanbooruRequestOptions,
+  ): Promise<DanbooruPoolGetResponse> {
+    const id = query.trim()
+    if (!/^[1-9]\d{0,11}$/.test(id)) {
+      throw new Error('pool.get query must be a pool id')
+    }
+
+    const pool = await this.cacheService.getOrFetch<DanbooruPoolResponse>(
+      this.cacheService.getResourceKey(this.apiPrefix, POOL_RESOURCE, 'id', id),
+      async () => {
+        const found = await this.danbooruApiService.fetchPool(Number(id))
+        if (!found) {
+          throw new NotFoundError('Pool not found')
+        }
+        return buildPoolResponse(found)
+      },
+    )
+    const response: DanbooruPoolGetResponse = {
+      type: 'success',
+      jobId,
+      jobType: POOL_GET_JOB_TYPE,
+      pool,
+    }
+    if (!options.expand) {
+      return response
+    }
+
+    const { page, limit } = this.getPoolPaging(options)
+    const pageIds = pool.postIds.slice((page - 1) * limit, page * limit)
+    const result = pageIds.length
+      ? await this.danbooruApiService.fetchPosts(
+          `id:${pageIds.join(',')}`,
+          pageIds.length,
+          false,
         )
-      }
+      : null
+    const postsById = new Map(
+      (result?.data ?? []).map(post => [post.id, buildPostResponse(post)]),
+    )
+    const posts = pageIds
+      .map(postId => postsById.get(postId))
+      .filter((post): post is DanbooruPostResponse => !!post)
+    this.logger.log(
+      `Expanded ${posts.length}/${pageIds.length} posts of pool ${id} for job ${jobId}`,
+      jobId,
+    )
+
+    return {
+      ...response,
+      posts,
+      page,
+      nextPage: page * limit < pool.postIds.length ? page + 1 : null,
+      prevPage: page > 1 ? page - 1 : null,
     }
   }
 
   /**
-   * Unified error handling: log + publish + DLQ (DRY, replaces handleApiError/handleProcessingError).
+   * Pools by name, most recently updated first. Spaces in the query become underscores,
+   * `*` wildcards are kept and a trailing one is added for prefix matching.
+   * Cached for CACHE_TTL_SECONDS per name + page + limit.
    * @param jobId - Job ID
-   * @param query - Query string
-   * @param error - Error object
-   * @returns Error response
+   * @param query - Pool name or pattern
+   * @param options - page, limit (default 20, max 100)
    */
-  private async handleErrorAndPublish(
+  private async searchPools(
     jobId: string,
     query: string,
-    error: unknown,
-  ): Promise<DanbooruErrorResponse> {
-    const errorMsg = error instanceof Error ? error.message : String(error)
-    this.logger.error(`Error processing job ${jobId}: ${errorMsg}`, jobId)
+    options: DanbooruRequestOptions,
+  ): Promise<DanbooruPoolSearchResponse> {
+    const name = `${query.trim().toLowerCase().replace(/\s+/g, '_').replace(/\*+$/, '')}*`
+    const { page, limit } = this.getPoolPaging(options)
+
+    const pools = await this.cacheService.getOrFetch<DanbooruPoolResponse[]>(
+      this.cacheService.getResourceKey(
+        this.apiPrefix,
+        POOL_RESOURCE,
+        'search',
+        name,
+        `${PAGE_SUFFIX}:${page}`,
+        `${LIMIT_SUFFIX}:${limit}`,
+      ),
+      async () =>
+        (await this.danbooruApiService.searchPools(name, limit, page)).map(
+          buildPoolResponse,
+        ),
+    )
+    this.logger.log(`Found ${pools.length} pools for job ${jobId}`, jobId)
 
-    const response: DanbooruErrorResponse = {
-      type: 'error',
+    return {
+      type: 'success',
       jobId,
-      error: errorMsg,
+      jobType: POOL_SEARCH_JOB_TYPE,
+      query: name,
+      pools,
+      page,
+      nextPage: pools.length >= limit ? page + 1 : null,
+      prevPage: page > 1 ? page - 1 : null,
     }
-    await this.publishResponse(jobId, response)
-    await addToDLQ(this.redis, 'danbooru', jobId, errorMsg, query, 0)
+  }
 
-    return response
+  private getPoolPaging(options: DanbooruRequestOptions): {
+    page: number
+    limit: number
+  } {
+    return {
+      page: Math.max(Number(options.page) || 1, 1),
+      limit: Math.min(
+        Math.max(Number(options.limit) || DEFAULT_POOL_PAGE_SIZE, 1),
+        MAX_POOL_PAGE_SIZE,
+      ),
+    }
   }
 
   /**
-   * Releases query lock.
-   * @param lockContext - Lock key/value
-   * @param jobId - Job ID for logging
+   * Single post by id, in the search response shape.
+   * @param jobId - Job ID
+   * @param query - Post id
+   * @throws Error if the id is invalid or the post does not exist
    */
-  private async releaseQueryLock(
-    lockContext: { lockKey: string; lockValue: string },
+  private async getPostById(
     jobId: string,
-  ): Promise<void> {
-    const released = await this.lockUtil.releaseLock(
-      lockContext.lockKey,
-      lockContext.lockValue,
-    )
-    if (released) {
-      this.logger.debug(
-        `Query lock released for ${lockContext.lockKey} by job ${jobId}`,
-      )
+    query: string,
+  ): Promise<DanbooruPostLookupResponse> {
+    const id = query.trim()
+    if (!/^[1-9]\d{0,11}$/.test(id)) {
+      throw new Error('post.byId query must be a post id')
     }
+    const post = await this.getCachedPost('id', id, async () =>
+      this.danbooruApiService.fetchPostById(Number(id)),
+    )
+    return this.buildPostLookupResponse(jobId, POST_BY_ID_JOB_TYPE, post)
   }
 
-  async publishResponse(jobId: string, data: DanbooruResponse) {
-    const responseKey = RESPONSES_STREAM
-    const jsonData = JSON.stringify({ ...data, timestamp: Date.now() })
+  /**
+   * Single post by the md5 of its file, in the search response shape.
+   * @param jobId - Job ID
+   * @param query - 32-character hex md5
+   * @throws Error if the md5 is invalid or no post has that file
+   */
+  private async getPostByMd5(
+    jobId: string,
+    query: string,
+  ): Promise<DanbooruPostLookupResponse> {
+    const md5 = query.trim().toLowerCase()
+    if (!/^[a-f0-9]{32}$/.test(md5)) {
+      throw new Error('post.byMd5 query must be a 32-character hex md5')
+    }
+    const post = await this.getCachedPost('md5', md5, async () =>
+      this.danbooruApiService.fetchPostByMd5(md5),
+    )
+    return this.buildPostLookupResponse(jobId, POST_BY_MD5_JOB_TYPE, post)
+  }
 
-    await this.redis.xadd(responseKey, '*', 'jobId', jobId, 'data', jsonData)
+  /**
+   * Post lookups are cached for DANBOORU_POST_CACHE_TTL_SECONDS (default 7 days)
+   * under `cache:danbooru:post:{id|md5}:{value}`. Misses are not cached.
+   */
+  private async getCachedPost(
+    lookup: 'id' | 'md5',
+    value: string,
+    fetchPost: () => Promise<DanbooruPost | null>,
+  ): Promise<DanbooruPostResponse> {
+    const ttl =
+      Number(
+        this.configService.get<number>('DANBOORU_POST_CACHE_TTL_SECONDS'),
+      ) || POST_CACHE_TTL_SECONDS
 
-    this.logger.log(`Published response for job ${jobId} to ${responseKey}`)
+    return this.cacheService.getOrFetch(
+      this.cacheService.getResourceKey(
+        this.apiPrefix,
+        POST_RESOURCE,
+        lookup,
+        value,
+      ),
+      async () => {
+        const post = await fetchPost()
+        if (!post) {
+          throw new NotFoundError('Post not found')
+        }
+        return buildPostResponse(post)
+      },
+      ttl,
+    )
   }
 
-  // handleApiError and handleProcessingError removed: logic consolidated in handleErrorAndPublish
+  private buildPostLookupResponse(
+    jobId: string,
+    jobType: DanbooruPostLookupResponse['jobType'],
+    post: DanbooruPostResponse,
+  ): DanbooruPostLookupResponse {
+    this.logger.log(`Found post ${post.id} for job ${jobId}`, jobId)
+    return {
+      type: 'success',
+      jobId,
+      jobType,
+      posts: [post],
+      nextCursor: null,
+      prevCursor: null,
+    }
+  }
 
   /**
-   * Cache Invalidation Strategy:
-   *
-   * 1. TAG-SPECIFIC INVALIDATION: After successful API call with tags,
-   *    invalidate all cache entries matching the pattern:
-   *    `cache:danbooru:posts:*:tag:{tag-hash}` for each tag in query
-   *
-   * 2. RANDOM QUERY FRESHNESS: For random queries, proactively invalidate
-   *    all random cache entries periodically to ensure fresh random results.
-   *    Pattern: `cache:danbooru:posts:*:random:*`
-   *
-   * 3. BULK INVALIDATION: When major content updates occur (future enhancement),
-   *    use `cache:danbooru:posts:*` to clear all post-related caches.
-   *
-   * 4. DETERMINISTIC RANDOM SEEDING: Random queries now use deterministic
-   *    seeding based on (query + limit + tags) ensuring consistent "random"
-   *    results across cache layers while maintaining freshness through
-   *    proactive invalidation.
-   *
-   * This strategy balances performance (caching) with data freshness
-   * (proactive invalidation) while maintaining semantic cache key structure
-   * for targeted operations.
-   *
-   * DEDUPLICATION STRATEGY DOCUMENTATION:
-   *
-   * This service implements a multi-layered deduplication approach:
-   *
-   * 1. CONSUMER LEVEL (redis-stream.consumer.ts):
-   *    - DLQ Duplicate Check: Scans recent DLQ entries for identical queries within 1 hour
-   *    - Query Hash Locking: Uses Redis SET NX with 5-minute TTL to prevent concurrent processing
-   *    - Server-side Job ID: Generates UUID to prevent client-side ID collisions
-   *    - Job-level Deduplication: Final SET NX check as safety net
-   *
-   * 2. SERVICE LEVEL (this file):
-   *    - Additional Query Locking: Double-checks lock acquisition for safety against direct calls
-   *    - Graceful Lock Release: Ensures locks are released even on errors via try/finally
-   *
-   * 3. DLQ PREVENTION (dlq.util.ts):
-   *    - dedupCheck(): Scans DLQ stream for recent failures before adding new entries
-   *    - Time Window: Configurable 1-hour deduplication window via DLQ_DEDUP_WINDOW_SECONDS
-   *
-   * LOCK KEYS: `lock:query:{sha256(query)}` - 5 minutes TTL (QUERY_LOCK_TIMEOUT_SECONDS)
-   * PROCESSED KEYS: `processed:{jobId}` - 24 hours TTL (DEDUP_TTL_SECONDS)
-   * DLQ DEDUP WINDOW: 1 hour (DLQ_DEDUP_WINDOW_SECONDS)
-   *
-   * This comprehensive strategy prevents duplicate API calls to Danbooru while handling
-   * race conditions, ensuring failed requests don't spam the DLQ with identical queries,
-   * and providing robust protection against concurrent processing.
+   * Tag suggestions for a name prefix, most used first.
+   * Cached per prefix + limit for DANBOORU_AUTOCOMPLETE_TTL_SECONDS (default 300).
+   * @param jobId - Job ID
+   * @param query - Tag prefix, a trailing `*` is ignored
+   * @param options - limit (default 10, max 25)
+   * @returns Autocomplete response, tags is empty when nothing matches
+   * @throws Error if the query is not a single tag prefix
    */
+  private async autocomplete(
+    jobId: string,
+    query: string,
+    options: DanbooruRequestOptions,
+  ): Promise<DanbooruAutocompleteResponse> {
+    const prefix = query.trim().toLowerCase().replace(/\*+$/, '')
+    if (!prefix || /[\s*]/.test(prefix)) {
+      throw new Error('Autocomplete query must be a single tag prefix')
+    }
+    const limit = Math.min(
+      Math.max(Number(options.limit) || DEFAULT_AUTOCOMPLETE_LIMIT, 1),
+      MAX_AUTOCOMPLETE_LIMIT,
+    )
+    const ttl =
+      Number(
+        this.configService.get<number>('DANBOORU_AUTOCOMPLETE_TTL_SECONDS'),
+      ) || AUTOCOMPLETE_CACHE_TTL_SECONDS
+
+    const tags = await this.cacheService.getOrFetch(
+      this.cacheService.getResourceKey(
+        this.apiPrefix,
+        AUTOCOMPLETE_RESOURCE,
+        prefix,
+        `${LIMIT_SUFFIX}:${limit}`,
+      ),
+      async () =>
+        buildTagSuggestions(
+          await this.danbooruApiService.fetchTags(prefix, limit),
+        ),
+      ttl,
+    )
+    this.logger.log(
+      `Found ${tags.length} tag suggestions for job ${jobId}`,
+      jobId,
+    )
+
+    return {
+      type: 'success',
+      jobId,
+      jobType: AUTOCOMPLETE_JOB_TYPE,
+      query: prefix,
+      tags,
+    }
+  }
+
+  // Locking, caching, invalidation, publishing and DLQ handling live in BaseBooruService
 }
@@ -5,7 +5,32 @@ import {
   MaxLength,
   IsOptional,
   IsUUID,
+  IsInt,
+  IsIn,
+  IsBoolean,
+  IsArray,
+  ArrayMaxSize,
+  IsBase64,
+  IsUrl,
+  Min,
+  Max,
+  ValidateIf,
 } from 'class-validator'
+import { Transform, Type } from 'class-transformer'
+import {
+  IQDB_MAX_IMAGE_BASE64_LENGTH,
+  IQDB_SEARCH_JOB_TYPE,
+  JOB_TYPES,
+  MAX_POSTS_LIMIT,
+  POST_RESPONSE_FIELDS,
+  POST_VARIANTS,
+} from '../../common/constants'
+import type {
+  JobType,
+  PostResponseField,
+  PostVariant,
+} from '../../common/constants'
+import { IsBooruQuery } from '../../common/query/is-booru-query.validator'
 
 export class CreateRequestDto {
   @IsNotEmpty()
@@ -13,13 +38,19 @@ export class CreateRequestDto {
   @IsUUID('all', { message: 'jobId must be a valid UUID' })
   jobId: string
 
+  // Job type, default 'posts' (search); 'autocomplete' reads query as a tag prefix
+  @IsOptional()
+  @IsIn(JOB_TYPES, {
+    message: `type must be one of: ${JOB_TYPES.join(', ')}`,
+  })
+  type?: JobType
+
+  // iqdb.search jobs carry an image instead of a query
+  @ValidateIf((dto: CreateRequestDto) => dto.type !== IQDB_SEARCH_JOB_TYPE)
   @IsNotEmpty()
   @IsString()
   @MaxLength(100)
-  @Matches(/^[\w\s\-,:()]{1,100}$/i, {
-    message:
-      'Query: alphanumeric, spaces, hyphens, colons, parentheses only, max 100 chars',
-  })
+  @IsBooruQuery()
   query: string
 
   @IsOptional()
@@ -34,4 +65,104 @@ export class CreateRequestDto {
     message: 'clientId must be alphanumeric with underscores, max 50 chars',
   })
   clientId?: string
+
+  // Response stream instead of {apiPrefix}:responses[:clientId], must be in RESPONSE_STREAM_ALLOWLIST
+  @IsOptional()
+  @IsString()
+  @Matches(/^[a-zA-Z0-9_:.-]{1,100}$/, {
+    message:
+      'replyTo must be a stream name (letters, digits, _ : . -), max 100 chars',
+  })
+  replyTo?: string
+
+  // Webhook that also receives the response, must match CALLBACK_ALLOWLIST_{CLIENTID}
+  @IsOptional()
+  @MaxLength(500)
+  @IsUrl(
+    {
+      protocols: ['http', 'https'],
+      require_protocol: true,
+      require_tld: false,
+    },
+    { message: 'callbackUrl must be an http(s) URL' },
+  )
+  callbackUrl?: string
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(MAX_POSTS_LIMIT)
+  limit?: number
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(1000)
+  page?: number
+
+  @IsOptional()
+  @IsString()
+  @Matches(/^[ab]\d{1,12}$/, {
+    message: 'cursor must be b<id> or a<id> from a previous response',
+  })
+  cursor?: string
+
+  // Stream fields are strings, so 'true'/'false' are accepted
+  @IsOptional()
+  @Transform(({ value }: { value: unknown }) =>
+    value === 'true' ? true : value === 'false' ? false : value,
+  )
+  @IsBoolean()
+  expand?: boolean
+
+  // Post fields to return, comma-separated in stream messages ('id,imageUrl,tags')
+  @IsOptional()
+  @Transform(({ value }: { value: unknown }) =>
+    typeof value === 'string'
+      ? value
+          .split(',')
+          .map(field => field.trim())
+          .filter(Boolean)
+      : value,
+  )
+  @IsArray()
+  @ArrayMaxSize(POST_RESPONSE_FIELDS.length)
+  @IsIn(POST_RESPONSE_FIELDS, {
+    each: true,
+    message: `fields must be a subset of: ${POST_RESPONSE_FIELDS.join(', ')}`,
+  })
+  fields?: PostResponseField[]
+
+  // Image variant served as imageUrl, falls back to the next larger one
+  @IsOptional()
+  @IsIn(POST_VARIANTS, {
+    message: `variant must be one of: ${POST_VARIANTS.join(', ')}`,
+  })
+  variant?: PostVariant
+
+  // iqdb.search: image URL, required unless imageData is sent
+  @ValidateIf(
+    (dto: CreateRequestDto) =>
+      dto.imageUrl !== undefined ||
+      (dto.type === IQDB_SEARCH_JOB_TYPE && dto.imageData === undefined),
+  )
+  @IsUrl(
+    { protocols: ['http', 'https'], require_protocol: true },
+    { message: 'imageUrl must be an http(s) URL' },
+  )
+  @MaxLength(2048)
+  imageUrl?: string
+
+  // iqdb.search: base64 image (a data: URL prefix is stripped), max 5 MB decoded
+  @IsOptional()
+  @Transform(({ value }: { value: unknown }) =>
+    typeof value === 'string'
+      ? value.replace(/^data:[^,]*;base64,/, '')
+      : value,
+  )
+  @IsBase64()
+  @MaxLength(IQDB_MAX_IMAGE_BASE64_LENGTH)
+  imageData?: string
 }
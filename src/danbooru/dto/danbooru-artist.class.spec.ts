@@ -0,0 +1,39 @@
+import 'reflect-metadata'
+import { plainToClass } from 'class-transformer'
+import { validate } from 'class-validator'
+import { DanbooruArtist, DanbooruArtistUrl } from './danbooru-artist.class'
+
+describe('DanbooruArtist', () => {
+  const artistData = {
+    id: 12,
+    name: 'kantoku',
+    group_name: '5_nenme_no_houkago',
+    other_names: ['カントク'],
+    urls: [
+      { url: 'https://twitter.com/kantoku_5th', is_active: true },
+      { url: 'https://www.pixiv.net/users/45955', is_active: false },
+    ],
+    is_banned: false,
+    is_deleted: false,
+    created_at: '2024-01-01T00:00:00.000Z',
+    updated_at: '2024-02-01T00:00:00.000Z',
+  }
+
+  it('should validate an artist with its urls', async () => {
+    const artist = plainToClass(DanbooruArtist, artistData)
+
+    await expect(validate(artist)).resolves.toHaveLength(0)
+    expect(artist.created_at).toBeInstanceOf(Date)
+    expect(artist.urls?.[0]).toBeInstanceOf(DanbooruArtistUrl)
+  })
+
+  it('should reject malformed url entries', async () => {
+    const artist = plainToClass(DanbooruArtist, {
+      ...artistData,
+      urls: [{ url: 42 }],
+    })
+
+    const errors = await validate(artist)
+    expect(errors.map(error => error.property)).toEqual(['urls'])
+  })
+})
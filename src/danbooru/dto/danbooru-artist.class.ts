@@ -0,0 +1,70 @@
+import {
+  IsArray,
+  IsBoolean,
+  IsDate,
+  IsInt,
+  IsOptional,
+  IsString,
+  MaxLength,
+  Min,
+  ValidateNested,
+} from 'class-validator'
+
+import { Type } from 'class-transformer'
+
+export class DanbooruArtistUrl {
+  @IsString()
+  @MaxLength(2048)
+  url: string
+
+  @IsOptional()
+  @IsBoolean()
+  is_active?: boolean;
+
+  [key: string]: unknown
+}
+
+export class DanbooruArtist {
+  @IsInt()
+  @Min(1)
+  id: number
+
+  @IsString()
+  @MaxLength(200)
+  name: string
+
+  @IsOptional()
+  @IsString()
+  group_name?: string
+
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  other_names?: string[]
+
+  // Only present when requested with `only=...,urls`
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => DanbooruArtistUrl)
+  urls?: DanbooruArtistUrl[]
+
+  @IsOptional()
+  @IsBoolean()
+  is_banned?: boolean
+
+  @IsOptional()
+  @IsBoolean()
+  is_deleted?: boolean
+
+  @IsDate()
+  @Type(() => Date)
+  created_at: Date
+
+  @IsOptional()
+  @IsDate()
+  @Type(() => Date)
+  updated_at?: Date;
+
+  [key: string]: unknown
+}
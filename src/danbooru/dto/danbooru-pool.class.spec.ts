@@ -0,0 +1,40 @@
+import 'reflect-metadata'
+import { plainToClass } from 'class-transformer'
+import { validate } from 'class-validator'
+import { DanbooruPool } from './danbooru-pool.class'
+
+describe('DanbooruPool', () => {
+  const poolData = {
+    id: 7,
+    name: 'my_doujin',
+    description: 'A short story',
+    category: 'series',
+    post_ids: [30, 10, 20],
+    post_count: 3,
+    is_active: true,
+    is_deleted: false,
+    created_at: '2024-01-01T00:00:00.000Z',
+    updated_at: '2024-02-01T00:00:00.000Z',
+  }
+
+  it('should validate a pool from the API', async () => {
+    const pool = plainToClass(DanbooruPool, poolData)
+
+    await expect(validate(pool)).resolves.toHaveLength(0)
+    expect(pool.created_at).toBeInstanceOf(Date)
+  })
+
+  it('should reject unknown categories and non-numeric post ids', async () => {
+    const pool = plainToClass(DanbooruPool, {
+      ...poolData,
+      category: 'other',
+      post_ids: [1, 'two'],
+    })
+
+    const errors = await validate(pool)
+    expect(errors.map(error => error.property).sort()).toEqual([
+      'category',
+      'post_ids',
+    ])
+  })
+})
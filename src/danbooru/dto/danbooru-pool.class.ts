@@ -0,0 +1,58 @@
+import {
+  IsArray,
+  IsBoolean,
+  IsDate,
+  IsIn,
+  IsInt,
+  IsOptional,
+  IsString,
+  MaxLength,
+  Min,
+} from 'class-validator'
+
+import { Type } from 'class-transformer'
+
+export class DanbooruPool {
+  @IsInt()
+  @Min(1)
+  id: number
+
+  @IsString()
+  @MaxLength(200)
+  name: string
+
+  @IsOptional()
+  @IsString()
+  description?: string
+
+  @IsIn(['series', 'collection'])
+  category: 'series' | 'collection'
+
+  // Post ids in reading order
+  @IsArray()
+  @IsInt({ each: true })
+  post_ids: number[]
+
+  @IsInt()
+  @Min(0)
+  post_count: number
+
+  @IsOptional()
+  @IsBoolean()
+  is_active?: boolean
+
+  @IsOptional()
+  @IsBoolean()
+  is_deleted?: boolean
+
+  @IsDate()
+  @Type(() => Date)
+  created_at: Date
+
+  @IsOptional()
+  @IsDate()
+  @Type(() => Date)
+  updated_at?: Date;
+
+  [key: string]: unknown
+}
@@ -35,5 +35,32 @@ describe('DanbooruPost', () => {
       const errors = await validate(validPost)
       expect(errors).toHaveLength(0)
     })
+
+    it('should validate media metadata', async () => {
+      const post = new DanbooruPost()
+      post.id = 1
+      post.file_url = 'https://danbooru.donmai.us/data/original/1/1.png'
+      post.tag_string_general = 'general_tags'
+      post.tag_string_copyright = 'copyright_tags'
+      post.score = 10
+      post.rating = 'g'
+      post.created_at = new Date('2023-01-01T00:00:00Z')
+      post.image_width = 0
+      post.file_size = -1
+      post.file_ext = 'PNG!'
+      post.md5 = 'not-an-md5'
+      post.preview_file_url = 'javascript:alert(1)'
+      post.fav_count = 1.5
+
+      const errors = await validate(post)
+      expect(errors.map(error => error.property).sort()).toEqual([
+        'fav_count',
+        'file_ext',
+        'file_size',
+        'image_width',
+        'md5',
+        'preview_file_url',
+      ])
+    })
   })
 })
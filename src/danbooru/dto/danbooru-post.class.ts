@@ -1,4 +1,5 @@
 import {
+  IsInt,
   IsNumber,
   IsString,
   IsOptional,
@@ -22,8 +23,35 @@ export class DanbooruPost {
 
   @IsOptional()
   @IsString()
+  @IsUrl({}, { message: 'large_file_url must be a valid URL' })
   large_file_url?: string
 
+  @IsOptional()
+  @IsString()
+  @IsUrl({}, { message: 'preview_file_url must be a valid URL' })
+  preview_file_url?: string
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  image_width?: number
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  image_height?: number
+
+  // Bytes of file_url; Telegram rejects photos over 10 MB
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  file_size?: number
+
+  @IsOptional()
+  @IsString()
+  @Matches(/^[a-z0-9]{1,10}$/, { message: 'Invalid file extension' })
+  file_ext?: string
+
   @IsOptional()
   @IsString()
   tag_string_artist?: string
@@ -51,10 +79,24 @@ export class DanbooruPost {
   @IsUrl({}, { message: 'source must be a valid URL' })
   source?: string
 
+  @IsOptional()
+  @IsString()
+  tag_string_meta?: string
+
+  @IsOptional()
+  @IsString()
+  @Matches(/^[a-f0-9]{32}$/, { message: 'md5 must be 32 hex characters' })
+  md5?: string
+
   @IsNumber()
   @Min(0)
   score: number
 
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  fav_count?: number
+
   @IsDate()
   @Type(() => Date)
   created_at: Date;
@@ -0,0 +1,29 @@
+import 'reflect-metadata'
+import { plainToClass } from 'class-transformer'
+import { validate } from 'class-validator'
+import { DanbooruWikiPage } from './danbooru-wiki-page.class'
+
+describe('DanbooruWikiPage', () => {
+  const pageData = {
+    id: 3,
+    title: 'kantoku',
+    body: 'Japanese illustrator. See also [[5-nenme no Houkago]].',
+    other_names: ['カントク'],
+    is_deleted: false,
+    created_at: '2024-01-01T00:00:00.000Z',
+  }
+
+  it('should validate a wiki page from the API', async () => {
+    const page = plainToClass(DanbooruWikiPage, pageData)
+
+    await expect(validate(page)).resolves.toHaveLength(0)
+    expect(page.updated_at).toBeUndefined()
+  })
+
+  it('should reject a page without a body', async () => {
+    const page = plainToClass(DanbooruWikiPage, { ...pageData, body: null })
+
+    const errors = await validate(page)
+    expect(errors.map(error => error.property)).toEqual(['body'])
+  })
+})
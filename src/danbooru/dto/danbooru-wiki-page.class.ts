@@ -0,0 +1,46 @@
+import {
+  IsArray,
+  IsBoolean,
+  IsDate,
+  IsInt,
+  IsOptional,
+  IsString,
+  MaxLength,
+  Min,
+} from 'class-validator'
+
+import { Type } from 'class-transformer'
+
+export class DanbooruWikiPage {
+  @IsInt()
+  @Min(1)
+  id: number
+
+  @IsString()
+  @MaxLength(200)
+  title: string
+
+  // DText markup, already stripped of HTML
+  @IsString()
+  body: string
+
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  other_names?: string[]
+
+  @IsOptional()
+  @IsBoolean()
+  is_deleted?: boolean
+
+  @IsDate()
+  @Type(() => Date)
+  created_at: Date
+
+  @IsOptional()
+  @IsDate()
+  @Type(() => Date)
+  updated_at?: Date;
+
+  [key: string]: unknown
+}
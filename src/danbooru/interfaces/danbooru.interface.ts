@@ -1,26 +1,215 @@
+import type {
+  BooruJobSuccessResponse,
+  BooruRequestOptions,
+  BooruPostResponse,
+  BooruSuccessResponse,
+  BooruErrorResponse,
+  BooruResponse,
+} from '../../common/api/base-api.interface'
+
 export interface DanbooruRequest {
   jobId: string
   query: string
+  limit?: number
+  page?: number
+  cursor?: string
 }
 
-export interface DanbooruSuccessResponse {
-  [key: string]: unknown
-  type: 'success'
-  jobId: string
-  imageUrl: string
-  author: string | null
-  tags: string
-  rating: string
-  source: string | null
-  copyright: string
+// Danbooru responses use the normalized booru shapes shared by all providers
+export type DanbooruRequestOptions = BooruRequestOptions
+export type DanbooruPostResponse = BooruPostResponse
+export type DanbooruErrorResponse = BooruErrorResponse
+export type DanbooruResponse = BooruResponse
+
+/**
+ * Rewrite applied through Danbooru tag aliases and implications before fetching.
+ */
+export interface DanbooruQueryRewrite {
+  original: string
+  resolved: string // Query actually sent to Danbooru
+  aliases: Record<string, string> // Typed tag -> canonical tag
+  impliedTags: string[] // Dropped, already implied by another tag of the query
+}
+
+export interface DanbooruSuccessResponse extends BooruSuccessResponse {
+  queryRewrite?: DanbooruQueryRewrite // Only set when the query changed
+  noResults?: true // Set when tags.count found no posts, posts is then empty
+  message?: string
+}
+
+export type DanbooruTagCategory =
+  | 'general'
+  | 'artist'
+  | 'copyright'
+  | 'character'
+  | 'meta'
+
+export interface DanbooruTagSuggestion {
+  name: string
+  postCount: number
+  category: DanbooruTagCategory
+}
+
+export interface DanbooruAutocompleteResponse extends BooruJobSuccessResponse {
+  jobType: 'autocomplete'
+  query: string // Normalized prefix
+  tags: DanbooruTagSuggestion[] // Most used first
+}
+
+/**
+ * post.byId / post.byMd5 response: the search response shape holding one post.
+ */
+export interface DanbooruPostLookupResponse extends BooruJobSuccessResponse {
+  jobType: 'post.byId' | 'post.byMd5'
+  posts: DanbooruPostResponse[]
+  nextCursor: null
+  prevCursor: null
+}
+
+/**
+ * Pool metadata returned to clients, postIds are in reading order.
+ */
+export interface DanbooruPoolResponse {
   id: number
-  characters?: string | null
+  name: string
+  description: string | null
+  category: 'series' | 'collection'
+  postCount: number
+  postIds: number[]
+  isActive: boolean
+  createdAt: string
+  updatedAt: string | null
 }
 
-export interface DanbooruErrorResponse {
-  type: 'error'
-  jobId: string
-  error: string
+/**
+ * pool.get response. With `expand`, posts holds one page of the pool in reading order
+ * (posts that are deleted or hidden upstream are left out) and nextPage/prevPage page through it.
+ */
+export interface DanbooruPoolGetResponse extends BooruJobSuccessResponse {
+  jobType: 'pool.get'
+  pool: DanbooruPoolResponse
+  posts?: DanbooruPostResponse[]
+  page?: number
+  nextPage?: number | null
+  prevPage?: number | null
+}
+
+export interface DanbooruPoolSearchResponse extends BooruJobSuccessResponse {
+  jobType: 'pool.search'
+  query: string // Normalized name pattern
+  pools: DanbooruPoolResponse[]
+  page: number
+  nextPage: number | null
+  prevPage: number | null
+}
+
+export interface DanbooruArtistUrlResponse {
+  url: string
+  isActive: boolean
+}
+
+/**
+ * Artist info for "who drew this": other names (aliases, romanizations) and profile URLs.
+ */
+export interface DanbooruArtistResponse {
+  id: number
+  name: string
+  groupName: string | null
+  otherNames: string[]
+  urls: DanbooruArtistUrlResponse[]
+  isBanned: boolean
+  createdAt: string
+  updatedAt: string | null
+}
+
+export interface DanbooruArtistGetResponse extends BooruJobSuccessResponse {
+  jobType: 'artist.get'
+  artist: DanbooruArtistResponse
+}
+
+/**
+ * Wiki page returned to clients, body is sanitized DText.
+ */
+export interface DanbooruWikiPageResponse {
+  id: number
+  title: string
+  body: string
+  otherNames: string[]
+  createdAt: string
+  updatedAt: string | null
+}
+
+export interface DanbooruWikiGetResponse extends BooruJobSuccessResponse {
+  jobType: 'wiki.get'
+  wiki: DanbooruWikiPageResponse
 }
 
-export type DanbooruResponse = DanbooruSuccessResponse | DanbooruErrorResponse
+export type DanbooruExploreFeed = 'popular' | 'curated' | 'viewed'
+export type DanbooruExploreScale = 'day' | 'week' | 'month'
+
+/**
+ * What an explore job asks for, read from its query (`week date:2024-01-01 rating:g,s`).
+ * ratings is null when the query does not filter by rating.
+ */
+export interface DanbooruExploreQuery {
+  scale: DanbooruExploreScale
+  date: string | null
+  ratings: string[] | null
+}
+
+/**
+ * explore.* response: one page of a feed in upstream order, filtered by rating.
+ * nextPage is based on the unfiltered page, so a filtered page can be short or empty.
+ */
+export interface DanbooruExploreResponse extends BooruJobSuccessResponse {
+  jobType: 'explore.popular' | 'explore.curated' | 'explore.viewed'
+  scale: DanbooruExploreScale
+  date: string
+  posts: DanbooruPostResponse[]
+  page: number
+  nextPage: number | null
+  prevPage: number | null
+}
+
+export interface DanbooruRelatedTag extends DanbooruTagSuggestion {
+  frequency: number | null // Share of the query's posts that also have this tag
+}
+
+export interface DanbooruRelatedTagsResponse extends BooruJobSuccessResponse {
+  jobType: 'tags.related'
+  query: string // Canonical query
+  tags: DanbooruRelatedTag[]
+}
+
+export interface DanbooruTagCountResponse extends BooruJobSuccessResponse {
+  jobType: 'tags.count'
+  query: string // Canonical query
+  count: number
+}
+
+/**
+ * Post matched by IQDB, similarity is Danbooru's score (0-100, higher is closer).
+ */
+export interface DanbooruIqdbMatch extends DanbooruPostResponse {
+  similarity: number
+}
+
+/**
+ * iqdb.search response: the search response shape, best match first.
+ */
+export interface DanbooruIqdbResponse extends BooruJobSuccessResponse {
+  jobType: 'iqdb.search'
+  posts: DanbooruIqdbMatch[]
+  nextCursor: null
+  prevCursor: null
+}
+
+/**
+ * HTTP gateway answer (202) for async requests and sync requests past the timeout.
+ * The result is published to responseStream under jobId.
+ */
+export interface DanbooruAcceptedResponse {
+  type: 'accepted'
+  jobId: string
+  responseStream: string
+}
@@ -0,0 +1,91 @@
+import { ConfigService } from '@nestjs/config'
+import { TagResolverService } from './tag-resolver.service'
+import type { DanbooruApiService } from './danbooru-api.service'
+import type { CacheService } from '../common/cache/cache.service'
+
+describe('TagResolverService', () => {
+  const aliases: Record<string, string[]> = { cat_girl: ['cat_ears'] }
+  const implications: Record<string, string[]> = {
+    cat_ears: ['animal_ears'],
+    animal_ears: [],
+  }
+
+  let config: Record<string, string>
+  let mockApiService: {
+    fetchTagAliases: jest.Mock
+    fetchTagImplications: jest.Mock
+  }
+  let mockCacheService: { getOrFetch: jest.Mock; getResourceKey: jest.Mock }
+  let service: TagResolverService
+
+  beforeEach(() => {
+    config = {}
+    mockApiService = {
+      fetchTagAliases: jest.fn((tag: string) =>
+        Promise.resolve(aliases[tag] ?? []),
+      ),
+      fetchTagImplications: jest.fn((tag: string) =>
+        Promise.resolve(implications[tag] ?? []),
+      ),
+    }
+    mockCacheService = {
+      getResourceKey: jest.fn((...parts: string[]) =>
+        ['cache', ...parts].join(':'),
+      ),
+      getOrFetch: jest.fn((_key: string, fetchFn: () => Promise<unknown>) =>
+        fetchFn(),
+      ),
+    }
+    service = new TagResolverService(
+      {
+        get: jest.fn((key: string) => config[key]),
+      } as unknown as ConfigService,
+      mockApiService as unknown as DanbooruApiService,
+      mockCacheService as unknown as CacheService,
+    )
+  })
+
+  it('should replace aliased tags and drop implied ones', async () => {
+    await expect(
+      service.resolve('Cat_Girl animal_ears -dog rating:s', 'job-1'),
+    ).resolves.toEqual({
+      original: 'cat_girl animal_ears -dog rating:s',
+      resolved: 'cat_ears -dog rating:s',
+      aliases: { cat_girl: 'cat_ears' },
+      impliedTags: ['animal_ears'],
+    })
+    expect(mockCacheService.getOrFetch).toHaveBeenCalledWith(
+      'cache:danbooru:tag_aliases:cat_girl',
+      expect.any(Function),
+      86400,
+    )
+  })
+
+  it('should resolve aliases of negated tags without dropping them', async () => {
+    await expect(
+      service.resolve('-cat_girl cat_ears', 'job-1'),
+    ).resolves.toEqual({
+      original: '-cat_girl cat_ears',
+      resolved: '-cat_ears cat_ears',
+      aliases: { cat_girl: 'cat_ears' },
+      impliedTags: [],
+    })
+  })
+
+  it('should return null when nothing changes', async () => {
+    await expect(service.resolve('cat_ears dog', 'job-1')).resolves.toBeNull()
+  })
+
+  it('should use the query as typed when lookups fail', async () => {
+    mockApiService.fetchTagAliases.mockRejectedValueOnce(new Error('timeout'))
+
+    await expect(service.resolve('cat_girl', 'job-1')).resolves.toBeNull()
+  })
+
+  it('should skip resolution when DANBOORU_RESOLVE_TAGS=false', async () => {
+    config.DANBOORU_RESOLVE_TAGS = 'false'
+
+    await expect(service.resolve('cat_girl', 'job-1')).resolves.toBeNull()
+    expect(mockCacheService.getOrFetch).not.toHaveBeenCalled()
+  })
+})
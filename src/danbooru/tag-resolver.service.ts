@@ -0,0 +1,146 @@
+import { Injectable, Logger } from '@nestjs/common'
+import { ConfigService } from '@nestjs/config'
+import { DanbooruApiService } from './danbooru-api.service'
+import { DanbooruQueryRewrite } from './interfaces/danbooru.interface'
+import { CacheService } from '../common/cache/cache.service'
+import {
+  DANBOORU_API_PREFIX,
+  TAG_ALIASES_RESOURCE,
+  TAG_IMPLICATIONS_RESOURCE,
+  TAG_RELATIONS_CACHE_TTL_SECONDS,
+} from '../common/constants'
+import type { QueryTerm } from '../common/query/interfaces/query-ast.interface'
+import {
+  getQueryTags,
+  parseQuery,
+  serializeQuery,
+} from '../common/query/utils/query-parser.util'
+
+/**
+ * Rewrites queries through Danbooru tag aliases and implications, so `cat_girl`
+ * finds the posts tagged with its canonical name instead of nothing.
+ * - aliased tags (any operator) are replaced with their consequent
+ * - plain tags implied by another plain tag of the query are dropped, which keeps
+ *   queries under Danbooru's tag limit without changing the result set
+ * Lookups are cached per tag (`cache:danbooru:tag_aliases:{tag}`) for
+ * DANBOORU_TAG_CACHE_TTL_SECONDS. Set DANBOORU_RESOLVE_TAGS=false to disable.
+ */
+@Injectable()
+export class TagResolverService {
+  private readonly logger = new Logger(TagResolverService.name)
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly danbooruApiService: DanbooruApiService,
+    private readonly cacheService: CacheService,
+  ) {}
+
+  /**
+   * Resolves aliases and implications of the query tags.
+   * Lookup failures are logged and the query is used as typed.
+   * @param query - Validated Danbooru query
+   * @param jobId - Job ID for logging
+   * @returns The rewrite, or null when the query stays unchanged
+   */
+  async resolve(
+    query: string,
+    jobId: string,
+  ): Promise<DanbooruQueryRewrite | null> {
+    if (
+      String(this.configService.get('DANBOORU_RESOLVE_TAGS')).toLowerCase() ===
+      'false'
+    ) {
+      return null
+    }
+
+    let terms: QueryTerm[]
+    try {
+      terms = parseQuery(query).terms
+    } catch {
+      return null
+    }
+
+    try {
+      const aliases: Record<string, string> = {}
+      const aliasLookups = await Promise.all(
+        getQueryTags({ terms }).map(
+          async tag =>
+            [tag, await this.getRelations(TAG_ALIASES_RESOURCE, tag)] as const,
+        ),
+      )
+      for (const [tag, consequents] of aliasLookups) {
+        if (consequents[0] && consequents[0] !== tag) {
+          aliases[tag] = consequents[0]
+        }
+      }
+
+      const aliased = terms.map(term =>
+        term.type === 'tag' && aliases[term.name]
+          ? { ...term, name: aliases[term.name] }
+          : term,
+      )
+
+      const required = this.getRequiredTags(aliased)
+      const implied = new Set<string>()
+      const implicationLookups = await Promise.all(
+        required.map(tag => this.getRelations(TAG_IMPLICATIONS_RESOURCE, tag)),
+      )
+      implicationLookups.forEach((consequents, index) => {
+        // A tag that is itself implied cannot drop others, so cycles keep one tag
+        consequents
+          .filter(
+            name => name !== required[index] && !implied.has(required[index]),
+          )
+          .forEach(name => implied.add(name))
+      })
+
+      const resolvedTerms = aliased.filter(
+        term => !(this.isRequiredTag(term) && implied.has(term.name)),
+      )
+      const original = serializeQuery({ terms })
+      const resolved = serializeQuery({ terms: resolvedTerms })
+      if (resolved === original) {
+        return null
+      }
+
+      const impliedTags = required.filter(tag => implied.has(tag))
+      this.logger.log(
+        `Rewrote query for job ${jobId}: ${Object.keys(aliases).length} aliases, ${impliedTags.length} implied tags dropped`,
+      )
+      return { original, resolved, aliases, impliedTags }
+    } catch (error) {
+      this.logger.warn(
+        `Tag resolution failed for job ${jobId}, using query as typed: ${error instanceof Error ? error.message : String(error)}`,
+      )
+      return null
+    }
+  }
+
+  // Plain `tag` terms: the only ones an implication makes redundant
+  private isRequiredTag(term: QueryTerm): boolean {
+    return term.type === 'tag' && term.operator === 'and' && !term.wildcard
+  }
+
+  private getRequiredTags(terms: QueryTerm[]): string[] {
+    return [
+      ...new Set(
+        terms.filter(term => this.isRequiredTag(term)).map(term => term.name),
+      ),
+    ]
+  }
+
+  private getRelations(resource: string, tag: string): Promise<string[]> {
+    const ttl =
+      Number(
+        this.configService.get<number>('DANBOORU_TAG_CACHE_TTL_SECONDS'),
+      ) || TAG_RELATIONS_CACHE_TTL_SECONDS
+    return this.cacheService.getOrFetch<string[]>(
+      this.cacheService.getResourceKey(DANBOORU_API_PREFIX, resource, tag),
+      () =>
+        resource === TAG_ALIASES_RESOURCE
+          ? this.danbooruApiService.fetchTagAliases(tag)
+          : this.danbooruApiService.fetchTagImplications(tag),
+      ttl,
+    )
+  }
+}
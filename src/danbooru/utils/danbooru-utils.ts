@@ -1,62 +1,243 @@
 import { DanbooruPost } from '../dto/danbooru-post.class'
-import { DanbooruSuccessResponse } from '../interfaces/danbooru.interface'
+import type { ApiResponse } from '../../common/api/base-api.interface'
+import type { DanbooruPool } from '../dto/danbooru-pool.class'
+import type { DanbooruArtist } from '../dto/danbooru-artist.class'
+import type { DanbooruWikiPage } from '../dto/danbooru-wiki-page.class'
+import {
+  DanbooruArtistResponse,
+  DanbooruExploreQuery,
+  DanbooruExploreScale,
+  DanbooruPoolResponse,
+  DanbooruPostResponse,
+  DanbooruRelatedTag,
+  DanbooruSuccessResponse,
+  DanbooruTagSuggestion,
+  DanbooruWikiPageResponse,
+} from '../interfaces/danbooru.interface'
+import { DANBOORU_TAG_CATEGORIES } from '../constants/tag-categories.constants'
+import { EXPLORE_SCALES } from '../../common/constants'
+import { RATING_ALIASES } from '../../common/query/constants/metatags.constants'
+import {
+  parseQuery,
+  serializeTerm,
+} from '../../common/query/utils/query-parser.util'
+import { canonicalizeAst } from '../../common/query/utils/query-canonicalizer.util'
 
 /**
- * Extracts tags from Danbooru-style query string.
- * Supports basic tag extraction: "tag1 tag2 rating:safe" -> ['tag1', 'tag2'].
- * Filters out directives like rating:, limit: for cache key/invalidation.
- * @param query - Danbooru query string
- * @returns Sorted unique tags array
+ * Maps a Danbooru post into the normalized post shape returned to clients.
+ * Extracts the core fields (imageUrl, author, tags, rating, source, copyright, id,
+ * characters, md5) and media metadata (dimensions, file size/extension, large, sample
+ * and preview URLs, score, fav count, created_at, meta tags); missing metadata is null.
+ * @param post - DanbooruPost instance
+ * @returns DanbooruPostResponse object
  */
-export function extractTagsFromQuery(query: string): string[] {
-  if (!query || typeof query !== 'string') {
-    return []
+export function buildPostResponse(post: DanbooruPost): DanbooruPostResponse {
+  return {
+    id: post.id,
+    imageUrl: post.file_url,
+    author: post.tag_string_artist ?? null,
+    tags: post.tag_string_general,
+    rating: post.rating,
+    source: post.source ?? null,
+    copyright: post.tag_string_copyright,
+    characters: post.tag_string_character ?? null,
+    md5: post.md5 || null,
+    width: post.image_width ?? null,
+    height: post.image_height ?? null,
+    fileSize: post.file_size ?? null,
+    fileExt: post.file_ext || null,
+    largeImageUrl: post.large_file_url || null,
+    // large_file_url is the original when Danbooru made no sample
+    sampleImageUrl:
+      post.large_file_url && post.large_file_url !== post.file_url
+        ? post.large_file_url
+        : null,
+    previewImageUrl: post.preview_file_url || null,
+    score: post.score ?? null,
+    favCount: post.fav_count ?? null,
+    createdAt: post.created_at ? new Date(post.created_at).toISOString() : null,
+    metaTags: post.tag_string_meta || null,
   }
-
-  const parts = query
-    .trim()
-    .toLowerCase()
-    .split(/\s+/)
-    .filter(
-      (part: string) =>
-        !['rating:', 'limit:', 'order:', 'score:'].some(directive =>
-          part.startsWith(directive),
-        ),
-    )
-
-  return [...new Set(parts)].sort()
 }
 
 /**
- * Builds success response from Danbooru post.
- * Extracts required fields: imageUrl, author, tags, rating, source, copyright, id, characters.
- * @param post - DanbooruPost instance
+ * Builds success response from a list of Danbooru posts.
+ * Posts keep the order returned by the API.
+ * @param posts - Validated DanbooruPost instances
  * @param jobId - Job ID for logging and response
+ * @param metadata - Optional API metadata carrying next/prev page cursors
  * @returns DanbooruSuccessResponse object
  */
 export function buildSuccessResponse(
-  post: DanbooruPost,
+  posts: DanbooruPost[],
   jobId: string,
+  metadata?: ApiResponse['metadata'],
 ): DanbooruSuccessResponse {
-  const imageUrl = post.file_url
-  const author = post.tag_string_artist ?? null
-  const tags = post.tag_string_general
-  const rating = post.rating
-  const source = post.source ?? null
-  const copyright = post.tag_string_copyright
-  const id = post.id
-  const characters = post.tag_string_character ?? null
-
   return {
     type: 'success',
     jobId,
-    imageUrl,
-    author,
-    tags,
-    rating,
-    source,
-    copyright,
-    id,
-    characters,
+    posts: posts.map(buildPostResponse),
+    nextCursor: metadata?.next ?? null,
+    prevCursor: metadata?.prev ?? null,
+  }
+}
+
+/**
+ * Maps Danbooru tag records (/tags.json) to autocomplete suggestions.
+ * Records without a name are dropped, unknown categories count as general.
+ * @param tags - Sanitized tag records
+ * @returns Suggestions in API order
+ */
+export function buildTagSuggestions(
+  tags: Record<string, unknown>[],
+): DanbooruTagSuggestion[] {
+  return tags
+    .filter(tag => typeof tag.name === 'string' && tag.name !== '')
+    .map(tag => ({
+      name: tag.name as string,
+      postCount: Number(tag.post_count) || 0,
+      category: DANBOORU_TAG_CATEGORIES[Number(tag.category)] ?? 'general',
+    }))
+}
+
+/**
+ * Maps related tag records ({ tag, frequency }) into related tags, keeping API order.
+ * @param related - Sanitized related tag records
+ * @returns Related tags, records without a tag name dropped
+ */
+export function buildRelatedTags(
+  related: Record<string, unknown>[],
+): DanbooruRelatedTag[] {
+  return related.flatMap(record => {
+    const [suggestion] = buildTagSuggestions([
+      record.tag as Record<string, unknown>,
+    ])
+    if (!suggestion) {
+      return []
+    }
+    const frequency = Number(record.frequency)
+    return [
+      {
+        ...suggestion,
+        frequency: Number.isFinite(frequency) ? frequency : null,
+      },
+    ]
+  })
+}
+
+/**
+ * Maps a Danbooru pool into the pool shape returned to clients.
+ * @param pool - Validated DanbooruPool instance
+ * @returns DanbooruPoolResponse object
+ */
+export function buildPoolResponse(pool: DanbooruPool): DanbooruPoolResponse {
+  return {
+    id: pool.id,
+    name: pool.name,
+    description: pool.description || null,
+    category: pool.category,
+    postCount: pool.post_count,
+    postIds: pool.post_ids,
+    isActive: pool.is_active ?? true,
+    createdAt: pool.created_at.toISOString(),
+    updatedAt: pool.updated_at?.toISOString() ?? null,
+  }
+}
+
+/**
+ * Maps a Danbooru artist into the artist shape returned to clients.
+ * @param artist - Validated DanbooruArtist instance
+ * @returns DanbooruArtistResponse object
+ */
+export function buildArtistResponse(
+  artist: DanbooruArtist,
+): DanbooruArtistResponse {
+  return {
+    id: artist.id,
+    name: artist.name,
+    groupName: artist.group_name || null,
+    otherNames: artist.other_names ?? [],
+    urls: (artist.urls ?? []).map(url => ({
+      url: url.url,
+      isActive: url.is_active ?? true,
+    })),
+    isBanned: artist.is_banned ?? false,
+    createdAt: artist.created_at.toISOString(),
+    updatedAt: artist.updated_at?.toISOString() ?? null,
+  }
+}
+
+/**
+ * Maps a Danbooru wiki page into the wiki shape returned to clients.
+ * @param page - Validated DanbooruWikiPage instance
+ * @returns DanbooruWikiPageResponse object
+ */
+export function buildWikiPageResponse(
+  page: DanbooruWikiPage,
+): DanbooruWikiPageResponse {
+  return {
+    id: page.id,
+    title: page.title,
+    body: page.body,
+    otherNames: page.other_names ?? [],
+    createdAt: page.created_at.toISOString(),
+    updatedAt: page.updated_at?.toISOString() ?? null,
+  }
+}
+
+/**
+ * Reads an explore job query: a scale tag (`day`, `week`, `month`, default day),
+ * an optional `date:YYYY-MM-DD` and `rating:` terms. Positive (and `~`) rating terms
+ * list the ratings to keep, negated ones the ratings to drop.
+ * @param query - Explore job query, e.g. `week date:2024-01-01 -rating:e`
+ * @returns Scale, date and rating filter
+ * @throws QueryParseError if the query does not parse
+ * @throws Error for any other term
+ */
+export function parseExploreQuery(query: string): DanbooruExploreQuery {
+  let scale: DanbooruExploreScale | undefined
+  let date: string | null = null
+  const included = new Set<string>()
+  const excluded = new Set<string>()
+
+  for (const term of canonicalizeAst(parseQuery(query)).terms) {
+    if (
+      term.type === 'tag' &&
+      term.operator === 'and' &&
+      (EXPLORE_SCALES as readonly string[]).includes(term.name) &&
+      !scale
+    ) {
+      scale = term.name as DanbooruExploreScale
+    } else if (
+      term.type === 'metatag' &&
+      term.name === 'date' &&
+      term.operator === 'and' &&
+      term.value.kind === 'exact' &&
+      !date
+    ) {
+      date = term.value.value
+    } else if (
+      term.type === 'metatag' &&
+      term.name === 'rating' &&
+      (term.value.kind === 'exact' || term.value.kind === 'list')
+    ) {
+      const values =
+        term.value.kind === 'exact' ? [term.value.value] : term.value.values
+      const target = term.operator === 'not' ? excluded : included
+      values.forEach(value => target.add(value))
+    } else {
+      throw new Error(
+        `Explore queries take one scale (${EXPLORE_SCALES.join(', ')}), one date: and rating: terms, got "${serializeTerm(term)}"`,
+      )
+    }
+  }
+
+  let ratings: string[] | null = null
+  if (included.size > 0 || excluded.size > 0) {
+    const allowed = included.size
+      ? [...included]
+      : [...new Set(Object.values(RATING_ALIASES))]
+    ratings = allowed.filter(rating => !excluded.has(rating))
   }
+  return { scale: scale ?? 'day', date, ratings }
 }
@@ -0,0 +1,98 @@
+import { Logger } from '@nestjs/common'
+import { createHmac } from 'crypto'
+import { ValidationService } from './validation.service'
+
+jest.spyOn(Logger.prototype, 'warn').mockImplementation(() => {})
+jest.spyOn(Logger.prototype, 'debug').mockImplementation(() => {})
+
+function sign(payload: string): string {
+  return createHmac('sha256', 'test-secret').update(payload).digest('hex')
+}
+
+describe('ValidationService (danbooru)', () => {
+  const jobId = '123e4567-e89b-12d3-a456-426614174000'
+  const query = 'cat_ears'
+  const callbackUrl = 'https://fn.example.com/hooks/booru'
+  let service: ValidationService
+  let previousSecret: string | undefined
+
+  beforeAll(() => {
+    previousSecret = process.env.API_SECRET
+    process.env.API_SECRET = 'test-secret'
+  })
+
+  afterAll(() => {
+    if (previousSecret === undefined) {
+      delete process.env.API_SECRET
+    } else {
+      process.env.API_SECRET = previousSecret
+    }
+  })
+
+  beforeEach(() => {
+    service = new ValidationService()
+  })
+
+  it('should accept requests signing jobId + query', async () => {
+    const result = await service.validateRequest({
+      jobId,
+      query,
+      clientId: 'bot1',
+      apiKey: sign(`${jobId}${query}`),
+    })
+
+    expect(result.valid).toBe(true)
+  })
+
+  it('should require replyTo and callbackUrl to be signed with clientId', async () => {
+    const routed = {
+      jobId,
+      query,
+      clientId: 'bot1',
+      replyTo: 'bot1:inbox',
+      callbackUrl,
+    }
+
+    await expect(
+      service.validateRequest({
+        ...routed,
+        apiKey: sign(`${jobId}${query}\nbot1\nbot1:inbox\n${callbackUrl}`),
+      }),
+    ).resolves.toMatchObject({ valid: true })
+
+    // A captured signature does not cover a swapped destination
+    const result = await service.validateRequest({
+      ...routed,
+      callbackUrl: 'https://fn.example.com/hooks/other',
+      apiKey: sign(`${jobId}${query}\nbot1\nbot1:inbox\n${callbackUrl}`),
+    })
+    expect(result).toMatchObject({
+      valid: false,
+      error: { error: 'Invalid API key - authentication failed' },
+    })
+
+    await expect(
+      service.validateRequest({
+        ...routed,
+        apiKey: sign(`${jobId}${query}`),
+      }),
+    ).resolves.toMatchObject({ valid: false })
+  })
+
+  it('should verify job status keys signing the jobId alone', () => {
+    expect(service.verifyJobKey(jobId, sign(jobId))).toBe(true)
+    expect(service.verifyJobKey(jobId, sign(`${jobId}${query}`))).toBe(false)
+    expect(service.verifyJobKey(jobId, undefined)).toBe(false)
+  })
+
+  it('should leave missing routing fields empty in the signed payload', async () => {
+    const result = await service.validateRequest({
+      jobId,
+      query,
+      replyTo: 'bot1:inbox',
+      apiKey: sign(`${jobId}${query}\n\nbot1:inbox\n`),
+    })
+
+    expect(result.valid).toBe(true)
+  })
+})
@@ -49,7 +49,7 @@ export class ValidationService {
     }
 
     const expectedApiKey = createHmac('sha256', apiSecret)
-      .update(`${requestDto.jobId}${requestDto.query}`)
+      .update(this.getSignedPayload(requestDto))
       .digest('hex')
 
     if (requestDto.apiKey !== expectedApiKey) {
@@ -65,4 +65,44 @@ export class ValidationService {
     this.logger.debug(`API key verified for job ${requestDto.jobId}`)
     return { valid: true, dto: requestDto }
   }
+
+  /**
+   * Checks the apiKey of a job status lookup: HMAC-SHA256 of the jobId alone
+   * with API_SECRET, so learning a jobId is not enough to read its response.
+   * @param jobId - Job being looked up
+   * @param apiKey - Client signature, may be missing
+   * @throws Error if API_SECRET is not set
+   */
+  verifyJobKey(jobId: string, apiKey?: string): boolean {
+    const apiSecret = process.env.API_SECRET
+    if (!apiSecret) {
+      this.logger.error('API_SECRET environment variable is not set')
+      throw new Error('Server configuration error: API_SECRET is required')
+    }
+    if (!apiKey) {
+      return false
+    }
+    return (
+      apiKey === createHmac('sha256', apiSecret).update(jobId).digest('hex')
+    )
+  }
+
+  /**
+   * String the apiKey signs: jobId + query, or jobId + image reference for
+   * iqdb.search. A request with replyTo or callbackUrl appends
+   * `\n{clientId}\n{replyTo}\n{callbackUrl}` (missing fields empty), so a
+   * captured request cannot be redirected elsewhere; clientId is part of it
+   * because the callback allowlist is keyed on it. Other requests keep the
+   * plain signature, their clientId at most picks the per-client response stream.
+   */
+  private getSignedPayload(dto: CreateRequestDto): string {
+    const signedImage = dto.imageUrl ?? dto.imageData ?? ''
+    const payload = `${dto.jobId}${dto.query ?? ''}${signedImage}`
+    if (!dto.replyTo && !dto.callbackUrl) {
+      return payload
+    }
+    return [payload, dto.clientId, dto.replyTo, dto.callbackUrl]
+      .map(field => field ?? '')
+      .join('\n')
+  }
 }
@@ -0,0 +1,26 @@
+import { E621VariantConfig } from '../interfaces/e621.interface'
+
+export const E621_VARIANT: E621VariantConfig = {
+  apiPrefix: 'e621',
+  baseUrl: 'https://e621.net',
+}
+
+// SFW variant: same API, only rating:s posts are served
+export const E926_VARIANT: E621VariantConfig = {
+  apiPrefix: 'e926',
+  baseUrl: 'https://e926.net',
+}
+
+export const E621_VARIANTS: readonly E621VariantConfig[] = [
+  E621_VARIANT,
+  E926_VARIANT,
+]
+
+/**
+ * DI token for the per-variant E621Service
+ * @param apiPrefix - Variant API prefix (e.g., 'e926')
+ * @returns Injection token in format: `E621_SERVICE:${apiPrefix}`
+ */
+export function getE621ServiceToken(apiPrefix: string): string {
+  return `E621_SERVICE:${apiPrefix}`
+}
@@ -0,0 +1,23 @@
+/**
+ * e621-specific string fields that require XSS sanitization.
+ * Dotted paths reach into the nested `file`/`tags` objects, tag groups are string arrays.
+ */
+export const E621_STRING_FIELDS = [
+  'description',
+  'sources',
+  'created_at',
+  'updated_at',
+  'file.url',
+  'file.md5',
+  'file.ext',
+  'preview.url',
+  'sample.url',
+  'tags.general',
+  'tags.artist',
+  'tags.copyright',
+  'tags.character',
+  'tags.species',
+  'tags.meta',
+  'tags.lore',
+  'tags.invalid',
+] as const
@@ -0,0 +1,113 @@
+import {
+  IsArray,
+  IsNumber,
+  IsString,
+  IsOptional,
+  IsEnum,
+  IsUrl,
+  ValidateNested,
+} from 'class-validator'
+
+import { Type } from 'class-transformer'
+
+export class E621File {
+  // null for posts hidden from anonymous users, which are then dropped
+  @IsString()
+  @IsUrl({}, { message: 'file.url must be a valid URL' })
+  url: string
+
+  @IsOptional()
+  @IsString()
+  md5?: string
+
+  @IsOptional()
+  @IsString()
+  ext?: string
+
+  @IsOptional()
+  @IsNumber()
+  width?: number
+
+  @IsOptional()
+  @IsNumber()
+  height?: number
+
+  @IsOptional()
+  @IsNumber()
+  size?: number
+}
+
+export class E621Tags {
+  @IsArray()
+  @IsString({ each: true })
+  general: string[]
+
+  @IsArray()
+  @IsString({ each: true })
+  artist: string[]
+
+  @IsArray()
+  @IsString({ each: true })
+  copyright: string[]
+
+  @IsArray()
+  @IsString({ each: true })
+  character: string[]
+
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  species?: string[]
+
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  meta?: string[]
+
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  lore?: string[]
+
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  invalid?: string[]
+}
+
+export class E621Score {
+  @IsNumber()
+  total: number
+}
+
+export class E621Post {
+  @IsNumber()
+  id: number
+
+  @ValidateNested()
+  @Type(() => E621File)
+  file: E621File
+
+  @ValidateNested()
+  @Type(() => E621Tags)
+  tags: E621Tags
+
+  @IsEnum(['s', 'q', 'e'])
+  rating: 's' | 'q' | 'e'
+
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  sources?: string[]
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => E621Score)
+  score?: E621Score
+
+  @IsOptional()
+  @IsString()
+  created_at?: string;
+
+  [key: string]: unknown
+}
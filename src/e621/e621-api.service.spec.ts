@@ -0,0 +1,156 @@
+import 'reflect-metadata'
+import { ConfigService } from '@nestjs/config'
+import { AxiosError, type AxiosInstance, type AxiosResponse } from 'axios'
+import { E621ApiService } from './e621-api.service'
+import { UpstreamUnavailableError } from '../common/api/upstream-unavailable.error'
+import { E621_VARIANT, E926_VARIANT } from './constants/e621.constants'
+import { buildSuccessResponse } from './utils/e621-utils'
+
+describe('E621ApiService', () => {
+  let config: Record<string, string>
+  let getSpy: jest.SpyInstance
+
+  const e621Post = {
+    id: 4500000,
+    created_at: '2024-01-01T00:00:00.000-05:00',
+    file: {
+      width: 1000,
+      height: 800,
+      ext: 'png',
+      size: 123456,
+      md5: 'abc',
+      url: 'https://static1.e621.net/data/ab/c1/abc.png',
+    },
+    preview: { url: 'https://static1.e621.net/data/preview/ab/c1/abc.jpg' },
+    score: { up: 10, down: -1, total: 9 },
+    tags: {
+      general: ['solo', '<b>smile</b>'],
+      species: ['wolf'],
+      character: ['krystal'],
+      copyright: ['star_fox'],
+      artist: ['someartist'],
+      invalid: [],
+      lore: [],
+      meta: ['hi_res'],
+    },
+    rating: 's',
+    sources: ['https://twitter.com/someartist/status/1'],
+    fav_count: 3,
+  }
+
+  const createService = (variant = E621_VARIANT) => {
+    const configService = {
+      get: jest.fn((key: string) => config[key]),
+    } as unknown as ConfigService
+    const service = new E621ApiService(configService, variant)
+    const httpClient = (service as unknown as { httpClient: AxiosInstance })
+      .httpClient
+    getSpy = jest.spyOn(httpClient, 'get')
+    return { service, httpClient }
+  }
+
+  beforeEach(() => {
+    config = { E621_LOGIN: 'someuser', E621_API_KEY: 'key' }
+  })
+
+  it('should send a descriptive User-Agent and basic auth', () => {
+    const { httpClient } = createService()
+
+    expect(httpClient.defaults.headers['User-Agent']).toBe(
+      'booru-proxy/1.0 (by someuser on e621)',
+    )
+    expect(httpClient.defaults.auth).toEqual({
+      username: 'someuser',
+      password: 'key',
+    })
+    expect(httpClient.defaults.baseURL).toBe('https://e621.net')
+  })
+
+  it('should use the e926 host for the SFW variant', () => {
+    const { httpClient } = createService(E926_VARIANT)
+
+    expect(httpClient.defaults.baseURL).toBe('https://e926.net')
+  })
+
+  it('should unwrap posts, sanitize nested tags and map tag groups', async () => {
+    const { service } = createService()
+    getSpy.mockResolvedValue({ status: 200, data: { posts: [e621Post] } })
+
+    const result = await service.fetchPosts('wolf', 1, true)
+
+    expect(getSpy).toHaveBeenCalledWith(
+      `/posts.json?tags=${encodeURIComponent('wolf order:random')}&limit=1`,
+    )
+    expect(buildSuccessResponse(result!.data, 'job-1')).toEqual({
+      type: 'success',
+      jobId: 'job-1',
+      posts: [
+        {
+          id: 4500000,
+          imageUrl: e621Post.file.url,
+          author: 'someartist',
+          tags: 'solo smile',
+          rating: 's',
+          source: 'https://twitter.com/someartist/status/1',
+          copyright: 'star_fox',
+          characters: 'krystal',
+          md5: 'abc',
+        },
+      ],
+      nextCursor: null,
+      prevCursor: null,
+    })
+  })
+
+  it('should pass id cursors straight through as page', async () => {
+    const { service } = createService()
+    getSpy.mockResolvedValue({ status: 200, data: { posts: [e621Post] } })
+
+    const result = await service.fetchPosts('wolf', 1, false, 'b4500100')
+
+    expect(getSpy).toHaveBeenCalledWith(
+      '/posts.json?tags=wolf&limit=1&page=b4500100',
+    )
+    expect(result?.metadata).toMatchObject({ next: 'b4500000' })
+  })
+
+  it('should drop posts whose file url is hidden', async () => {
+    const { service } = createService()
+    getSpy.mockResolvedValue({
+      status: 200,
+      data: { posts: [{ ...e621Post, file: { ...e621Post.file, url: null } }] },
+    })
+
+    await expect(service.fetchPosts('wolf')).resolves.toBeNull()
+  })
+
+  it('should translate Danbooru rating tags into e621 ratings', async () => {
+    const { service } = createService()
+    getSpy.mockResolvedValue({ status: 200, data: { posts: [e621Post] } })
+
+    await service.fetchPosts('wolf rating:general -rating:explicit', 1, false)
+
+    expect(getSpy).toHaveBeenCalledWith(
+      `/posts.json?tags=${encodeURIComponent('wolf rating:s -rating:e')}&limit=1`,
+    )
+  })
+
+  it('should throw UpstreamUnavailableError on 5xx after retries', async () => {
+    const { service } = createService()
+    getSpy.mockRejectedValue(
+      new AxiosError(
+        'Request failed with status code 503',
+        'ERR_BAD_RESPONSE',
+        undefined,
+        undefined,
+        {
+          status: 503,
+        } as AxiosResponse,
+      ),
+    )
+
+    await expect(service.fetchPosts('wolf')).rejects.toBeInstanceOf(
+      UpstreamUnavailableError,
+    )
+  })
+})
@@ -0,0 +1,118 @@
+import { ConfigService } from '@nestjs/config'
+import { E621Post } from './dto/e621-post.class'
+import { E621VariantConfig } from './interfaces/e621.interface'
+import { API_TIMEOUT_MS } from '../common/constants'
+import {
+  BaseApiService,
+  ApiConfig,
+  ApiResponse,
+} from '../common/api/base-api.service'
+import { E621_STRING_FIELDS } from './constants/sanitization.constants'
+import { sanitizeStringFields } from '../common/api/utils/sanitize.util'
+import { translateRatingTags } from '../common/api/utils/rating.util'
+import { validatePosts } from '../common/api/utils/post-validation.util'
+
+/**
+ * Client for e621 and its SFW variant e926.
+ * Not a singleton provider: E621Module creates one instance per variant.
+ */
+export class E621ApiService extends BaseApiService {
+  private readonly login: string
+  private readonly apiKey: string
+  private readonly userAgent: string
+
+  constructor(
+    configService: ConfigService,
+    private readonly variant: E621VariantConfig,
+  ) {
+    super(configService)
+    // Credentials are shared by both variants and optional (needed for hidden posts)
+    this.login = configService.get<string>('E621_LOGIN') ?? ''
+    this.apiKey = configService.get<string>('E621_API_KEY') ?? ''
+    // e621 rejects generic user agents, it asks for "project/version (by username on e621)"
+    this.userAgent =
+      configService.get<string>('E621_USER_AGENT') ||
+      `booru-proxy/1.0 (by ${this.login || 'anonymous'} on e621)`
+  }
+
+  protected getApiConfig(): ApiConfig {
+    return {
+      baseUrl:
+        this.configService.get<string>(
+          `${this.variant.apiPrefix.toUpperCase()}_BASE_URL`,
+        ) || this.variant.baseUrl,
+      timeout: API_TIMEOUT_MS,
+      headers: { 'User-Agent': this.userAgent },
+      ...(this.login && this.apiKey
+        ? { auth: { username: this.login, password: this.apiKey } }
+        : {}),
+      retryAttempts: 3, // Explicitly set for axios-retry
+    }
+  }
+
+  protected getBaseEndpoint(): string {
+    return '/posts.json'
+  }
+
+  /**
+   * e621 pages like Danbooru (page=N or page=b<id>/a<id>),
+   * but random ordering is the `order:random` tag and ratings are s/q/e.
+   */
+  protected buildEndpoint(
+    query: string,
+    limit: number,
+    random: boolean,
+    page?: string,
+  ): string {
+    const translated = translateRatingTags(query.trim())
+    const tags = random ? `${translated} order:random` : translated
+    let endpoint = `${this.getBaseEndpoint()}?tags=${encodeURIComponent(tags)}&limit=${limit}`
+    if (page) {
+      endpoint += `&page=${encodeURIComponent(page)}`
+    }
+    return endpoint
+  }
+
+  // e621 wraps posts as { "posts": [...] }
+  protected extractPosts(body: unknown): unknown[] | undefined {
+    const posts = (body as { posts?: unknown } | null)?.posts
+    return Array.isArray(posts) ? posts : undefined
+  }
+
+  // Override sanitizeResponse for e621-specific (nested) sanitization
+  protected sanitizeResponse(data: unknown): Record<string, unknown> {
+    return sanitizeStringFields(
+      super.sanitizeResponse(data),
+      E621_STRING_FIELDS,
+    )
+  }
+
+  // Cache keys and logs use the variant prefix rather than the class name
+  protected getName(): string {
+    return this.variant.apiPrefix
+  }
+
+  async fetchPosts(
+    query: string,
+    limit: number = 1,
+    random: boolean = true,
+    page?: string,
+  ): Promise<ApiResponse<E621Post[]> | null> {
+    // Use inherited fetchPosts from BaseApiService, which handles caching, logging, and sanitization
+    const response = await super.fetchPosts(query, limit, random, page)
+
+    if (!response) {
+      return null
+    }
+
+    // Invalid posts are dropped individually
+    const posts = await validatePosts(
+      E621Post,
+      response.data,
+      this.logger,
+      this.variant.apiPrefix,
+    )
+
+    return posts.length > 0 ? { ...response, data: posts } : null
+  }
+}
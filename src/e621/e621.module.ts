@@ -0,0 +1,67 @@
+import { DynamicModule, Module, Provider } from '@nestjs/common'
+import { ConfigService } from '@nestjs/config'
+import Redis from 'ioredis'
+import { CacheModule } from '../common/cache/cache.module'
+import { QueuesModule } from '../common/queues/queues.module'
+import { RedisModule } from '../common/redis/redis.module'
+import { RateLimitModule } from '../common/rate-limit/rate-limit.module'
+import { CacheService } from '../common/cache/cache.service'
+import { RateLimitManagerService } from '../common/rate-limit/rate-limit-manager.service'
+import { LockUtil } from '../common/redis/utils/lock.util'
+import { ProviderRegistryService } from '../common/api/provider-registry.service'
+import { E621Service } from './e621.service'
+import { E621ApiService } from './e621-api.service'
+import { E621VariantConfig } from './interfaces/e621.interface'
+import { E621_VARIANTS, getE621ServiceToken } from './constants/e621.constants'
+
+@Module({})
+export class E621Module {
+  /**
+   * Registers one E621Service per variant under getE621ServiceToken(apiPrefix)
+   * and adds each of them to the ProviderRegistryService
+   * @param variants - e621 variants to serve (defaults to e621 and e926)
+   */
+  static register(
+    variants: readonly E621VariantConfig[] = E621_VARIANTS,
+  ): DynamicModule {
+    const providers: Provider[] = variants.map(variant => ({
+      provide: getE621ServiceToken(variant.apiPrefix),
+      useFactory: (
+        configService: ConfigService,
+        redis: Redis,
+        lockUtil: LockUtil,
+        cacheService: CacheService,
+        rateLimitManagerService: RateLimitManagerService,
+        providerRegistry: ProviderRegistryService,
+      ) => {
+        const service = new E621Service(
+          variant,
+          configService,
+          redis,
+          lockUtil,
+          new E621ApiService(configService, variant),
+          cacheService,
+          rateLimitManagerService,
+          providerRegistry,
+        )
+        providerRegistry.register(service)
+        return service
+      },
+      inject: [
+        ConfigService,
+        'REDIS_CLIENT',
+        LockUtil,
+        CacheService,
+        RateLimitManagerService,
+        ProviderRegistryService,
+      ],
+    }))
+
+    return {
+      module: E621Module,
+      imports: [CacheModule, QueuesModule, RedisModule, RateLimitModule],
+      providers,
+      exports: variants.map(variant => getE621ServiceToken(variant.apiPrefix)),
+    }
+  }
+}
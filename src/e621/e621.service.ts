@@ -0,0 +1,81 @@
+import { ConfigService } from '@nestjs/config'
+import { E621ApiService } from './e621-api.service'
+import { E621VariantConfig } from './interfaces/e621.interface'
+import { CacheService } from '../common/cache/cache.service'
+import { RateLimitManagerService } from '../common/rate-limit/rate-limit-manager.service'
+import { LockUtil } from '../common/redis/utils/lock.util'
+import { BaseBooruService } from '../common/api/base-booru.service'
+import { ProviderRegistryService } from '../common/api/provider-registry.service'
+import { NotFoundError } from '../common/api/not-found.error'
+import type { BooruSuccessResponse } from '../common/api/base-api.interface'
+import Redis from 'ioredis'
+import { buildSuccessResponse } from './utils/e621-utils'
+
+/**
+ * Orchestrator for one e621 variant. Created per variant by E621Module,
+ * publishing to `${apiPrefix}:responses` and using `${apiPrefix}` for cache/rate/DLQ keys.
+ */
+export class E621Service extends BaseBooruService {
+  protected readonly apiPrefix: string
+
+  constructor(
+    variant: E621VariantConfig,
+    configService: ConfigService,
+    redis: Redis,
+    lockUtil: LockUtil,
+    private readonly e621ApiService: E621ApiService,
+    cacheService: CacheService,
+    rateLimitManagerService: RateLimitManagerService,
+    providerRegistry: ProviderRegistryService,
+  ) {
+    super(
+      configService,
+      redis,
+      lockUtil,
+      cacheService,
+      rateLimitManagerService,
+      providerRegistry,
+    )
+    this.apiPrefix = variant.apiPrefix
+  }
+
+  getApiService(): E621ApiService {
+    return this.e621ApiService
+  }
+
+  /**
+   * Fetches e621 posts + builds the normalized success response.
+   * Throws if no posts (for catch in processRequest).
+   * @param query - Query string
+   * @param random - Random flag
+   * @param limit - Limit
+   * @param jobId - Job ID
+   * @param page - Page number or cursor
+   * @returns Success response
+   */
+  protected async fetchAndBuildResponse(
+    query: string,
+    random: boolean,
+    limit: number,
+    jobId: string,
+    page?: string,
+  ): Promise<BooruSuccessResponse> {
+    const result = await this.e621ApiService.fetchPosts(
+      query,
+      limit,
+      random,
+      page,
+    )
+    if (!result) {
+      throw new NotFoundError('No posts found for the query or API error')
+    }
+
+    const response = buildSuccessResponse(result.data, jobId, result.metadata)
+    this.logger.log(
+      `Found ${response.posts.length} posts for ${this.apiPrefix} job ${jobId} (limit ${limit})`,
+      jobId,
+    )
+
+    return response
+  }
+}
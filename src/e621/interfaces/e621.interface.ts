@@ -0,0 +1,8 @@
+/**
+ * An e621-family host. e621 and its SFW mirror e926 share the API,
+ * each gets its own apiPrefix for streams, cache, rate limits and config keys.
+ */
+export interface E621VariantConfig {
+  apiPrefix: string // e.g. 'e926' -> e926:requests, E926_LIMIT
+  baseUrl: string // Overridable via {PREFIX}_BASE_URL
+}
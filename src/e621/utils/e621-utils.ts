@@ -0,0 +1,57 @@
+import { E621Post } from '../dto/e621-post.class'
+import type {
+  ApiResponse,
+  BooruPostResponse,
+  BooruSuccessResponse,
+} from '../../common/api/base-api.interface'
+
+/**
+ * Joins an e621 tag group into a Danbooru-style space-separated tag string.
+ * @param group - Tag group array (may be missing)
+ * @returns Space-separated tags ('' for an empty group)
+ */
+function joinTags(group?: string[]): string {
+  return (group ?? []).join(' ')
+}
+
+/**
+ * Maps an e621 post into the normalized post shape returned to clients.
+ * Tag groups map onto the Danbooru categories: general -> tags, artist -> author,
+ * copyright -> copyright, character -> characters. The first source wins.
+ * @param post - E621Post instance
+ * @returns BooruPostResponse object
+ */
+export function buildPostResponse(post: E621Post): BooruPostResponse {
+  return {
+    id: post.id,
+    imageUrl: post.file.url,
+    author: joinTags(post.tags.artist) || null,
+    tags: joinTags(post.tags.general),
+    rating: post.rating,
+    source: post.sources?.[0] ?? null,
+    copyright: joinTags(post.tags.copyright),
+    characters: joinTags(post.tags.character) || null,
+    md5: post.file.md5 || null,
+  }
+}
+
+/**
+ * Builds success response from a list of e621 posts.
+ * @param posts - Validated E621Post instances
+ * @param jobId - Job ID for logging and response
+ * @param metadata - Optional API metadata carrying next/prev page cursors
+ * @returns BooruSuccessResponse object
+ */
+export function buildSuccessResponse(
+  posts: E621Post[],
+  jobId: string,
+  metadata?: ApiResponse['metadata'],
+): BooruSuccessResponse {
+  return {
+    type: 'success',
+    jobId,
+    posts: posts.map(buildPostResponse),
+    nextCursor: metadata?.next ?? null,
+    prevCursor: metadata?.prev ?? null,
+  }
+}
@@ -0,0 +1,19 @@
+/**
+ * Gelbooru-specific string fields that require XSS sanitization.
+ * Gelbooru keeps every tag in a single `tags` string and exposes uploader-provided
+ * `title` and `source` fields.
+ */
+export const GELBOORU_STRING_FIELDS = [
+  'tags',
+  'source',
+  'title',
+  'owner',
+  'file_url',
+  'sample_url',
+  'preview_url',
+  'directory',
+  'image',
+  'md5',
+  'created_at',
+  'status',
+] as const
@@ -0,0 +1,71 @@
+import {
+  IsNumber,
+  IsString,
+  IsOptional,
+  IsEnum,
+  IsUrl,
+  MaxLength,
+} from 'class-validator'
+
+import { Transform } from 'class-transformer'
+
+export const GELBOORU_RATINGS = [
+  'general',
+  'sensitive',
+  'questionable',
+  'explicit',
+  'safe', // Legacy rating, still returned for older posts
+] as const
+
+export type GelbooruRating = (typeof GELBOORU_RATINGS)[number]
+
+export class GelbooruPost {
+  @IsNumber()
+  id: number
+
+  @IsString()
+  @IsUrl({}, { message: 'file_url must be a valid URL' })
+  file_url: string
+
+  @IsOptional()
+  @IsString()
+  sample_url?: string
+
+  @IsOptional()
+  @IsString()
+  preview_url?: string
+
+  @IsString()
+  @MaxLength(10000)
+  @Transform(
+    ({ value }: { value: string }) => value?.toLowerCase().trim() || '',
+  )
+  tags: string
+
+  @IsEnum(GELBOORU_RATINGS)
+  rating: GelbooruRating
+
+  // Free-form on Gelbooru (often empty or several space-separated URLs)
+  @IsOptional()
+  @IsString()
+  source?: string
+
+  @IsOptional()
+  @IsNumber()
+  score?: number
+
+  @IsOptional()
+  @IsString()
+  md5?: string
+
+  @IsOptional()
+  @IsString()
+  owner?: string
+
+  // Gelbooru returns a ctime-style string, e.g. "Sat Oct 12 04:11:55 -0500 2024"
+  @IsOptional()
+  @IsString()
+  created_at?: string;
+
+  [key: string]: unknown
+}
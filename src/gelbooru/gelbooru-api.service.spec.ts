@@ -0,0 +1,158 @@
+import { Test, TestingModule } from '@nestjs/testing'
+import { ConfigService } from '@nestjs/config'
+import type { AxiosInstance } from 'axios'
+import { GelbooruApiService } from './gelbooru-api.service'
+import { CacheService } from '../common/cache/cache.service'
+import { buildSuccessResponse } from './utils/gelbooru-utils'
+import 'reflect-metadata'
+
+describe('GelbooruApiService', () => {
+  let service: GelbooruApiService
+  let getSpy: jest.SpyInstance
+
+  const gelbooruPost = {
+    id: 9001,
+    file_url: 'https://img3.gelbooru.com/images/aa/bb/aabb.jpg',
+    preview_url:
+      'https://img3.gelbooru.com/thumbnails/aa/bb/thumbnail_aabb.jpg',
+    tags: 'Cat 1girl <b>solo</b>',
+    rating: 'sensitive',
+    source: '',
+    score: 12,
+    md5: 'aabb',
+    owner: 'uploader',
+    created_at: 'Sat Oct 12 04:11:55 -0500 2024',
+  }
+
+  beforeEach(async () => {
+    const config: Record<string, string> = {
+      GELBOORU_USER_ID: '42',
+      GELBOORU_API_KEY: 'secret',
+    }
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        GelbooruApiService,
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn((key: string) => config[key]) },
+        },
+        // Declared by BaseApiService, unused by the Gelbooru constructor
+        { provide: 'REDIS_CLIENT', useValue: {} },
+        { provide: CacheService, useValue: {} },
+      ],
+    }).compile()
+
+    service = module.get<GelbooruApiService>(GelbooruApiService)
+    const httpClient = (service as unknown as { httpClient: AxiosInstance })
+      .httpClient
+    getSpy = jest.spyOn(httpClient, 'get')
+  })
+
+  it('should unwrap the post envelope and validate posts', async () => {
+    getSpy.mockResolvedValue({
+      status: 200,
+      data: {
+        '@attributes': { limit: 1, offset: 0, count: 1 },
+        post: [gelbooruPost],
+      },
+    })
+
+    const result = await service.fetchPosts('cat', 1, true)
+
+    expect(getSpy).toHaveBeenCalledWith(
+      `/index.php?page=dapi&s=post&q=index&json=1&tags=${encodeURIComponent('cat sort:random')}&limit=1&pid=0&user_id=42&api_key=secret`,
+    )
+    expect(result?.data).toHaveLength(1)
+    expect(result?.data[0].tags).toBe('cat 1girl solo')
+  })
+
+  it('should translate id cursors into id tags', async () => {
+    getSpy.mockResolvedValue({ status: 200, data: { post: [gelbooruPost] } })
+
+    const result = await service.fetchPosts('cat', 1, false, 'b9500')
+
+    expect(getSpy).toHaveBeenCalledWith(
+      expect.stringContaining(
+        `&tags=${encodeURIComponent('cat id:<9500')}&limit=1&pid=0`,
+      ),
+    )
+    expect(result?.metadata).toMatchObject({ next: 'b9001', prev: 'a9001' })
+  })
+
+  it('should translate Danbooru ratings and order metatags', async () => {
+    getSpy.mockResolvedValue({ status: 200, data: { post: [gelbooruPost] } })
+
+    await service.fetchPosts('cat rating:g -rating:e order:score', 1, false)
+
+    expect(getSpy).toHaveBeenCalledWith(
+      expect.stringContaining(
+        `&tags=${encodeURIComponent('cat rating:general -rating:explicit sort:score')}&`,
+      ),
+    )
+  })
+
+  it('should send rating:safe and rating:s as the same Gelbooru rating', async () => {
+    getSpy.mockResolvedValue({ status: 200, data: { post: [gelbooruPost] } })
+
+    // Both share one cache entry under the canonical query
+    await service.fetchPosts('cat rating:safe', 1, false)
+    await service.fetchPosts('cat rating:s', 1, false)
+
+    const tags = encodeURIComponent('cat rating:sensitive')
+    expect(getSpy).toHaveBeenNthCalledWith(
+      1,
+      expect.stringContaining(`&tags=${tags}&`),
+    )
+    expect(getSpy).toHaveBeenNthCalledWith(
+      2,
+      expect.stringContaining(`&tags=${tags}&`),
+    )
+  })
+
+  it('should translate page numbers into zero-based pid', async () => {
+    getSpy.mockResolvedValue({ status: 200, data: { post: [gelbooruPost] } })
+
+    await service.fetchPosts('cat', 5, false, '3')
+
+    expect(getSpy).toHaveBeenCalledWith(expect.stringContaining('&pid=2'))
+  })
+
+  it('should return null when the envelope has no posts', async () => {
+    getSpy.mockResolvedValue({
+      status: 200,
+      data: { '@attributes': { limit: 1, offset: 0, count: 0 } },
+    })
+
+    await expect(service.fetchPosts('nothing')).resolves.toBeNull()
+  })
+
+  it('should map posts into the normalized response shape', async () => {
+    getSpy.mockResolvedValue({ status: 200, data: { post: [gelbooruPost] } })
+
+    const result = await service.fetchPosts('cat')
+    const response = buildSuccessResponse(result!.data, 'job-1')
+
+    expect(response).toEqual({
+      type: 'success',
+      jobId: 'job-1',
+      posts: [
+        {
+          id: 9001,
+          imageUrl: gelbooruPost.file_url,
+          author: null,
+          tags: 'cat 1girl solo',
+          rating: 's',
+          source: null,
+          copyright: '',
+          characters: null,
+          md5: 'aabb',
+          sampleImageUrl: null,
+          previewImageUrl:
+            'https://img3.gelbooru.com/thumbnails/aa/bb/thumbnail_aabb.jpg',
+        },
+      ],
+      nextCursor: null,
+      prevCursor: null,
+    })
+  })
+})
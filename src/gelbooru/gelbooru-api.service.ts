@@ -0,0 +1,120 @@
+import { Injectable } from '@nestjs/common'
+import { ConfigService } from '@nestjs/config'
+import { GelbooruPost } from './dto/gelbooru-post.class'
+import { API_TIMEOUT_MS } from '../common/constants'
+import {
+  BaseApiService,
+  ApiConfig,
+  ApiResponse,
+} from '../common/api/base-api.service'
+import { GELBOORU_STRING_FIELDS } from './constants/sanitization.constants'
+import { sanitizeStringFields } from '../common/api/utils/sanitize.util'
+import { translateQueryTags } from './utils/gelbooru-utils'
+import { validatePosts } from '../common/api/utils/post-validation.util'
+
+/**
+ * Gelbooru DAPI response envelope.
+ * `post` is missing entirely when the query matches nothing.
+ */
+interface GelbooruApiEnvelope {
+  '@attributes'?: { limit: number; offset: number; count: number }
+  post?: unknown[]
+}
+
+@Injectable()
+export class GelbooruApiService extends BaseApiService {
+  private readonly userId: string
+  private readonly apiKey: string
+
+  constructor(configService: ConfigService) {
+    super(configService)
+    // Credentials are optional on Gelbooru but raise the anonymous rate limits
+    this.userId = configService.get<string>('GELBOORU_USER_ID') ?? ''
+    this.apiKey = configService.get<string>('GELBOORU_API_KEY') ?? ''
+  }
+
+  protected getApiConfig(): ApiConfig {
+    return {
+      baseUrl:
+        this.configService.get<string>('GELBOORU_BASE_URL') ||
+        'https://gelbooru.com',
+      timeout: API_TIMEOUT_MS,
+      retryAttempts: 3, // Explicitly set for axios-retry
+    }
+  }
+
+  protected getBaseEndpoint(): string {
+    return '/index.php?page=dapi&s=post&q=index&json=1'
+  }
+
+  /**
+   * Gelbooru takes everything as tags: Danbooru ratings/order metatags are translated,
+   * random ordering is `sort:random`, pages are zero-based `pid` offsets
+   * and id cursors become `id:<N` / `id:>N` tags.
+   */
+  protected buildEndpoint(
+    query: string,
+    limit: number,
+    random: boolean,
+    page?: string,
+  ): string {
+    const tags = [translateQueryTags(query.trim())]
+    let pid = 0
+
+    const cursor = page?.match(/^([ab])(\d+)$/)
+    if (cursor) {
+      tags.push(
+        cursor[1] === 'b' ? `id:<${cursor[2]}` : `id:>${cursor[2]} sort:id:asc`,
+      )
+    } else if (page) {
+      pid = Math.max(Number(page) - 1, 0) || 0
+    }
+    if (random) {
+      tags.push('sort:random')
+    }
+
+    let endpoint = `${this.getBaseEndpoint()}&tags=${encodeURIComponent(tags.join(' '))}&limit=${limit}&pid=${pid}`
+    if (this.userId && this.apiKey) {
+      endpoint += `&user_id=${encodeURIComponent(this.userId)}&api_key=${encodeURIComponent(this.apiKey)}`
+    }
+    return endpoint
+  }
+
+  // Gelbooru wraps posts as { "@attributes": {...}, "post": [...] }
+  protected extractPosts(body: unknown): unknown[] | undefined {
+    const posts = (body as GelbooruApiEnvelope | null)?.post
+    return Array.isArray(posts) ? posts : undefined
+  }
+
+  // Override sanitizeResponse for Gelbooru-specific sanitization
+  protected sanitizeResponse(data: unknown): Record<string, unknown> {
+    return sanitizeStringFields(
+      super.sanitizeResponse(data),
+      GELBOORU_STRING_FIELDS,
+    )
+  }
+
+  async fetchPosts(
+    query: string,
+    limit: number = 1,
+    random: boolean = true,
+    page?: string,
+  ): Promise<ApiResponse<GelbooruPost[]> | null> {
+    // Use inherited fetchPosts from BaseApiService, which handles caching, logging, and sanitization
+    const response = await super.fetchPosts(query, limit, random, page)
+
+    if (!response) {
+      return null
+    }
+
+    // Invalid posts are dropped individually
+    const posts = await validatePosts(
+      GelbooruPost,
+      response.data,
+      this.logger,
+      'Gelbooru',
+    )
+
+    return posts.length > 0 ? { ...response, data: posts } : null
+  }
+}
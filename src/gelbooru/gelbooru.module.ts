@@ -0,0 +1,24 @@
+import { Module, OnModuleInit } from '@nestjs/common'
+import { CacheModule } from '../common/cache/cache.module'
+import { QueuesModule } from '../common/queues/queues.module'
+import { RedisModule } from '../common/redis/redis.module'
+import { RateLimitModule } from '../common/rate-limit/rate-limit.module'
+import { ProviderRegistryService } from '../common/api/provider-registry.service'
+import { GelbooruService } from './gelbooru.service'
+import { GelbooruApiService } from './gelbooru-api.service'
+
+@Module({
+  imports: [CacheModule, QueuesModule, RedisModule, RateLimitModule],
+  providers: [GelbooruService, GelbooruApiService],
+  exports: [GelbooruService],
+})
+export class GelbooruModule implements OnModuleInit {
+  constructor(
+    private readonly providerRegistry: ProviderRegistryService,
+    private readonly gelbooruService: GelbooruService,
+  ) {}
+
+  onModuleInit() {
+    this.providerRegistry.register(this.gelbooruService)
+  }
+}
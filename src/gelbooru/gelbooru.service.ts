@@ -0,0 +1,77 @@
+import { Injectable, Inject } from '@nestjs/common'
+import { ConfigService } from '@nestjs/config'
+import { GELBOORU_API_PREFIX } from '../common/constants'
+import { GelbooruApiService } from './gelbooru-api.service'
+import { CacheService } from '../common/cache/cache.service'
+import { RateLimitManagerService } from '../common/rate-limit/rate-limit-manager.service'
+import { LockUtil } from '../common/redis/utils/lock.util'
+import { BaseBooruService } from '../common/api/base-booru.service'
+import { ProviderRegistryService } from '../common/api/provider-registry.service'
+import { NotFoundError } from '../common/api/not-found.error'
+import type { BooruSuccessResponse } from '../common/api/base-api.interface'
+import Redis from 'ioredis'
+import { buildSuccessResponse } from './utils/gelbooru-utils'
+
+@Injectable()
+export class GelbooruService extends BaseBooruService {
+  protected readonly apiPrefix = GELBOORU_API_PREFIX
+
+  constructor(
+    configService: ConfigService,
+    @Inject('REDIS_CLIENT') redis: Redis,
+    lockUtil: LockUtil,
+    private readonly gelbooruApiService: GelbooruApiService,
+    cacheService: CacheService,
+    rateLimitManagerService: RateLimitManagerService,
+    providerRegistry: ProviderRegistryService,
+  ) {
+    super(
+      configService,
+      redis,
+      lockUtil,
+      cacheService,
+      rateLimitManagerService,
+      providerRegistry,
+    )
+  }
+
+  getApiService(): GelbooruApiService {
+    return this.gelbooruApiService
+  }
+
+  /**
+   * Fetches Gelbooru posts + builds the normalized success response.
+   * Throws if no posts (for catch in processRequest).
+   * @param query - Query string
+   * @param random - Random flag
+   * @param limit - Limit
+   * @param jobId - Job ID
+   * @param page - Page number or cursor
+   * @returns Success response
+   */
+  protected async fetchAndBuildResponse(
+    query: string,
+    random: boolean,
+    limit: number,
+    jobId: string,
+    page?: string,
+  ): Promise<BooruSuccessResponse> {
+    const result = await this.gelbooruApiService.fetchPosts(
+      query,
+      limit,
+      random,
+      page,
+    )
+    if (!result) {
+      throw new NotFoundError('No posts found for the query or API error')
+    }
+
+    const response = buildSuccessResponse(result.data, jobId, result.metadata)
+    this.logger.log(
+      `Found ${response.posts.length} posts for job ${jobId} (limit ${limit})`,
+      jobId,
+    )
+
+    return response
+  }
+}
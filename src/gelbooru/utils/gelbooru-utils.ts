@@ -0,0 +1,92 @@
+import { GelbooruPost, GelbooruRating } from '../dto/gelbooru-post.class'
+import type {
+  ApiResponse,
+  BooruPostResponse,
+  BooruSuccessResponse,
+} from '../../common/api/base-api.interface'
+import { translateRatingTags } from '../../common/api/utils/rating.util'
+
+/**
+ * Gelbooru spells ratings out; clients get the single-letter Danbooru ratings.
+ */
+export const GELBOORU_RATING_MAP: Record<GelbooruRating, string> = {
+  general: 'g',
+  sensitive: 's',
+  safe: 's',
+  questionable: 'q',
+  explicit: 'e',
+}
+
+/**
+ * Danbooru rating spellings and the Gelbooru rating they map to.
+ * `safe` is Danbooru's legacy name for `s`, as in the query canonicalizer.
+ */
+const RATING_ALIASES: Record<string, GelbooruRating> = {
+  g: 'general',
+  general: 'general',
+  safe: 'sensitive',
+  s: 'sensitive',
+  sensitive: 'sensitive',
+  q: 'questionable',
+  questionable: 'questionable',
+  e: 'explicit',
+  explicit: 'explicit',
+}
+
+/**
+ * Rewrites a Danbooru-style query into Gelbooru tags: ratings are spelled out
+ * and `order:` metatags become `sort:`.
+ * "cat rating:g -rating:e order:score" -> "cat rating:general -rating:explicit sort:score".
+ * @param query - Danbooru-style query string
+ * @returns Query understood by Gelbooru
+ */
+export function translateQueryTags(query: string): string {
+  return translateRatingTags(query, RATING_ALIASES).replace(
+    /(^|\s)(-?)order:/gi,
+    '$1$2sort:',
+  )
+}
+
+/**
+ * Maps a Gelbooru post into the normalized post shape returned to clients.
+ * Gelbooru has no per-category tag strings, so author/copyright/characters stay empty
+ * and every tag is reported in `tags`.
+ * @param post - GelbooruPost instance
+ * @returns BooruPostResponse object
+ */
+export function buildPostResponse(post: GelbooruPost): BooruPostResponse {
+  return {
+    id: post.id,
+    imageUrl: post.file_url,
+    author: null,
+    tags: post.tags,
+    rating: GELBOORU_RATING_MAP[post.rating] ?? post.rating,
+    source: post.source || null,
+    copyright: '',
+    characters: null,
+    md5: post.md5 || null,
+    sampleImageUrl: post.sample_url || null,
+    previewImageUrl: post.preview_url || null,
+  }
+}
+
+/**
+ * Builds success response from a list of Gelbooru posts.
+ * @param posts - Validated GelbooruPost instances
+ * @param jobId - Job ID for logging and response
+ * @param metadata - Optional API metadata carrying next/prev page cursors
+ * @returns BooruSuccessResponse object
+ */
+export function buildSuccessResponse(
+  posts: GelbooruPost[],
+  jobId: string,
+  metadata?: ApiResponse['metadata'],
+): BooruSuccessResponse {
+  return {
+    type: 'success',
+    jobId,
+    posts: posts.map(buildPostResponse),
+    nextCursor: metadata?.next ?? null,
+    prevCursor: metadata?.prev ?? null,
+  }
+}
@@ -1,10 +1,11 @@
 import { NestFactory } from '@nestjs/core'
 import { MicroserviceOptions, Transport } from '@nestjs/microservices'
-import { ValidationPipe, Logger, INestMicroservice } from '@nestjs/common'
+import { ValidationPipe, Logger, INestApplication } from '@nestjs/common'
 import { AppModule } from './app.module'
 import { ConfigService } from '@nestjs/config'
 import Redis from 'ioredis'
 import { createRedisConfig } from './common/redis/utils/redis-config.util'
+import { HTTP_PORT } from './common/constants'
 
 let redisClient: Redis | undefined
 
@@ -43,7 +44,7 @@ async function gracefulShutdown() {
   }
 }
 
-let app: INestMicroservice
+let app: INestApplication
 
 async function bootstrap() {
   const logger = new Logger('Bootstrap')
@@ -62,18 +63,8 @@ async function bootstrap() {
       retryStrategy,
     })
 
-    app = await NestFactory.createMicroservice<MicroserviceOptions>(AppModule, {
-      transport: Transport.REDIS,
-      options: {
-        host,
-        port,
-        username,
-        password,
-        tls,
-        retryStrategy,
-      },
-    })
-
+    // Hybrid app: HTTP gateway (/api/...) plus the Redis transport
+    app = await NestFactory.create(AppModule)
     app.useGlobalPipes(
       new ValidationPipe({
         transform: true,
@@ -83,8 +74,25 @@ async function bootstrap() {
         },
       }),
     )
+    app.connectMicroservice<MicroserviceOptions>(
+      {
+        transport: Transport.REDIS,
+        options: {
+          host,
+          port,
+          username,
+          password,
+          tls,
+          retryStrategy,
+        },
+      },
+      { inheritAppConfig: true },
+    )
 
-    await app.listen()
+    await app.startAllMicroservices()
+    const httpPort = Number(configService.get<number>('HTTP_PORT')) || HTTP_PORT
+    await app.listen(httpPort)
+    logger.log(`HTTP gateway listening on port ${httpPort}`)
 
     // Set up signal handlers after full initialization
     process.on('SIGINT', () => {
@@ -98,7 +106,7 @@ async function bootstrap() {
       )
     })
   } catch (error) {
-    logger.error('Failed to start microservice', error as Error)
+    logger.error('Failed to start application', error as Error)
     process.exit(1)
   }
 }
@@ -0,0 +1,16 @@
+import { MoebooruHostConfig } from '../interfaces/moebooru.interface'
+
+// Moebooru sites served out of the box
+export const MOEBOORU_HOSTS: readonly MoebooruHostConfig[] = [
+  { apiPrefix: 'konachan', baseUrl: 'https://konachan.com' },
+  { apiPrefix: 'yandere', baseUrl: 'https://yande.re' },
+]
+
+/**
+ * DI token for the per-host MoebooruService
+ * @param apiPrefix - Host API prefix (e.g., 'konachan')
+ * @returns Injection token in format: `MOEBOORU_SERVICE:${apiPrefix}`
+ */
+export function getMoebooruServiceToken(apiPrefix: string): string {
+  return `MOEBOORU_SERVICE:${apiPrefix}`
+}
@@ -0,0 +1,15 @@
+/**
+ * Moebooru-specific string fields that require XSS sanitization.
+ * Moebooru keeps every tag in a single `tags` string.
+ */
+export const MOEBOORU_STRING_FIELDS = [
+  'tags',
+  'source',
+  'author',
+  'file_url',
+  'sample_url',
+  'jpeg_url',
+  'preview_url',
+  'md5',
+  'status',
+] as const
@@ -0,0 +1,66 @@
+import {
+  IsNumber,
+  IsString,
+  IsOptional,
+  IsIn,
+  IsUrl,
+  MaxLength,
+} from 'class-validator'
+
+import { Transform } from 'class-transformer'
+
+export class MoebooruPost {
+  @IsNumber()
+  id: number
+
+  @IsString()
+  @IsUrl({}, { message: 'file_url must be a valid URL' })
+  file_url: string
+
+  @IsOptional()
+  @IsString()
+  sample_url?: string
+
+  @IsOptional()
+  @IsString()
+  jpeg_url?: string
+
+  @IsOptional()
+  @IsString()
+  preview_url?: string
+
+  @IsString()
+  @MaxLength(10000)
+  @Transform(
+    ({ value }: { value: string }) => value?.toLowerCase().trim() || '',
+  )
+  tags: string
+
+  // Moebooru only knows safe/questionable/explicit
+  @IsIn(['s', 'q', 'e'])
+  rating: 's' | 'q' | 'e'
+
+  @IsOptional()
+  @IsString()
+  source?: string
+
+  // Uploader name, not the artist
+  @IsOptional()
+  @IsString()
+  author?: string
+
+  @IsOptional()
+  @IsNumber()
+  score?: number
+
+  @IsOptional()
+  @IsString()
+  md5?: string
+
+  // Unix timestamp in seconds
+  @IsOptional()
+  @IsNumber()
+  created_at?: number;
+
+  [key: string]: unknown
+}
@@ -0,0 +1,8 @@
+/**
+ * A single Moebooru site. Every host gets its own apiPrefix, so streams,
+ * cache keys, rate limits and config keys stay separate per site.
+ */
+export interface MoebooruHostConfig {
+  apiPrefix: string // e.g. 'konachan' -> konachan:requests, KONACHAN_LIMIT
+  baseUrl: string // Overridable via {PREFIX}_BASE_URL
+}
@@ -0,0 +1,109 @@
+import { ConfigService } from '@nestjs/config'
+import type { AxiosInstance } from 'axios'
+import { MoebooruApiService } from './moebooru-api.service'
+import { buildSuccessResponse } from './utils/moebooru-utils'
+import 'reflect-metadata'
+
+describe('MoebooruApiService', () => {
+  let service: MoebooruApiService
+  let getSpy: jest.SpyInstance
+
+  const moebooruPost = {
+    id: 380000,
+    file_url: 'https://konachan.com/image/abc/Konachan.com%20-%20380000.png',
+    preview_url: 'https://konachan.com/data/preview/ab/c/abc.jpg',
+    tags: 'Cat_Ears original <i>scenic</i>',
+    rating: 's',
+    source: 'https://www.pixiv.net/artworks/1',
+    author: 'uploader',
+    score: 42,
+    md5: 'abc',
+    created_at: 1700000000,
+  }
+
+  beforeEach(() => {
+    const config: Record<string, string> = {
+      KONACHAN_LOGIN: 'user',
+      KONACHAN_PASSWORD_HASH: 'hash',
+    }
+    const configService = {
+      get: jest.fn((key: string) => config[key]),
+    } as unknown as ConfigService
+
+    service = new MoebooruApiService(configService, {
+      apiPrefix: 'konachan',
+      baseUrl: 'https://konachan.com',
+    })
+    const httpClient = (service as unknown as { httpClient: AxiosInstance })
+      .httpClient
+    getSpy = jest.spyOn(httpClient, 'get')
+  })
+
+  it('should use the host base URL', () => {
+    const httpClient = (service as unknown as { httpClient: AxiosInstance })
+      .httpClient
+    expect(httpClient.defaults.baseURL).toBe('https://konachan.com')
+  })
+
+  it('should request /post.json with order:random and credentials', async () => {
+    getSpy.mockResolvedValue({ status: 200, data: [moebooruPost] })
+
+    const result = await service.fetchPosts('cat_ears rating:general', 1, true)
+
+    expect(getSpy).toHaveBeenCalledWith(
+      `/post.json?tags=${encodeURIComponent('cat_ears rating:s order:random')}&limit=1&page=1&login=user&password_hash=hash`,
+    )
+    expect(result?.data[0].tags).toBe('cat_ears original scenic')
+  })
+
+  it('should translate id cursors into id tags', async () => {
+    getSpy.mockResolvedValue({ status: 200, data: [moebooruPost] })
+
+    const result = await service.fetchPosts('cat_ears', 1, false, 'b380100')
+
+    expect(getSpy).toHaveBeenCalledWith(
+      expect.stringContaining(
+        `?tags=${encodeURIComponent('cat_ears id:<380100')}&limit=1&page=1`,
+      ),
+    )
+    expect(result?.metadata).toMatchObject({ next: 'b380000' })
+  })
+
+  it('should drop posts with unknown ratings', async () => {
+    getSpy.mockResolvedValue({
+      status: 200,
+      data: [{ ...moebooruPost, rating: 'g' }],
+    })
+
+    await expect(service.fetchPosts('cat_ears')).resolves.toBeNull()
+  })
+
+  it('should map posts into the normalized response shape', async () => {
+    getSpy.mockResolvedValue({ status: 200, data: [moebooruPost] })
+
+    const result = await service.fetchPosts('cat_ears')
+
+    expect(buildSuccessResponse(result!.data, 'job-1')).toEqual({
+      type: 'success',
+      jobId: 'job-1',
+      posts: [
+        {
+          id: 380000,
+          imageUrl: moebooruPost.file_url,
+          author: null,
+          tags: 'cat_ears original scenic',
+          rating: 's',
+          source: 'https://www.pixiv.net/artworks/1',
+          copyright: '',
+          characters: null,
+          md5: 'abc',
+          largeImageUrl: null,
+          sampleImageUrl: null,
+          previewImageUrl: 'https://konachan.com/data/preview/ab/c/abc.jpg',
+        },
+      ],
+      nextCursor: null,
+      prevCursor: null,
+    })
+  })
+})
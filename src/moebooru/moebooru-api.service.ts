@@ -0,0 +1,118 @@
+import { ConfigService } from '@nestjs/config'
+import { MoebooruPost } from './dto/moebooru-post.class'
+import { MoebooruHostConfig } from './interfaces/moebooru.interface'
+import { API_TIMEOUT_MS } from '../common/constants'
+import {
+  BaseApiService,
+  ApiConfig,
+  ApiResponse,
+} from '../common/api/base-api.service'
+import { MOEBOORU_STRING_FIELDS } from './constants/sanitization.constants'
+import { sanitizeStringFields } from '../common/api/utils/sanitize.util'
+import { translateRatingTags } from '../common/api/utils/rating.util'
+import { validatePosts } from '../common/api/utils/post-validation.util'
+
+/**
+ * Client for Moebooru sites (Konachan, yande.re).
+ * Not a singleton provider: MoebooruModule creates one instance per host.
+ */
+export class MoebooruApiService extends BaseApiService {
+  private readonly login: string
+  private readonly passwordHash: string
+
+  constructor(
+    configService: ConfigService,
+    private readonly host: MoebooruHostConfig,
+  ) {
+    super(configService)
+    // Credentials are optional, anonymous access works for public posts
+    const configPrefix = host.apiPrefix.toUpperCase()
+    this.login = configService.get<string>(`${configPrefix}_LOGIN`) ?? ''
+    this.passwordHash =
+      configService.get<string>(`${configPrefix}_PASSWORD_HASH`) ?? ''
+  }
+
+  protected getApiConfig(): ApiConfig {
+    return {
+      baseUrl:
+        this.configService.get<string>(
+          `${this.host.apiPrefix.toUpperCase()}_BASE_URL`,
+        ) || this.host.baseUrl,
+      timeout: API_TIMEOUT_MS,
+      retryAttempts: 3, // Explicitly set for axios-retry
+    }
+  }
+
+  protected getBaseEndpoint(): string {
+    return '/post.json'
+  }
+
+  /**
+   * Moebooru has no `random` parameter: random ordering is the `order:random` tag
+   * and id cursors become `id:<N` / `id:>N` tags. Pages are 1-based like Danbooru.
+   */
+  protected buildEndpoint(
+    query: string,
+    limit: number,
+    random: boolean,
+    page?: string,
+  ): string {
+    const tags = [translateRatingTags(query.trim())]
+    let pageNumber = 1
+
+    const cursor = page?.match(/^([ab])(\d+)$/)
+    if (cursor) {
+      tags.push(
+        cursor[1] === 'b' ? `id:<${cursor[2]}` : `id:>${cursor[2]} order:id`,
+      )
+    } else if (page) {
+      pageNumber = Math.max(Number(page), 1) || 1
+    }
+    if (random) {
+      tags.push('order:random')
+    }
+
+    let endpoint = `${this.getBaseEndpoint()}?tags=${encodeURIComponent(tags.join(' '))}&limit=${limit}&page=${pageNumber}`
+    if (this.login && this.passwordHash) {
+      endpoint += `&login=${encodeURIComponent(this.login)}&password_hash=${encodeURIComponent(this.passwordHash)}`
+    }
+    return endpoint
+  }
+
+  // Override sanitizeResponse for Moebooru-specific sanitization
+  protected sanitizeResponse(data: unknown): Record<string, unknown> {
+    return sanitizeStringFields(
+      super.sanitizeResponse(data),
+      MOEBOORU_STRING_FIELDS,
+    )
+  }
+
+  // Cache keys and logs use the host prefix rather than the class name
+  protected getName(): string {
+    return this.host.apiPrefix
+  }
+
+  async fetchPosts(
+    query: string,
+    limit: number = 1,
+    random: boolean = true,
+    page?: string,
+  ): Promise<ApiResponse<MoebooruPost[]> | null> {
+    // Use inherited fetchPosts from BaseApiService, which handles caching, logging, and sanitization
+    const response = await super.fetchPosts(query, limit, random, page)
+
+    if (!response) {
+      return null
+    }
+
+    // Invalid posts are dropped individually
+    const posts = await validatePosts(
+      MoebooruPost,
+      response.data,
+      this.logger,
+      this.host.apiPrefix,
+    )
+
+    return posts.length > 0 ? { ...response, data: posts } : null
+  }
+}
@@ -0,0 +1,70 @@
+import { DynamicModule, Module, Provider } from '@nestjs/common'
+import { ConfigService } from '@nestjs/config'
+import Redis from 'ioredis'
+import { CacheModule } from '../common/cache/cache.module'
+import { QueuesModule } from '../common/queues/queues.module'
+import { RedisModule } from '../common/redis/redis.module'
+import { RateLimitModule } from '../common/rate-limit/rate-limit.module'
+import { CacheService } from '../common/cache/cache.service'
+import { RateLimitManagerService } from '../common/rate-limit/rate-limit-manager.service'
+import { LockUtil } from '../common/redis/utils/lock.util'
+import { ProviderRegistryService } from '../common/api/provider-registry.service'
+import { MoebooruService } from './moebooru.service'
+import { MoebooruApiService } from './moebooru-api.service'
+import { MoebooruHostConfig } from './interfaces/moebooru.interface'
+import {
+  MOEBOORU_HOSTS,
+  getMoebooruServiceToken,
+} from './constants/moebooru.constants'
+
+@Module({})
+export class MoebooruModule {
+  /**
+   * Registers one MoebooruService per host under getMoebooruServiceToken(apiPrefix)
+   * and adds each of them to the ProviderRegistryService
+   * @param hosts - Moebooru sites to serve (defaults to Konachan and yande.re)
+   */
+  static register(
+    hosts: readonly MoebooruHostConfig[] = MOEBOORU_HOSTS,
+  ): DynamicModule {
+    const providers: Provider[] = hosts.map(host => ({
+      provide: getMoebooruServiceToken(host.apiPrefix),
+      useFactory: (
+        configService: ConfigService,
+        redis: Redis,
+        lockUtil: LockUtil,
+        cacheService: CacheService,
+        rateLimitManagerService: RateLimitManagerService,
+        providerRegistry: ProviderRegistryService,
+      ) => {
+        const service = new MoebooruService(
+          host,
+          configService,
+          redis,
+          lockUtil,
+          new MoebooruApiService(configService, host),
+          cacheService,
+          rateLimitManagerService,
+          providerRegistry,
+        )
+        providerRegistry.register(service)
+        return service
+      },
+      inject: [
+        ConfigService,
+        'REDIS_CLIENT',
+        LockUtil,
+        CacheService,
+        RateLimitManagerService,
+        ProviderRegistryService,
+      ],
+    }))
+
+    return {
+      module: MoebooruModule,
+      imports: [CacheModule, QueuesModule, RedisModule, RateLimitModule],
+      providers,
+      exports: hosts.map(host => getMoebooruServiceToken(host.apiPrefix)),
+    }
+  }
+}
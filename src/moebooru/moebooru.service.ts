@@ -0,0 +1,81 @@
+import { ConfigService } from '@nestjs/config'
+import { MoebooruApiService } from './moebooru-api.service'
+import { MoebooruHostConfig } from './interfaces/moebooru.interface'
+import { CacheService } from '../common/cache/cache.service'
+import { RateLimitManagerService } from '../common/rate-limit/rate-limit-manager.service'
+import { LockUtil } from '../common/redis/utils/lock.util'
+import { BaseBooruService } from '../common/api/base-booru.service'
+import { ProviderRegistryService } from '../common/api/provider-registry.service'
+import { NotFoundError } from '../common/api/not-found.error'
+import type { BooruSuccessResponse } from '../common/api/base-api.interface'
+import Redis from 'ioredis'
+import { buildSuccessResponse } from './utils/moebooru-utils'
+
+/**
+ * Orchestrator for one Moebooru host. Created per host by MoebooruModule,
+ * publishing to `${apiPrefix}:responses` and using `${apiPrefix}` for cache/rate/DLQ keys.
+ */
+export class MoebooruService extends BaseBooruService {
+  protected readonly apiPrefix: string
+
+  constructor(
+    host: MoebooruHostConfig,
+    configService: ConfigService,
+    redis: Redis,
+    lockUtil: LockUtil,
+    private readonly moebooruApiService: MoebooruApiService,
+    cacheService: CacheService,
+    rateLimitManagerService: RateLimitManagerService,
+    providerRegistry: ProviderRegistryService,
+  ) {
+    super(
+      configService,
+      redis,
+      lockUtil,
+      cacheService,
+      rateLimitManagerService,
+      providerRegistry,
+    )
+    this.apiPrefix = host.apiPrefix
+  }
+
+  getApiService(): MoebooruApiService {
+    return this.moebooruApiService
+  }
+
+  /**
+   * Fetches Moebooru posts + builds the normalized success response.
+   * Throws if no posts (for catch in processRequest).
+   * @param query - Query string
+   * @param random - Random flag
+   * @param limit - Limit
+   * @param jobId - Job ID
+   * @param page - Page number or cursor
+   * @returns Success response
+   */
+  protected async fetchAndBuildResponse(
+    query: string,
+    random: boolean,
+    limit: number,
+    jobId: string,
+    page?: string,
+  ): Promise<BooruSuccessResponse> {
+    const result = await this.moebooruApiService.fetchPosts(
+      query,
+      limit,
+      random,
+      page,
+    )
+    if (!result) {
+      throw new NotFoundError('No posts found for the query or API error')
+    }
+
+    const response = buildSuccessResponse(result.data, jobId, result.metadata)
+    this.logger.log(
+      `Found ${response.posts.length} posts for ${this.apiPrefix} job ${jobId} (limit ${limit})`,
+      jobId,
+    )
+
+    return response
+  }
+}
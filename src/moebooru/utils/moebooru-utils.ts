@@ -0,0 +1,51 @@
+import { MoebooruPost } from '../dto/moebooru-post.class'
+import type {
+  ApiResponse,
+  BooruPostResponse,
+  BooruSuccessResponse,
+} from '../../common/api/base-api.interface'
+
+/**
+ * Maps a Moebooru post into the normalized post shape returned to clients.
+ * Moebooru has no per-category tag strings, so author/copyright/characters stay empty
+ * and every tag is reported in `tags`.
+ * @param post - MoebooruPost instance
+ * @returns BooruPostResponse object
+ */
+export function buildPostResponse(post: MoebooruPost): BooruPostResponse {
+  return {
+    id: post.id,
+    imageUrl: post.file_url,
+    author: null,
+    tags: post.tags,
+    rating: post.rating,
+    source: post.source || null,
+    copyright: '',
+    characters: null,
+    md5: post.md5 || null,
+    largeImageUrl: post.jpeg_url || null,
+    sampleImageUrl: post.sample_url || null,
+    previewImageUrl: post.preview_url || null,
+  }
+}
+
+/**
+ * Builds success response from a list of Moebooru posts.
+ * @param posts - Validated MoebooruPost instances
+ * @param jobId - Job ID for logging and response
+ * @param metadata - Optional API metadata carrying next/prev page cursors
+ * @returns BooruSuccessResponse object
+ */
+export function buildSuccessResponse(
+  posts: MoebooruPost[],
+  jobId: string,
+  metadata?: ApiResponse['metadata'],
+): BooruSuccessResponse {
+  return {
+    type: 'success',
+    jobId,
+    posts: posts.map(buildPostResponse),
+    nextCursor: metadata?.next ?? null,
+    prevCursor: metadata?.prev ?? null,
+  }
+}